@@ -14,6 +14,11 @@ export default [
       },
       globals: {
         fetch: 'readonly',
+        Response: 'readonly',
+        RequestInit: 'readonly',
+        TextDecoder: 'readonly',
+        AbortController: 'readonly',
+        AbortSignal: 'readonly',
         process: 'readonly',
         console: 'readonly',
         Buffer: 'readonly',
@@ -5,7 +5,7 @@ import { AnalyticsUtils } from './utils.js';
 
 const logger = new Logger('AnalyticsQueue');
 
-// Hardcoded analytics endpoint - all library users send data here for ML training
+// Default analytics endpoint - library users send data here for ML training
 const SUPABASE_ANALYTICS_ENDPOINT =
   'https://ucgblchamfvkillrznhk.supabase.co/functions/v1/analytics';
 
@@ -27,6 +27,7 @@ export class AnalyticsQueue {
       batchSize: config.batchSize ?? 50,
       batchIntervalMs: config.batchIntervalMs ?? 5000,
       debugMode: config.debugMode ?? false,
+      endpoint: config.endpoint ?? SUPABASE_ANALYTICS_ENDPOINT,
     };
 
     this.sessionId = AnalyticsUtils.generateSessionId();
@@ -143,7 +144,7 @@ export class AnalyticsQueue {
       );
     }
 
-    const response = await fetch(SUPABASE_ANALYTICS_ENDPOINT, {
+    const response = await fetch(this.config.endpoint, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -115,6 +115,11 @@ export class AnalyticsUtils {
     delete sanitized.apiKey;
     delete sanitized.key;
     delete sanitized.secret;
+    // Transport headers may carry credentials and fetch is not serializable
+    for (const key of ['transport', 'selectorTransport']) {
+      const transport = sanitized[key] as { baseUrl?: string } | undefined;
+      if (transport) sanitized[key] = { baseUrl: transport.baseUrl };
+    }
     return sanitized;
   }
 }
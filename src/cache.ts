@@ -1,37 +1,56 @@
+import { createHash } from 'node:crypto';
 import { Logger } from './utils/logger.js';
 import { ModelProfiler } from './lib/model-profiler.js';
-import type { ModelInfo, PromptCategory, ModelProfile } from './types.js';
+import {
+  TransportError,
+  type OpenAICompatibleTransport,
+} from './lib/transport.js';
+import { CatalogFetchError, RequestAbortedError } from './errors.js';
+import type {
+  ModelInfo,
+  PromptCategory,
+  ModelProfile,
+  RequestControl,
+} from './types.js';
 
 const logger = new Logger('Cache:ModelStore');
 const embeddingLogger = new Logger('Cache:EmbeddingStore');
 
-interface llmModelProviderResponse {
-  data: ModelInfo[];
-}
-
 class InMemoryModelCache {
   private profileCache: Map<string, ModelProfile> = new Map();
   private lastFetched: number = 0;
+  private catalogVersion: string = '';
   private readonly CACHE_TTL = 7 * 24 * 60 * 60 * 1000; // 1 week
-  private OPEN_ROUTER_API_KEY = '';
+  private transport: OpenAICompatibleTransport;
 
-  constructor(OPEN_ROUTER_API_KEY: string) {
-    this.OPEN_ROUTER_API_KEY = OPEN_ROUTER_API_KEY;
+  constructor(transport: OpenAICompatibleTransport) {
+    this.transport = transport;
   }
 
-  async getModelProfiles(): Promise<ModelProfile[]> {
+  async getModelProfiles(
+    control: RequestControl = {}
+  ): Promise<ModelProfile[]> {
     const now = Date.now();
 
     if (
       this.profileCache.size === 0 ||
       now - this.lastFetched > this.CACHE_TTL
     ) {
-      await this.fetchAndCacheProfiles();
+      await this.fetchAndCacheProfiles(control);
     }
 
     return Array.from(this.profileCache.values());
   }
 
+  /**
+   * Fingerprint of the cached profiles, so any catalog change that can affect
+   * routing (prices, limits, modalities, parameters, ...) changes it; empty
+   * until the first fetch
+   */
+  getCatalogVersion(): string {
+    return this.catalogVersion;
+  }
+
   async getModelProfile(modelId: string): Promise<ModelProfile | undefined> {
     await this.getModelProfiles();
     return this.profileCache.get(modelId);
@@ -91,50 +110,93 @@ class InMemoryModelCache {
       .slice(0, limit);
   }
 
-  private async fetchAndCacheProfiles(): Promise<void> {
+  private async fetchAndCacheProfiles(control: RequestControl): Promise<void> {
     try {
-      logger.info('Fetching models from doer and generating profiles');
-
-      const response = await fetch('https://openrouter.ai/api/v1/models', {
-        headers: {
-          Authorization: `Bearer ${this.OPEN_ROUTER_API_KEY}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error(`OpenRouter API error: ${response.status}`);
-      }
+      logger.info(
+        `Fetching models from ${this.transport.getBaseUrl()} and generating profiles`
+      );
 
-      const data = (await response.json()) as llmModelProviderResponse;
+      const models = await this.transport.listModels(control);
 
       // Clear existing profiles and generate new ones
       this.profileCache.clear();
       let profilesGenerated = 0;
 
-      for (const modelInfo of data.data) {
+      for (const rawModelInfo of models) {
         try {
+          const modelInfo = this.normalizeModelInfo(rawModelInfo);
           const profile = ModelProfiler.createModelProfile(modelInfo);
           this.profileCache.set(modelInfo.id, profile);
           profilesGenerated++;
         } catch (error) {
-          logger.warn(`Failed to generate profile for ${modelInfo.id}:`, error);
+          logger.warn(
+            `Failed to generate profile for ${rawModelInfo.id}:`,
+            error
+          );
         }
       }
 
       this.lastFetched = Date.now();
+      this.catalogVersion = this.createCatalogVersion(
+        Array.from(this.profileCache.values())
+      );
       logger.info(
-        `Generated and cached ${profilesGenerated} model profiles from ${data.data.length} OpenRouter models`
+        `Generated and cached ${profilesGenerated} model profiles from ${models.length} catalog models`
       );
     } catch (error) {
-      logger.error('Failed to fetch models from OpenRouter', error);
-      throw error;
+      if (error instanceof RequestAbortedError) throw error;
+
+      logger.error('Failed to fetch model catalog', error);
+      throw new CatalogFetchError(
+        `Failed to fetch the model catalog from ${this.transport.getBaseUrl()}: ${error instanceof Error ? error.message : 'unknown error'}`,
+        {
+          cause: error,
+          context: {
+            baseUrl: this.transport.getBaseUrl(),
+            ...(error instanceof TransportError &&
+              error.status !== undefined && { status: error.status }),
+          },
+        }
+      );
     }
   }
 
+  private createCatalogVersion(profiles: ModelProfile[]): string {
+    const fingerprint = profiles
+      .map(profile => JSON.stringify(profile))
+      .sort()
+      .join('\n');
+    return createHash('sha256').update(fingerprint).digest('hex').slice(0, 16);
+  }
+
+  /**
+   * Fill in fields that non-OpenRouter catalogs (llama.cpp, Ollama, vLLM) omit
+   */
+  private normalizeModelInfo(modelInfo: Partial<ModelInfo>): ModelInfo {
+    if (!modelInfo.id) {
+      throw new Error('Catalog entry is missing a model id');
+    }
+
+    return {
+      ...modelInfo,
+      id: modelInfo.id,
+      name: modelInfo.name ?? modelInfo.id,
+      context_length: modelInfo.context_length ?? 0,
+      pricing: {
+        prompt: modelInfo.pricing?.prompt ?? '0',
+        completion: modelInfo.pricing?.completion ?? '0',
+      },
+      top_provider: {
+        ...modelInfo.top_provider,
+        is_moderated: modelInfo.top_provider?.is_moderated ?? false,
+      },
+    };
+  }
+
   clearCache(): void {
     this.profileCache.clear();
     this.lastFetched = 0;
+    this.catalogVersion = '';
     logger.info('Model cache cleared');
   }
 }
@@ -1,5 +1,13 @@
-import { PromptType, type PromptCategory } from './types.js';
-import { semanticClassifier } from './lib/semantic-classifier.js';
+import {
+  PromptType,
+  type ClassificationExplanation,
+  type PromptCategory,
+} from './types.js';
+import {
+  semanticClassifier,
+  type SemanticClassificationResult,
+} from './lib/semantic-classifier.js';
+import type { Conversation } from './lib/conversation.js';
 import { Logger } from './utils/logger.js';
 
 const logger = new Logger('PromptClassifier');
@@ -109,6 +117,16 @@ const HYBRID_SCORING = {
   KEYWORD_WEIGHT: 0.4, // 40% keyword
   MIN_COMBINED_CONFIDENCE: 0.3,
   FALLBACK_CONFIDENCE: 0.6,
+  SEMANTIC_TIMEOUT_MS: 5000, // Slower semantic results are dropped in favour of keywords
+} as const;
+
+/**
+ * Weight of each conversation part when classifying multi-turn conversations
+ */
+const CONVERSATION_WEIGHTS = {
+  LATEST_USER: 0.6, // The request being answered right now
+  SYSTEM: 0.25, // Sets the overall task (e.g. "You are a code reviewer")
+  HISTORY: 0.15, // Earlier turns give context
 } as const;
 
 /**
@@ -140,6 +158,103 @@ export class PromptClassifier {
     }
   }
 
+  /**
+   * Classifies a conversation, weighting the latest user turn highest and
+   * letting the system prompt and earlier turns contribute to the category
+   * @param conversation Normalized conversation
+   * @returns PromptCategory with type and confidence score
+   */
+  static async classifyConversation(
+    conversation: Conversation
+  ): Promise<PromptCategory> {
+    const parts = [
+      {
+        text: conversation.latestUserPrompt,
+        weight: CONVERSATION_WEIGHTS.LATEST_USER,
+      },
+      { text: conversation.systemPrompt, weight: CONVERSATION_WEIGHTS.SYSTEM },
+      { text: conversation.history, weight: CONVERSATION_WEIGHTS.HISTORY },
+    ].filter(part => part.text.trim().length > 0);
+
+    // A single turn is just a prompt
+    if (parts.length <= 1) {
+      return this.classifyPrompt(conversation.latestUserPrompt);
+    }
+
+    const results = await Promise.all(
+      parts.map(part => this.classifyPrompt(part.text))
+    );
+
+    // Accumulate confidence-weighted votes per category
+    const votes = new Map<PromptType, number>();
+    results.forEach((result, index) => {
+      const weight = parts[index]?.weight ?? 0;
+      votes.set(
+        result.type,
+        (votes.get(result.type) ?? 0) + weight * result.confidence
+      );
+    });
+
+    const totalWeight = parts.reduce((sum, part) => sum + part.weight, 0);
+    const [type, score] = [...votes.entries()].sort((a, b) => b[1] - a[1])[0]!;
+
+    const result = {
+      type,
+      confidence: Math.max(
+        HYBRID_SCORING.MIN_COMBINED_CONFIDENCE,
+        Math.min(score / totalWeight, 0.95)
+      ),
+    };
+
+    logger.debug(
+      `Conversation classification (${parts.length} parts): ${result.type} (${result.confidence.toFixed(3)})`
+    );
+    return result;
+  }
+
+  /**
+   * Classify a prompt and return the semantic and keyword results behind
+   * the combined category
+   */
+  static async explainPrompt(
+    prompt: string
+  ): Promise<ClassificationExplanation> {
+    const [semanticResult] = await Promise.allSettled([
+      this.runSemanticClassification(prompt),
+    ]);
+    const keyword = this.performKeywordClassification(prompt);
+
+    const result = this.combineClassificationResults(
+      semanticResult.status === 'fulfilled'
+        ? { status: 'fulfilled', value: semanticResult.value.category }
+        : semanticResult,
+      { status: 'fulfilled', value: keyword }
+    );
+
+    return {
+      result,
+      ...(semanticResult.status === 'fulfilled'
+        ? {
+            semantic: {
+              category: semanticResult.value.category,
+              similarities: Object.fromEntries(
+                semanticResult.value.similarities
+              ),
+            },
+          }
+        : {
+            semanticError:
+              semanticResult.reason instanceof Error
+                ? semanticResult.reason.message
+                : 'unknown error',
+          }),
+      keyword: {
+        category: keyword,
+        scores: this.getKeywordScores(prompt.toLowerCase()),
+      },
+    };
+  }
+
   /**
    * Legacy synchronous method for backward compatibility
    * Now uses keyword-only classification as fallback
@@ -155,42 +270,43 @@ export class PromptClassifier {
   private static async performSemanticClassification(
     prompt: string
   ): Promise<PromptCategory> {
-    const result = await semanticClassifier.classifyPrompt(prompt);
+    const result = await this.runSemanticClassification(prompt);
     logger.debug(
       `Semantic classification: ${result.category.type} (${result.category.confidence.toFixed(3)})`
     );
     return result.category;
   }
 
+  /**
+   * Semantic classification with its similarity details, bounded by the timeout
+   */
+  private static async runSemanticClassification(
+    prompt: string
+  ): Promise<SemanticClassificationResult> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () =>
+          reject(
+            new Error(
+              `Semantic classification timed out after ${HYBRID_SCORING.SEMANTIC_TIMEOUT_MS}ms`
+            )
+          ),
+        HYBRID_SCORING.SEMANTIC_TIMEOUT_MS
+      );
+    });
+
+    return Promise.race([
+      semanticClassifier.classifyPrompt(prompt),
+      timeout,
+    ]).finally(() => clearTimeout(timer));
+  }
+
   /**
    * Perform keyword-based classification (original logic)
    */
   private static performKeywordClassification(prompt: string): PromptCategory {
-    const lowerPrompt = prompt.toLowerCase();
-
-    // Calculate scores for all categories
-    const scores = {
-      coding: this.calculateCategoryScore(
-        lowerPrompt,
-        CLASSIFICATION_KEYWORDS.coding
-      ),
-      creative: this.calculateCategoryScore(
-        lowerPrompt,
-        CLASSIFICATION_KEYWORDS.creative
-      ),
-      analytical: this.calculateCategoryScore(
-        lowerPrompt,
-        CLASSIFICATION_KEYWORDS.analytical
-      ),
-      reasoning: this.calculateCategoryScore(
-        lowerPrompt,
-        CLASSIFICATION_KEYWORDS.reasoning
-      ),
-      conversational: this.calculateCategoryScore(
-        lowerPrompt,
-        CLASSIFICATION_KEYWORDS.conversational
-      ),
-    };
+    const scores = this.getKeywordScores(prompt.toLowerCase());
 
     // Find the category with highest score
     const maxScore = Math.max(...Object.values(scores));
@@ -236,6 +352,34 @@ export class PromptClassifier {
     return result;
   }
 
+  /**
+   * Keyword score of every category for a lowercase prompt
+   */
+  private static getKeywordScores(lowerPrompt: string) {
+    return {
+      coding: this.calculateCategoryScore(
+        lowerPrompt,
+        CLASSIFICATION_KEYWORDS.coding
+      ),
+      creative: this.calculateCategoryScore(
+        lowerPrompt,
+        CLASSIFICATION_KEYWORDS.creative
+      ),
+      analytical: this.calculateCategoryScore(
+        lowerPrompt,
+        CLASSIFICATION_KEYWORDS.analytical
+      ),
+      reasoning: this.calculateCategoryScore(
+        lowerPrompt,
+        CLASSIFICATION_KEYWORDS.reasoning
+      ),
+      conversational: this.calculateCategoryScore(
+        lowerPrompt,
+        CLASSIFICATION_KEYWORDS.conversational
+      ),
+    };
+  }
+
   /**
    * Combine semantic and keyword classification results with weighted scoring
    */
@@ -0,0 +1,671 @@
+#!/usr/bin/env node
+import { writeFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import { Logger } from './utils/logger.js';
+import { RouterError } from './errors.js';
+import { InMemoryModelCache } from './cache.js';
+import { PromptClassifier } from './classifier.js';
+import { OpenAICompatibleTransport } from './lib/transport.js';
+import { ConfigLoader, createRouterFromConfig } from './config/loader.js';
+import { RoutingEvaluator } from './evaluation/evaluator.js';
+import { EvaluationDataset } from './evaluation/dataset.js';
+import { RoutingGateway } from './gateway/server.js';
+import { RoutingMcpServer } from './mcp/server.js';
+import { PromptType } from './types.js';
+import type {
+  ClassificationExplanation,
+  EvaluationOptions,
+  EvaluationReport,
+  ModelCharacteristics,
+  ModelProfile,
+  ModelSelection,
+  PromptProperties,
+  SelectionStrategy,
+} from './types.js';
+
+const USAGE = `Usage: auto-llm-selector <command> [options]
+
+Commands:
+  recommend "<prompt>"       Pick a model for a prompt and explain the decision
+  classify "<prompt>"        Show the category with its semantic and keyword scores
+  models list                List catalog models suitable for a category
+  catalog refresh            Fetch the live catalog and summarize it
+  catalog export             Save the live catalog as a snapshot (for --catalog)
+  evaluate <dataset.jsonl>   Replay a labeled dataset and report routing quality
+  serve                      Run the OpenAI-compatible gateway (model "auto")
+  mcp                        Run a Model Context Protocol server on stdio
+
+Recommend options:
+  --accuracy <0-1>           Accuracy priority (default: 0.5)
+  --cost <0-1>               Cost tolerance, 0 = cost matters most (default: 0.5)
+  --speed <0-1>              Speed priority (default: 0.5)
+  --token-limit <n>          Expected response tokens (default: 1000)
+  --reasoning                Require a reasoning model
+  --tools                    Require function calling
+  --strategy <name>          Override selectionStrategy: llm, local, hybrid or bandit
+
+Models list options:
+  --category <type>          ${Object.values(PromptType).join(', ')} (default: general)
+  --min-accuracy <tier>      basic, good, high or excellent
+  --min-speed <tier>         slow, medium, fast or ultra-fast
+  --max-cost <usd>           Maximum prompt price per million tokens
+  --limit <n>                Models to show (default: 20)
+  --catalog <file>           Read a snapshot instead of the live catalog
+
+Catalog export options:
+  --output <file>            Write to a file instead of stdout
+
+Evaluate options:
+  --catalog <file>           Catalog snapshot: JSON array or saved /models response (required)
+  --baseline <model>         Model to compare the estimated cost against
+  --properties <json>        Default PromptProperties for every case, e.g. '{"accuracy":0.8}'
+
+Serve options:
+  --port <n>                 Port to listen on, 0 for any free port (default: 8080)
+  --host <address>           Interface to listen on (default: 127.0.0.1)
+  --api-key <key>            Bearer token clients must send (repeatable)
+
+Common options:
+  --config <file>            Router config file (default: ROUTER_CONFIG_PATH or auto-router.config.*)
+  --json                     Print machine-readable JSON
+  --verbose                  Show router logs
+  -h, --help                 Show this help
+`;
+
+const ACCURACY_TIERS = ['basic', 'good', 'high', 'excellent'] as const;
+const SPEED_TIERS = ['slow', 'medium', 'fast', 'ultra-fast'] as const;
+const STRATEGIES = ['llm', 'local', 'hybrid', 'bandit'] as const;
+
+// Defaults for recommend; flags override individual properties. Without
+// --reasoning, reasoning and non-reasoning models are both candidates
+const DEFAULT_CLI_PROPERTIES: PromptProperties = {
+  accuracy: 0.5,
+  cost: 0.5,
+  speed: 0.5,
+  tokenLimit: 1000,
+};
+
+/**
+ * Wrong arguments; printed with the usage text
+ */
+class UsageError extends Error {}
+
+const write = (text: string): void => {
+  process.stdout.write(`${text}\n`);
+};
+
+const writeJson = (value: unknown): void =>
+  write(JSON.stringify(value, null, 2));
+
+// parseArgs rejects unknown options and missing values with ERR_PARSE_ARGS_* codes
+const isParseArgsError = (error: unknown): error is Error =>
+  error instanceof Error &&
+  String((error as { code?: unknown }).code).startsWith('ERR_PARSE_ARGS');
+
+const percent = (value: number): string => `${(value * 100).toFixed(1)}%`;
+
+const perMillion = (costPerToken: number): string =>
+  `$${(costPerToken * 1_000_000).toFixed(2)}`;
+
+const parseNumber = (value: string | undefined, flag: string) => {
+  if (value === undefined) return undefined;
+  const number = Number(value);
+  if (value.trim() === '' || !Number.isFinite(number)) {
+    throw new UsageError(`${flag} must be a number, got "${value}"`);
+  }
+  return number;
+};
+
+const parseChoice = <T extends string>(
+  value: string | undefined,
+  choices: readonly T[],
+  flag: string
+): T | undefined => {
+  if (value === undefined) return undefined;
+  if (!(choices as readonly string[]).includes(value)) {
+    throw new UsageError(`${flag} must be one of: ${choices.join(', ')}`);
+  }
+  return value as T;
+};
+
+const getSinglePositional = (positionals: string[], what: string): string => {
+  const [value] = positionals;
+  if (value === undefined || positionals.length > 1) {
+    throw new UsageError(`Expected exactly one ${what}`);
+  }
+  return value;
+};
+
+async function runRecommend(args: string[]): Promise<void> {
+  const { values, positionals } = parseArgs({
+    args,
+    options: {
+      accuracy: { type: 'string' },
+      cost: { type: 'string' },
+      speed: { type: 'string' },
+      'token-limit': { type: 'string' },
+      reasoning: { type: 'boolean' },
+      tools: { type: 'boolean' },
+      strategy: { type: 'string' },
+      config: { type: 'string' },
+      json: { type: 'boolean', default: false },
+    },
+    allowPositionals: true,
+  });
+
+  const prompt = getSinglePositional(positionals, 'prompt');
+  const strategy = parseChoice<SelectionStrategy>(
+    values.strategy,
+    STRATEGIES,
+    '--strategy'
+  );
+  const overrides = EvaluationDataset.validateProperties(
+    {
+      ...(values.accuracy !== undefined && {
+        accuracy: parseNumber(values.accuracy, '--accuracy'),
+      }),
+      ...(values.cost !== undefined && {
+        cost: parseNumber(values.cost, '--cost'),
+      }),
+      ...(values.speed !== undefined && {
+        speed: parseNumber(values.speed, '--speed'),
+      }),
+      ...(values['token-limit'] !== undefined && {
+        tokenLimit: parseNumber(values['token-limit'], '--token-limit'),
+      }),
+      ...(values.reasoning !== undefined && { reasoning: values.reasoning }),
+      ...(values.tools !== undefined && { requiresTools: values.tools }),
+    },
+    'options'
+  );
+
+  const router = await createRouterFromConfig(values.config, {
+    ...(strategy && { overrides: { selectionStrategy: strategy } }),
+  });
+  try {
+    await router.initialize();
+    const selection = await router.getModelRecommendation(prompt, {
+      ...DEFAULT_CLI_PROPERTIES,
+      ...overrides,
+    });
+
+    if (values.json) {
+      writeJson(selection);
+    } else {
+      write(formatSelection(selection));
+    }
+  } finally {
+    await router.shutdown();
+  }
+}
+
+function formatSelection(selection: ModelSelection): string {
+  const lines = [
+    `Model:       ${selection.model}`,
+    `Category:    ${selection.category.type} (${percent(selection.category.confidence)} confidence)`,
+    `Decision:    ${selection.reasonCode} (${percent(selection.confidence)} confidence)`,
+    `Reason:      ${selection.reason}`,
+  ];
+  if (selection.appliedRules.length > 0) {
+    lines.push(`Rules:       ${selection.appliedRules.join(', ')}`);
+  }
+
+  if (selection.alternatives.length > 0) {
+    lines.push('', 'Alternatives:');
+    for (const alternative of selection.alternatives) {
+      lines.push(
+        `  ${alternative.model.padEnd(40)} ${percent(alternative.score).padStart(6)}`
+      );
+    }
+  }
+
+  if (selection.scores.length > 0) {
+    lines.push(
+      '',
+      `Scores:     ${'model'.padEnd(40)}${['score', 'accur', 'cost', 'speed', 'tokens', 'reason'].map(label => label.padStart(8)).join('')}  adjustments`
+    );
+    for (const score of selection.scores) {
+      const { breakdown } = score;
+      const adjustments = score.adjustments
+        .map(
+          adjustment =>
+            `${adjustment.source} ${adjustment.value >= 0 ? '+' : ''}${adjustment.value.toFixed(2)}`
+        )
+        .join(', ');
+      lines.push(
+        `            ${score.model.id.padEnd(40)}${[
+          score.score,
+          breakdown.accuracy,
+          breakdown.cost,
+          breakdown.speed,
+          breakdown.tokenLimit,
+          breakdown.reasoning,
+        ]
+          .map(value => value.toFixed(2).padStart(8))
+          .join('')}  ${adjustments}`.trimEnd()
+      );
+    }
+  }
+
+  return lines.join('\n');
+}
+
+async function runClassify(args: string[]): Promise<void> {
+  const { values, positionals } = parseArgs({
+    args,
+    options: { json: { type: 'boolean', default: false } },
+    allowPositionals: true,
+  });
+
+  const explanation = await PromptClassifier.explainPrompt(
+    getSinglePositional(positionals, 'prompt')
+  );
+
+  if (values.json) {
+    writeJson(explanation);
+  } else {
+    write(formatClassification(explanation));
+  }
+}
+
+function formatClassification(explanation: ClassificationExplanation): string {
+  const { result, semantic, keyword } = explanation;
+  const lines = [
+    `Category:    ${result.type} (${percent(result.confidence)} confidence)`,
+    '',
+  ];
+
+  if (semantic) {
+    lines.push(
+      `Semantic:    ${semantic.category.type} (${percent(semantic.category.confidence)})`
+    );
+    const similarities = Object.entries(semantic.similarities).sort(
+      (a, b) => b[1] - a[1]
+    );
+    for (const [category, similarity] of similarities) {
+      lines.push(
+        `  ${category.padEnd(16)}${similarity.toFixed(3).padStart(8)}`
+      );
+    }
+  } else {
+    lines.push(`Semantic:    unavailable (${explanation.semanticError})`);
+  }
+
+  lines.push(
+    '',
+    `Keyword:     ${keyword.category.type} (${percent(keyword.category.confidence)})`
+  );
+  const scores = Object.entries(keyword.scores).sort((a, b) => b[1] - a[1]);
+  for (const [category, score] of scores) {
+    lines.push(`  ${category.padEnd(16)}${String(score).padStart(8)}`);
+  }
+
+  return lines.join('\n');
+}
+
+async function runModels(args: string[]): Promise<void> {
+  const [subcommand, ...rest] = args;
+  if (subcommand !== 'list') {
+    throw new UsageError('Expected "models list"');
+  }
+
+  const { values, positionals } = parseArgs({
+    args: rest,
+    options: {
+      category: { type: 'string' },
+      'min-accuracy': { type: 'string' },
+      'min-speed': { type: 'string' },
+      'max-cost': { type: 'string' },
+      limit: { type: 'string' },
+      catalog: { type: 'string' },
+      config: { type: 'string' },
+      json: { type: 'boolean', default: false },
+    },
+  });
+  if (positionals.length > 0) {
+    throw new UsageError('models list takes no positional arguments');
+  }
+
+  const category =
+    parseChoice(values.category, Object.values(PromptType), '--category') ??
+    PromptType.General;
+  const minAccuracy = parseChoice<ModelCharacteristics['accuracyTier']>(
+    values['min-accuracy'],
+    ACCURACY_TIERS,
+    '--min-accuracy'
+  );
+  const minSpeed = parseChoice<ModelCharacteristics['speedTier']>(
+    values['min-speed'],
+    SPEED_TIERS,
+    '--min-speed'
+  );
+  const maxCost = parseNumber(values['max-cost'], '--max-cost');
+  const limit = parseNumber(values.limit, '--limit') ?? 20;
+
+  const transport = values.catalog
+    ? new OpenAICompatibleTransport('', {
+        fetch: EvaluationDataset.createCatalogFetch(
+          await EvaluationDataset.loadCatalog(values.catalog)
+        ),
+      })
+    : await createTransport(values.config);
+
+  const models = await new InMemoryModelCache(
+    transport
+  ).getTopModelsForCategory(category, limit, {
+    ...(minAccuracy && { minAccuracy }),
+    ...(minSpeed && { minSpeed }),
+    ...(maxCost !== undefined && { maxCost: maxCost / 1_000_000 }),
+  });
+
+  if (values.json) {
+    writeJson(models);
+  } else {
+    write(formatModels(models, category));
+  }
+}
+
+function formatModels(models: ModelProfile[], category: PromptType): string {
+  if (models.length === 0) return 'No models match.';
+
+  const width = Math.max(...models.map(model => model.id.length)) + 2;
+  const lines = [
+    `${'Model'.padEnd(width)}${category.padStart(14)}  ${'Accuracy'.padEnd(10)}${'Speed'.padEnd(11)}${'Cost'.padEnd(10)}${'Context'.padStart(9)}${'$/M in'.padStart(9)}${'$/M out'.padStart(9)}`,
+  ];
+  for (const model of models) {
+    const { characteristics } = model;
+    lines.push(
+      `${model.id.padEnd(width)}${percent(model.capabilities[category]).padStart(14)}  ${characteristics.accuracyTier.padEnd(10)}${characteristics.speedTier.padEnd(11)}${characteristics.costTier.padEnd(10)}${String(model.contextLength).padStart(9)}${perMillion(model.promptCostPerToken).padStart(9)}${perMillion(model.completionCostPerToken).padStart(9)}`
+    );
+  }
+  return lines.join('\n');
+}
+
+async function runCatalog(args: string[]): Promise<void> {
+  const [subcommand, ...rest] = args;
+  if (subcommand !== 'refresh' && subcommand !== 'export') {
+    throw new UsageError('Expected "catalog refresh" or "catalog export"');
+  }
+
+  const { values, positionals } = parseArgs({
+    args: rest,
+    options: {
+      config: { type: 'string' },
+      json: { type: 'boolean', default: false },
+      ...(subcommand === 'export' && { output: { type: 'string' } }),
+    },
+  });
+  if (positionals.length > 0) {
+    throw new UsageError(`catalog ${subcommand} takes no positional arguments`);
+  }
+
+  const transport = await createTransport(values.config);
+
+  if (subcommand === 'export') {
+    const snapshot = JSON.stringify(
+      { data: await transport.listModels() },
+      null,
+      2
+    );
+    const output = values.output;
+    if (typeof output === 'string') {
+      await writeFile(output, `${snapshot}\n`);
+      process.stderr.write(`Catalog snapshot written to ${output}\n`);
+    } else {
+      write(snapshot);
+    }
+    return;
+  }
+
+  const startTime = Date.now();
+  const profiles = await new InMemoryModelCache(transport).getModelProfiles();
+  const summary = {
+    baseUrl: transport.getBaseUrl(),
+    models: profiles.length,
+    providers: new Set(
+      profiles.map(profile => profile.characteristics.provider)
+    ).size,
+    reasoningModels: profiles.filter(
+      profile => profile.characteristics.isReasoning
+    ).length,
+    freeModels: profiles.filter(
+      profile => profile.characteristics.costTier === 'free'
+    ).length,
+    durationMs: Date.now() - startTime,
+  };
+
+  if (values.json) {
+    writeJson(summary);
+  } else {
+    write(
+      `Fetched ${summary.models} models from ${summary.providers} providers at ${summary.baseUrl} in ${summary.durationMs}ms (${summary.reasoningModels} reasoning, ${summary.freeModels} free)`
+    );
+  }
+}
+
+/**
+ * Catalog transport from the router config (file and environment)
+ */
+async function createTransport(
+  configPath: string | undefined
+): Promise<OpenAICompatibleTransport> {
+  const { config } = await ConfigLoader.load(configPath);
+  return new OpenAICompatibleTransport(
+    config.OPEN_ROUTER_API_KEY,
+    config.transport
+  );
+}
+
+async function runEvaluate(args: string[]): Promise<void> {
+  const { values, positionals } = parseArgs({
+    args,
+    options: {
+      catalog: { type: 'string' },
+      baseline: { type: 'string' },
+      properties: { type: 'string' },
+      json: { type: 'boolean', default: false },
+    },
+    allowPositionals: true,
+  });
+
+  const dataset = getSinglePositional(positionals, 'dataset file');
+  if (!values.catalog) {
+    throw new UsageError('evaluate requires --catalog <file>');
+  }
+
+  let properties: unknown;
+  if (values.properties) {
+    try {
+      properties = JSON.parse(values.properties);
+    } catch {
+      throw new UsageError('--properties must be a JSON object');
+    }
+  }
+
+  const options: EvaluationOptions = {
+    catalog: values.catalog,
+    ...(values.baseline && { baselineModel: values.baseline }),
+    ...(properties !== undefined && {
+      properties: EvaluationDataset.validateProperties(
+        properties,
+        '--properties'
+      ),
+    }),
+  };
+
+  const report = await RoutingEvaluator.evaluate(dataset, options);
+  if (values.json) {
+    writeJson(report);
+  } else {
+    write(formatReport(report, values.baseline));
+  }
+}
+
+function formatReport(
+  report: EvaluationReport,
+  baselineModel: string | undefined
+): string {
+  const { classification, selection, cost } = report;
+  const categories = Object.values(PromptType);
+  const width = Math.max(...categories.map(category => category.length)) + 2;
+  const lines = [
+    `Cases: ${report.cases} (${report.errors} failed) in ${report.durationMs}ms`,
+    '',
+    `Classification accuracy: ${percent(classification.accuracy)} (${classification.correct}/${classification.labeled})`,
+    `${'Category'.padEnd(width)}${'Precision'.padStart(10)}${'Recall'.padStart(8)}${'F1'.padStart(8)}${'Support'.padStart(9)}`,
+  ];
+
+  for (const category of categories) {
+    const metrics = classification.perCategory[category];
+    lines.push(
+      `${category.padEnd(width)}${percent(metrics.precision).padStart(10)}${percent(metrics.recall).padStart(8)}${percent(metrics.f1).padStart(8)}${String(metrics.support).padStart(9)}`
+    );
+  }
+
+  lines.push(
+    '',
+    'Confusion matrix (rows: expected, columns: predicted)',
+    `${''.padEnd(width)}${categories.map(category => category.slice(0, 6).padStart(8)).join('')}`
+  );
+  for (const expected of categories) {
+    const row = classification.confusionMatrix[expected];
+    lines.push(
+      `${expected.padEnd(width)}${categories.map(predicted => String(row[predicted]).padStart(8)).join('')}`
+    );
+  }
+
+  lines.push(
+    '',
+    `Selection agreement: ${percent(selection.agreement)} (${selection.agreed}/${selection.labeled})`,
+    `Estimated cost: $${cost.estimatedUsd.toFixed(4)}${
+      cost.baselineUsd !== undefined && cost.savings !== undefined
+        ? ` vs $${cost.baselineUsd.toFixed(4)} on ${baselineModel} (${percent(cost.savings)} savings)`
+        : ''
+    }`
+  );
+
+  const failed = report.results.filter(result => result.error !== undefined);
+  if (failed.length > 0) {
+    lines.push('', 'Errors:');
+    for (const result of failed) {
+      lines.push(`  ${result.id}: ${result.error}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+async function runServe(args: string[]): Promise<void> {
+  const { values, positionals } = parseArgs({
+    args,
+    options: {
+      port: { type: 'string' },
+      host: { type: 'string' },
+      'api-key': { type: 'string', multiple: true },
+      config: { type: 'string' },
+    },
+  });
+  if (positionals.length > 0) {
+    throw new UsageError('serve takes no positional arguments');
+  }
+
+  const port = parseNumber(values.port, '--port');
+  if (port !== undefined && (!Number.isInteger(port) || port < 0)) {
+    throw new UsageError('--port must be a non-negative integer');
+  }
+
+  const router = await createRouterFromConfig(values.config);
+  try {
+    await router.initialize();
+    const gateway = new RoutingGateway(router, {
+      ...(port !== undefined && { port }),
+      ...(values.host && { host: values.host }),
+      ...(values['api-key'] && { apiKeys: values['api-key'] }),
+    });
+    const address = await gateway.listen();
+    write(`Gateway listening on http://${address.address}:${address.port}/v1`);
+
+    // Serve until interrupted
+    await new Promise<void>(resolve => {
+      process.once('SIGINT', resolve);
+      process.once('SIGTERM', resolve);
+    });
+    await gateway.close();
+  } finally {
+    await router.shutdown();
+  }
+}
+
+async function runMcp(args: string[]): Promise<void> {
+  const { values, positionals } = parseArgs({
+    args,
+    options: { config: { type: 'string' } },
+  });
+  if (positionals.length > 0) {
+    throw new UsageError('mcp takes no positional arguments');
+  }
+
+  // stdout carries the protocol from the start, so --verbose can't apply
+  Logger.setEnabled(false);
+
+  const router = await createRouterFromConfig(values.config);
+  try {
+    await router.initialize();
+    await new RoutingMcpServer(router).serve();
+  } finally {
+    await router.shutdown();
+  }
+}
+
+const COMMANDS: Record<string, (args: string[]) => Promise<void>> = {
+  recommend: runRecommend,
+  classify: runClassify,
+  models: runModels,
+  catalog: runCatalog,
+  evaluate: runEvaluate,
+  serve: runServe,
+  mcp: runMcp,
+};
+
+async function main(argv: string[]): Promise<number> {
+  const [command, ...args] = argv;
+
+  if (!command || command === '-h' || command === '--help') {
+    write(USAGE);
+    return command ? 0 : 2;
+  }
+
+  const run = COMMANDS[command];
+  if (!run) {
+    process.stderr.write(`Unknown command: ${command}\n\n${USAGE}`);
+    return 2;
+  }
+  if (args.includes('-h') || args.includes('--help')) {
+    write(USAGE);
+    return 0;
+  }
+
+  // Logs go to stdout too; keep them out of the command output unless asked
+  const verbose = args.includes('--verbose');
+  Logger.setEnabled(verbose);
+
+  try {
+    await run(args.filter(arg => arg !== '--verbose'));
+    return 0;
+  } catch (error) {
+    if (error instanceof UsageError || isParseArgsError(error)) {
+      process.stderr.write(`${error.message}\n\n${USAGE}`);
+      return 2;
+    }
+
+    const code = error instanceof RouterError ? ` [${error.code}]` : '';
+    process.stderr.write(
+      `Error${code}: ${error instanceof Error ? error.message : 'unknown error'}\n`
+    );
+    return 1;
+  }
+}
+
+void main(process.argv.slice(2)).then(code => {
+  process.exitCode = code;
+});
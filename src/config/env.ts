@@ -1,41 +1,55 @@
 import { z } from 'zod';
 import { Logger } from '../utils/logger.js';
+import { formatZodIssues } from '../utils/zod.js';
+import { RouterError } from '../errors.js';
 
 const logger = new Logger('Config:Env');
 
-// Schema for environment variables
+// Unset and empty variables are both treated as missing
+const optionalVar = <T extends z.ZodType>(schema: T) =>
+  z.preprocess(value => (value === '' ? undefined : value), schema.optional());
+
+// Schema for environment variables (all optional - a config file may supply them)
 const envSchema = z.object({
-  OPEN_ROUTER_API_KEY: z.string(),
-  MODEL_SELECTOR_MODEL: z.string().default('openai/gpt-oss-20b:free'),
+  OPEN_ROUTER_API_KEY: optionalVar(z.string()),
+  MODEL_SELECTOR_MODEL: optionalVar(z.string()),
+  ROUTER_SELECTION_STRATEGY: optionalVar(
+    z.enum(['llm', 'local', 'hybrid', 'bandit'])
+  ),
+  ROUTER_BASE_URL: optionalVar(z.url()), // transport.baseUrl
+  ROUTER_CONFIG_PATH: optionalVar(z.string()), // Default config file for createRouterFromConfig
+  SUPABASE_ANALYTICS_ENDPOINT: optionalVar(z.url()), // analytics.endpoint
   NODE_ENV: z.string().default('development'),
-  SUPABASE_ANALYTICS_ENDPOINT: z.string(),
 });
 
-// Function to validate environment variables
-const validateEnv = () => {
-  try {
-    logger.info('Validating environment variables');
-    const env = {
-      OPEN_ROUTER_API_KEY: process.env.OPEN_ROUTER_API_KEY,
-      MODEL_SELECTOR_MODEL: process.env.MODEL_SELECTOR_MODEL,
-      NODE_ENV: process.env.NODE_ENV,
-      SUPABASE_ANALYTICS_ENDPOINT: process.env.SUPABASE_ANALYTICS_ENDPOINT,
-    };
-    const parsed = envSchema.parse(env);
-    logger.info('Environment variables validated successfully');
-    return parsed;
-  } catch (error) {
-    if (error instanceof z.ZodError) {
-      const missingVars = error.issues.map(err => err.path.join('.'));
-      logger.error('Invalid environment variables', { error: { missingVars } });
-      throw new Error(
-        `❌ Invalid environment variables: ${missingVars.join(
-          ', '
-        )}. Please check your .env file`
-      );
-    }
-    throw error;
+export type Env = z.infer<typeof envSchema>;
+
+/**
+ * Validate environment variables. Called on demand (never at import time)
+ * so importing the library doesn't require any variables to be set.
+ */
+export const loadEnv = (
+  source: Record<string, string | undefined> = process.env
+): Env => {
+  const result = envSchema.safeParse({
+    OPEN_ROUTER_API_KEY: source.OPEN_ROUTER_API_KEY,
+    MODEL_SELECTOR_MODEL: source.MODEL_SELECTOR_MODEL,
+    ROUTER_SELECTION_STRATEGY: source.ROUTER_SELECTION_STRATEGY,
+    ROUTER_BASE_URL: source.ROUTER_BASE_URL,
+    ROUTER_CONFIG_PATH: source.ROUTER_CONFIG_PATH,
+    SUPABASE_ANALYTICS_ENDPOINT: source.SUPABASE_ANALYTICS_ENDPOINT,
+    NODE_ENV: source.NODE_ENV,
+  });
+
+  if (!result.success) {
+    const issues = formatZodIssues(result.error);
+    logger.error('Invalid environment variables', { error: { issues } });
+    throw new RouterError(
+      `❌ Invalid environment variables: ${issues}. Please check your .env file`,
+      'INVALID_CONFIG',
+      { cause: result.error, context: { source: 'environment' } }
+    );
   }
-};
 
-export const env = validateEnv();
+  return result.data;
+};
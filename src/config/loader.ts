@@ -0,0 +1,234 @@
+import { existsSync, watch, type FSWatcher } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import { basename, dirname, extname, resolve } from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import { Logger } from '../utils/logger.js';
+import { formatZodIssues } from '../utils/zod.js';
+import { AutoPromptRouter } from '../router.js';
+import { RouterError } from '../errors.js';
+import { loadEnv, type Env } from './env.js';
+import { routerConfigSchema } from './schema.js';
+import type { ConfigLoadOptions, RouterConfig } from '../types.js';
+
+const logger = new Logger('Config:Loader');
+
+/**
+ * Config file discovery and reload settings
+ */
+const CONFIG_LOADER_CONFIG = {
+  // Looked up in the working directory when no path is given
+  DEFAULT_FILES: [
+    'auto-router.config.json',
+    'auto-router.config.yaml',
+    'auto-router.config.yml',
+  ],
+
+  // Editors often write a file in several steps; wait for them to settle
+  RELOAD_DEBOUNCE_MS: 100,
+} as const;
+
+type ConfigLayer = Record<string, unknown>;
+
+/**
+ * Loads RouterConfig from a JSON/YAML file merged with environment variables
+ * (precedence: file < environment < overrides)
+ */
+export class ConfigLoader {
+  /**
+   * Resolve, read, merge and validate the configuration
+   */
+  static async load(
+    path?: string,
+    options: ConfigLoadOptions = {}
+  ): Promise<{ config: RouterConfig; path: string | undefined }> {
+    const env = loadEnv(options.env ?? process.env);
+    const configPath = this.resolvePath(path, env);
+
+    const fileConfig = configPath ? await this.readConfigFile(configPath) : {};
+    const overrides = (options.overrides ?? {}) as ConfigLayer;
+    const hasAnalytics = !!fileConfig.analytics || !!overrides.analytics;
+
+    const config = this.validate(
+      this.merge(fileConfig, this.fromEnv(env, hasAnalytics), overrides),
+      configPath ?? 'environment'
+    );
+
+    logger.info(
+      `Loaded router config${configPath ? ` from ${configPath}` : ' from environment'}`
+    );
+    return { config, path: configPath };
+  }
+
+  /**
+   * Validate a raw config object, reporting every issue with its path
+   */
+  static validate(raw: unknown, source: string = 'config'): RouterConfig {
+    const result = routerConfigSchema.safeParse(raw);
+    if (!result.success) {
+      throw new RouterError(
+        `Invalid router config (${source}): ${formatZodIssues(result.error)}`,
+        'INVALID_CONFIG',
+        { cause: result.error, context: { source } }
+      );
+    }
+
+    return result.data as RouterConfig;
+  }
+
+  /**
+   * Watch a config file and call `onChange` (debounced) when it is modified.
+   * The parent directory is watched so editors that replace the file work too.
+   */
+  static watch(path: string, onChange: () => void): FSWatcher {
+    const fileName = basename(path);
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const watcher = watch(dirname(path), (_event, changed) => {
+      if (changed !== null && changed.toString() !== fileName) return;
+
+      clearTimeout(timer);
+      timer = setTimeout(onChange, CONFIG_LOADER_CONFIG.RELOAD_DEBOUNCE_MS);
+    });
+
+    // Watching must never keep the process alive on its own
+    watcher.unref();
+    watcher.on('close', () => clearTimeout(timer));
+    return watcher;
+  }
+
+  private static resolvePath(
+    path: string | undefined,
+    env: Env
+  ): string | undefined {
+    const explicit = path ?? env.ROUTER_CONFIG_PATH;
+    if (explicit) {
+      const resolved = resolve(explicit);
+      if (!existsSync(resolved)) {
+        throw new RouterError(
+          `Config file not found: ${resolved}`,
+          'INVALID_CONFIG',
+          { context: { source: resolved } }
+        );
+      }
+      return resolved;
+    }
+
+    return CONFIG_LOADER_CONFIG.DEFAULT_FILES.map(file => resolve(file)).find(
+      file => existsSync(file)
+    );
+  }
+
+  private static async readConfigFile(path: string): Promise<ConfigLayer> {
+    const content = await readFile(path, 'utf8');
+    const extension = extname(path).toLowerCase();
+
+    let parsed: unknown;
+    try {
+      if (extension === '.json') {
+        parsed = JSON.parse(content);
+      } else if (extension === '.yaml' || extension === '.yml') {
+        parsed = parseYaml(content);
+      } else {
+        throw new Error(
+          `unsupported extension "${extension}" (use .json, .yaml or .yml)`
+        );
+      }
+    } catch (error) {
+      throw new RouterError(
+        `Failed to parse config file ${path}: ${error instanceof Error ? error.message : 'parse error'}`,
+        'INVALID_CONFIG',
+        { cause: error, context: { source: path } }
+      );
+    }
+
+    if (!this.isPlainObject(parsed)) {
+      throw new RouterError(
+        `Config file ${path} must contain an object`,
+        'INVALID_CONFIG',
+        { context: { source: path } }
+      );
+    }
+    return parsed;
+  }
+
+  private static fromEnv(env: Env, hasAnalytics: boolean): ConfigLayer {
+    return {
+      ...(env.OPEN_ROUTER_API_KEY !== undefined && {
+        OPEN_ROUTER_API_KEY: env.OPEN_ROUTER_API_KEY,
+      }),
+      ...(env.MODEL_SELECTOR_MODEL !== undefined && {
+        selectorModel: env.MODEL_SELECTOR_MODEL,
+      }),
+      ...(env.ROUTER_SELECTION_STRATEGY !== undefined && {
+        selectionStrategy: env.ROUTER_SELECTION_STRATEGY,
+      }),
+      ...(env.ROUTER_BASE_URL !== undefined && {
+        transport: { baseUrl: env.ROUTER_BASE_URL },
+      }),
+      // Only meaningful when analytics is configured somewhere else
+      ...(env.SUPABASE_ANALYTICS_ENDPOINT !== undefined &&
+        hasAnalytics && {
+          analytics: { endpoint: env.SUPABASE_ANALYTICS_ENDPOINT },
+        }),
+    };
+  }
+
+  /**
+   * Deep-merge plain objects; arrays and other values are replaced
+   */
+  private static merge(...layers: ConfigLayer[]): ConfigLayer {
+    const result: ConfigLayer = {};
+    for (const layer of layers) {
+      for (const [key, value] of Object.entries(layer)) {
+        if (value === undefined) continue;
+
+        const current = result[key];
+        result[key] =
+          this.isPlainObject(current) && this.isPlainObject(value)
+            ? this.merge(current, value)
+            : value;
+      }
+    }
+    return result;
+  }
+
+  private static isPlainObject(value: unknown): value is ConfigLayer {
+    return (
+      typeof value === 'object' &&
+      value !== null &&
+      !Array.isArray(value) &&
+      Object.getPrototypeOf(value) === Object.prototype
+    );
+  }
+}
+
+/**
+ * Create a router from a JSON/YAML config file merged with environment
+ * variables. With `watch: true`, edits to the file are validated and applied
+ * to the running router; invalid edits are logged and ignored.
+ */
+export const createRouterFromConfig = async (
+  path?: string,
+  options: ConfigLoadOptions = {}
+): Promise<AutoPromptRouter> => {
+  const { config, path: configPath } = await ConfigLoader.load(path, options);
+  const router = new AutoPromptRouter(config);
+
+  if (options.watch && configPath) {
+    const watcher = ConfigLoader.watch(configPath, () => {
+      ConfigLoader.load(configPath, options)
+        .then(({ config: nextConfig }) => router.updateConfig(nextConfig))
+        .then(() => logger.info(`Reloaded router config from ${configPath}`))
+        .catch(error =>
+          logger.error(
+            'Config reload failed; keeping the previous config',
+            error
+          )
+        );
+    });
+    router.onShutdown(() => watcher.close());
+    logger.info(`Watching ${configPath} for changes`);
+  }
+
+  return router;
+};
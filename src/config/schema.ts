@@ -0,0 +1,122 @@
+import { z } from 'zod';
+import {
+  routingConstraintsSchema,
+  routingRulesSchema,
+} from '../lib/rules-engine.js';
+
+const transportConfigSchema = z
+  .object({
+    baseUrl: z.url('baseUrl must be a valid URL').optional(),
+    headers: z.record(z.string(), z.string()).optional(),
+    fetch: z
+      .custom<
+        typeof fetch
+      >(value => typeof value === 'function', 'fetch must be a function')
+      .optional(),
+    timeoutMs: z.number().int().positive().optional(),
+    retry: z
+      .object({
+        maxRetries: z.number().int().min(0).optional(),
+        baseDelayMs: z.number().int().min(0).optional(),
+        maxDelayMs: z.number().int().min(0).optional(),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict();
+
+const analyticsConfigSchema = z
+  .object({
+    enabled: z.boolean(),
+    collectPromptMetrics: z.boolean(),
+    collectModelPerformance: z.boolean(),
+    collectSemanticFeatures: z.boolean(),
+    collectSystemInfo: z.boolean(),
+    batchSize: z.number().int().positive().optional(),
+    batchIntervalMs: z.number().int().positive().optional(),
+    debugMode: z.boolean().optional(),
+    endpoint: z.url('endpoint must be a valid URL').optional(),
+  })
+  .strict();
+
+/**
+ * Schema for a complete RouterConfig (file, environment and overrides merged)
+ */
+export const routerConfigSchema = z
+  .object({
+    OPEN_ROUTER_API_KEY: z.string({
+      error: issue =>
+        issue.input === undefined
+          ? 'OPEN_ROUTER_API_KEY is required (config file or environment)'
+          : 'OPEN_ROUTER_API_KEY must be a string',
+    }),
+    constraints: routingConstraintsSchema.optional(),
+    rules: routingRulesSchema.optional(),
+    selectorModel: z.string().min(1).optional(),
+    selectionStrategy: z.enum(['llm', 'local', 'hybrid', 'bandit']).optional(),
+    hybridMargin: z.number().min(0).max(1).optional(),
+    selectorTimeoutMs: z.number().int().positive().optional(),
+    selectorFallback: z.boolean().optional(),
+    maxScores: z.number().int().min(0).optional(),
+    maxAlternatives: z.number().int().min(0).optional(),
+    enableLogging: z.boolean().optional(),
+    analytics: analyticsConfigSchema.optional(),
+    transport: transportConfigSchema.optional(),
+    selectorTransport: transportConfigSchema.optional(),
+    latency: z
+      .object({
+        enabled: z.boolean().optional(),
+        windowSize: z.number().int().positive().optional(),
+        minSamples: z.number().int().positive().optional(),
+      })
+      .strict()
+      .optional(),
+    feedback: z
+      .object({
+        enabled: z.boolean().optional(),
+        persistPath: z.string().min(1).optional(),
+        halfLifeDays: z.number().positive().optional(),
+        priorStrength: z.number().positive().optional(),
+      })
+      .strict()
+      .optional(),
+    bandit: z
+      .object({
+        algorithm: z.enum(['thompson', 'ucb']).optional(),
+        explorationBudget: z.number().min(0).max(1).optional(),
+        maxScoreGap: z.number().min(0).max(1).optional(),
+        maxCandidates: z.number().int().positive().optional(),
+        seed: z.number().int().optional(),
+        rewardWeights: z
+          .object({
+            quality: z.number().min(0).optional(),
+            cost: z.number().min(0).optional(),
+            latency: z.number().min(0).optional(),
+          })
+          .strict()
+          .optional(),
+      })
+      .strict()
+      .optional(),
+    recommendationCache: z
+      .object({
+        enabled: z.boolean().optional(),
+        similarityThreshold: z.number().min(0).max(1).optional(),
+        ttlMs: z.number().int().positive().optional(),
+        maxEntries: z.number().int().positive().optional(),
+        propertySteps: z.number().int().positive().optional(),
+      })
+      .strict()
+      .optional(),
+    health: z
+      .object({
+        enabled: z.boolean().optional(),
+        failureThreshold: z.number().int().positive().optional(),
+        providerFailureThreshold: z.number().int().positive().optional(),
+        cooldownMs: z.number().int().positive().optional(),
+        maxCooldownMs: z.number().int().positive().optional(),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict();
@@ -0,0 +1,134 @@
+/**
+ * Stable, machine-readable error codes (safe to branch on across versions)
+ */
+export type RouterErrorCode =
+  | 'ROUTER_NOT_INITIALIZED'
+  | 'NO_CANDIDATE_MODELS'
+  | 'CATALOG_FETCH_FAILED'
+  | 'SELECTOR_RESPONSE_INVALID'
+  | 'CLASSIFICATION_FAILED'
+  | 'TRANSPORT_ERROR'
+  | 'REQUEST_TIMEOUT'
+  | 'REQUEST_ABORTED'
+  | 'ALL_CANDIDATES_FAILED'
+  | 'INVALID_CONFIG'
+  | 'INVALID_INPUT'
+  | 'RECOMMENDATION_FAILED';
+
+/**
+ * Filter stage that removed the last candidate model
+ */
+export type CandidateFilterStage =
+  | 'constraints' // RouterConfig / request RoutingConstraints
+  | 'reasoning' // properties.reasoning
+  | 'context_window' // Prompt + tokenLimit vs contextLength / maxCompletionTokens
+  | 'modality' // Attachments vs input modalities
+  | 'features' // requiresTools / requiresJsonSchema / requiredParameters
+  | 'latency' // properties.maxLatencyMs vs observed p95 latency
+  | 'rules' // Routing rule exclusions and constraints
+  | 'category'; // Minimum category capability
+
+export interface RouterErrorOptions {
+  cause?: unknown;
+  context?: Record<string, unknown>;
+}
+
+/**
+ * Base class of every error the router throws on purpose
+ */
+export class RouterError extends Error {
+  readonly code: RouterErrorCode;
+  readonly context: Record<string, unknown>;
+
+  constructor(
+    message: string,
+    code: RouterErrorCode,
+    options: RouterErrorOptions = {}
+  ) {
+    super(
+      message,
+      options.cause !== undefined ? { cause: options.cause } : undefined
+    );
+    this.name = 'RouterError';
+    this.code = code;
+    this.context = options.context ?? {};
+  }
+}
+
+/**
+ * A recommendation was requested before initialize() completed
+ */
+export class RouterNotInitializedError extends RouterError {
+  constructor() {
+    super(
+      'Router not initialized. Call initialize() first.',
+      'ROUTER_NOT_INITIALIZED'
+    );
+    this.name = 'RouterNotInitializedError';
+  }
+}
+
+/**
+ * A filter stage left no model to choose from
+ */
+export class NoCandidateModelsError extends RouterError {
+  readonly stage: CandidateFilterStage;
+
+  constructor(
+    stage: CandidateFilterStage,
+    message: string,
+    context: Record<string, unknown> = {}
+  ) {
+    super(message, 'NO_CANDIDATE_MODELS', { context: { stage, ...context } });
+    this.name = 'NoCandidateModelsError';
+    this.stage = stage;
+  }
+}
+
+/**
+ * The model catalog could not be fetched or parsed
+ */
+export class CatalogFetchError extends RouterError {
+  constructor(message: string, options: RouterErrorOptions = {}) {
+    super(message, 'CATALOG_FETCH_FAILED', options);
+    this.name = 'CatalogFetchError';
+  }
+}
+
+/**
+ * The selector LLM failed or kept returning invalid answers
+ * (only thrown when `selectorFallback` is disabled)
+ */
+export class SelectorResponseError extends RouterError {
+  constructor(message: string, options: RouterErrorOptions = {}) {
+    super(message, 'SELECTOR_RESPONSE_INVALID', options);
+    this.name = 'SelectorResponseError';
+  }
+}
+
+/**
+ * The caller's AbortSignal fired before the call completed
+ */
+export class RequestAbortedError extends RouterError {
+  constructor(reason?: unknown) {
+    super('Request aborted', 'REQUEST_ABORTED', { cause: reason });
+    this.name = 'RequestAbortedError';
+  }
+
+  /**
+   * Throw if `signal` has already been aborted
+   */
+  static throwIfAborted(signal: AbortSignal | undefined): void {
+    if (signal?.aborted) throw new RequestAbortedError(signal.reason);
+  }
+}
+
+/**
+ * The prompt could not be classified
+ */
+export class ClassificationError extends RouterError {
+  constructor(message: string, options: RouterErrorOptions = {}) {
+    super(message, 'CLASSIFICATION_FAILED', options);
+    this.name = 'ClassificationError';
+  }
+}
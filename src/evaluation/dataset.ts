@@ -0,0 +1,194 @@
+import { readFile } from 'node:fs/promises';
+import { z } from 'zod';
+import { formatZodIssues } from '../utils/zod.js';
+import { RouterError } from '../errors.js';
+import { PromptType } from '../types.js';
+import type {
+  ChatMessage,
+  EvaluationCase,
+  ModelInfo,
+  PromptProperties,
+} from '../types.js';
+
+const chatMessageSchema = z
+  .object({
+    role: z.enum(['system', 'user', 'assistant', 'tool']),
+    content: z.union([
+      z.string(),
+      z.array(z.looseObject({ type: z.string() })),
+    ]),
+    name: z.string().optional(),
+  })
+  .transform(message => message as ChatMessage);
+
+const promptPropertiesSchema = z
+  .object({
+    accuracy: z.number().min(0).max(1),
+    cost: z.number().min(0).max(1),
+    speed: z.number().min(0).max(1),
+    tokenLimit: z.number().int().positive(),
+    reasoning: z.boolean(),
+    requiresTools: z.boolean(),
+    requiresJsonSchema: z.boolean(),
+    requiredParameters: z.array(z.string()),
+    maxLatencyMs: z.number().positive(),
+  })
+  .partial()
+  .strict();
+
+const evaluationCaseSchema = z
+  .object({
+    id: z.string().min(1).optional(),
+    prompt: z.union([z.string().min(1), z.array(chatMessageSchema).min(1)]),
+    properties: promptPropertiesSchema.optional(),
+    expectedCategory: z.enum(PromptType).optional(),
+    acceptableModels: z.array(z.string().min(1)).optional(),
+  })
+  .strict();
+
+// Accepts a plain array or an OpenRouter `/models` response
+const catalogSnapshotSchema = z.union([
+  z.array(z.looseObject({ id: z.string().min(1) })),
+  z.object({ data: z.array(z.looseObject({ id: z.string().min(1) })) }),
+]);
+
+/**
+ * Loads and validates labeled evaluation datasets and catalog snapshots
+ */
+export class EvaluationDataset {
+  /**
+   * Read a JSONL dataset (one EvaluationCase per line)
+   */
+  static async load(path: string): Promise<EvaluationCase[]> {
+    return this.parse(await this.readText(path), path);
+  }
+
+  /**
+   * Parse JSONL text; blank lines and `#` comments are skipped
+   */
+  static parse(jsonl: string, source: string = 'dataset'): EvaluationCase[] {
+    const cases: EvaluationCase[] = [];
+
+    jsonl.split(/\r?\n/).forEach((line, index) => {
+      const trimmed = line.trim();
+      if (!trimmed || trimmed.startsWith('#')) return;
+
+      let value: unknown;
+      try {
+        value = JSON.parse(trimmed);
+      } catch (error) {
+        throw new RouterError(
+          `Invalid JSON in ${source} line ${index + 1}: ${error instanceof Error ? error.message : 'parse error'}`,
+          'INVALID_INPUT',
+          { cause: error, context: { source, line: index + 1 } }
+        );
+      }
+
+      cases.push(
+        this.validateCase(value, `${source} line ${index + 1}`, {
+          id: `${index + 1}`,
+        })
+      );
+    });
+
+    return cases;
+  }
+
+  /**
+   * Validate in-memory cases, filling in missing IDs with their index
+   */
+  static validate(cases: unknown[]): EvaluationCase[] {
+    return cases.map((value, index) =>
+      this.validateCase(value, `dataset[${index}]`, { id: `${index}` })
+    );
+  }
+
+  /**
+   * Validate default PromptProperties given for every case
+   */
+  static validateProperties(
+    value: unknown,
+    source: string = 'properties'
+  ): Partial<PromptProperties> {
+    const result = promptPropertiesSchema.safeParse(value);
+    if (!result.success) {
+      throw new RouterError(
+        `Invalid ${source}: ${formatZodIssues(result.error)}`,
+        'INVALID_INPUT',
+        { cause: result.error, context: { source } }
+      );
+    }
+    return result.data as Partial<PromptProperties>;
+  }
+
+  /**
+   * Read a catalog snapshot saved from the `/models` endpoint
+   */
+  static async loadCatalog(path: string): Promise<ModelInfo[]> {
+    let value: unknown;
+    try {
+      value = JSON.parse(await this.readText(path));
+    } catch (error) {
+      if (error instanceof RouterError) throw error;
+      throw new RouterError(
+        `Invalid catalog snapshot ${path}: ${error instanceof Error ? error.message : 'parse error'}`,
+        'INVALID_INPUT',
+        { cause: error, context: { source: path } }
+      );
+    }
+
+    const result = catalogSnapshotSchema.safeParse(value);
+    if (!result.success) {
+      throw new RouterError(
+        `Invalid catalog snapshot ${path}: ${formatZodIssues(result.error)}`,
+        'INVALID_INPUT',
+        { cause: result.error, context: { source: path } }
+      );
+    }
+
+    // Missing fields are filled in like any non-OpenRouter catalog
+    const models = Array.isArray(result.data) ? result.data : result.data.data;
+    return models as unknown as ModelInfo[];
+  }
+
+  /**
+   * `fetch` that answers every request with the snapshot, for a transport
+   * whose `/models` endpoint should be replaced by it
+   */
+  static createCatalogFetch(models: ModelInfo[]): typeof fetch {
+    return (async () =>
+      new Response(JSON.stringify({ data: models }), {
+        headers: { 'content-type': 'application/json' },
+      })) as typeof fetch;
+  }
+
+  private static validateCase(
+    value: unknown,
+    location: string,
+    defaults: { id: string }
+  ): EvaluationCase {
+    const result = evaluationCaseSchema.safeParse(value);
+    if (!result.success) {
+      throw new RouterError(
+        `Invalid evaluation case (${location}): ${formatZodIssues(result.error)}`,
+        'INVALID_INPUT',
+        { cause: result.error, context: { location } }
+      );
+    }
+
+    const { id, ...rest } = result.data;
+    return { id: id ?? defaults.id, ...rest } as EvaluationCase;
+  }
+
+  private static async readText(path: string): Promise<string> {
+    try {
+      return await readFile(path, 'utf8');
+    } catch (error) {
+      throw new RouterError(
+        `Cannot read ${path}: ${error instanceof Error ? error.message : 'unknown error'}`,
+        'INVALID_INPUT',
+        { cause: error, context: { source: path } }
+      );
+    }
+  }
+}
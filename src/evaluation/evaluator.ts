@@ -0,0 +1,294 @@
+import { Logger } from '../utils/logger.js';
+import { AutoPromptRouter } from '../router.js';
+import { PromptClassifier } from '../classifier.js';
+import { RouterError } from '../errors.js';
+import { ConstraintFilter } from '../lib/constraints.js';
+import { ConversationAnalyzer } from '../lib/conversation.js';
+import { TokenEstimator } from '../lib/token-estimator.js';
+import { EvaluationDataset } from './dataset.js';
+import { PromptType } from '../types.js';
+import type {
+  CategoryMetrics,
+  ClassificationMetrics,
+  EvaluationCase,
+  EvaluationCaseResult,
+  EvaluationOptions,
+  EvaluationReport,
+  ModelInfo,
+  ModelProfile,
+  PromptInput,
+  PromptProperties,
+} from '../types.js';
+
+const logger = new Logger('Evaluation');
+
+/**
+ * Properties used for cases that don't set their own; reasoning and
+ * non-reasoning models are both candidates unless a case sets `reasoning`
+ */
+const DEFAULT_EVALUATION_PROPERTIES: PromptProperties = {
+  accuracy: 0.5,
+  cost: 0.5,
+  speed: 0.5,
+  tokenLimit: 1000,
+};
+
+/**
+ * Replays labeled prompts through the local selection strategy against a
+ * catalog snapshot. Prompts are classified by keywords only: the semantic
+ * encoder is downloaded on first use, and metrics that depend on whether
+ * that worked couldn't be compared between runs.
+ */
+export class RoutingEvaluator {
+  /**
+   * Evaluate a dataset (cases, or the path of a JSONL file)
+   */
+  static async evaluate(
+    dataset: EvaluationCase[] | string,
+    options: EvaluationOptions
+  ): Promise<EvaluationReport> {
+    const startTime = Date.now();
+    const cases =
+      typeof dataset === 'string'
+        ? await EvaluationDataset.load(dataset)
+        : EvaluationDataset.validate(dataset);
+    const catalog =
+      typeof options.catalog === 'string'
+        ? await EvaluationDataset.loadCatalog(options.catalog)
+        : options.catalog;
+
+    const router = this.createRouter(catalog, options);
+    await router.initialize();
+
+    const profiles = new Map(
+      (await router.getAvailableModels()).map(profile => [profile.id, profile])
+    );
+    const baseline = options.baselineModel
+      ? profiles.get(options.baselineModel)
+      : undefined;
+    if (options.baselineModel && !baseline) {
+      throw new RouterError(
+        `Baseline model ${options.baselineModel} is not in the catalog snapshot`,
+        'INVALID_INPUT',
+        { context: { baselineModel: options.baselineModel } }
+      );
+    }
+
+    logger.info(
+      `Evaluating ${cases.length} cases against ${profiles.size} models`
+    );
+
+    const results: EvaluationCaseResult[] = [];
+    for (const [index, evaluationCase] of cases.entries()) {
+      results.push(
+        await this.evaluateCase(
+          router,
+          evaluationCase,
+          `${index}`,
+          { ...DEFAULT_EVALUATION_PROPERTIES, ...options.properties },
+          profiles,
+          baseline
+        )
+      );
+    }
+    await router.shutdown();
+
+    return this.buildReport(results, cases, Date.now() - startTime, !!baseline);
+  }
+
+  private static createRouter(
+    catalog: ModelInfo[],
+    options: EvaluationOptions
+  ): AutoPromptRouter {
+    // Serve the snapshot in place of the `/models` endpoint
+    return new AutoPromptRouter({
+      OPEN_ROUTER_API_KEY: '',
+      selectionStrategy: 'local',
+      transport: {
+        fetch: EvaluationDataset.createCatalogFetch(catalog),
+        retry: { maxRetries: 0 },
+      },
+      ...(options.constraints && { constraints: options.constraints }),
+      ...(options.rules && { rules: options.rules }),
+    });
+  }
+
+  private static async evaluateCase(
+    router: AutoPromptRouter,
+    evaluationCase: EvaluationCase,
+    fallbackId: string,
+    defaults: PromptProperties,
+    profiles: Map<string, ModelProfile>,
+    baseline: ModelProfile | undefined
+  ): Promise<EvaluationCaseResult> {
+    const properties = { ...defaults, ...evaluationCase.properties };
+    const result: EvaluationCaseResult = {
+      id: evaluationCase.id ?? fallbackId,
+      ...(evaluationCase.expectedCategory && {
+        expectedCategory: evaluationCase.expectedCategory,
+      }),
+    };
+
+    try {
+      const category = PromptClassifier.classifyPromptSync(
+        ConversationAnalyzer.analyze(evaluationCase.prompt).latestUserPrompt
+      );
+      const selection = await router.getModelRecommendation(
+        evaluationCase.prompt,
+        properties,
+        { category: category.type }
+      );
+      const profile = profiles.get(selection.model);
+
+      result.category = selection.category.type;
+      result.model = selection.model;
+      result.reasonCode = selection.reasonCode;
+      if (evaluationCase.acceptableModels) {
+        result.agreed = evaluationCase.acceptableModels.some(glob =>
+          ConstraintFilter.matchesGlob(selection.model, glob)
+        );
+      }
+      if (profile) {
+        result.estimatedUsd = this.estimateCost(
+          profile,
+          evaluationCase.prompt,
+          properties.tokenLimit
+        );
+      }
+    } catch (error) {
+      result.error = error instanceof Error ? error.message : 'Unknown error';
+      logger.warn(`Case ${result.id} failed: ${result.error}`);
+    }
+
+    // The baseline would have served the prompt either way
+    if (baseline) {
+      result.baselineUsd = this.estimateCost(
+        baseline,
+        evaluationCase.prompt,
+        properties.tokenLimit
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * Price of the prompt plus a full `tokenLimit` completion
+   */
+  private static estimateCost(
+    profile: ModelProfile,
+    prompt: PromptInput,
+    completionTokens: number
+  ): number {
+    const promptTokens = TokenEstimator.estimate(
+      ConversationAnalyzer.analyze(prompt).textStats,
+      profile.id
+    );
+    return (
+      promptTokens * profile.promptCostPerToken +
+      completionTokens * profile.completionCostPerToken
+    );
+  }
+
+  private static buildReport(
+    results: EvaluationCaseResult[],
+    cases: EvaluationCase[],
+    durationMs: number,
+    hasBaseline: boolean
+  ): EvaluationReport {
+    const selected = results.filter(result => result.error === undefined);
+    const labeledSelections = selected.filter(
+      result => result.agreed !== undefined
+    );
+    const agreed = labeledSelections.filter(result => result.agreed).length;
+
+    const estimatedUsd = this.sum(selected.map(result => result.estimatedUsd));
+    // Compare like with like: only cases the router could serve
+    const baselineUsd = this.sum(selected.map(result => result.baselineUsd));
+
+    return {
+      cases: cases.length,
+      errors: results.length - selected.length,
+      durationMs,
+      classification: this.getClassificationMetrics(selected),
+      selection: {
+        labeled: labeledSelections.length,
+        agreed,
+        agreement: this.ratio(agreed, labeledSelections.length),
+      },
+      cost: {
+        estimatedUsd,
+        ...(hasBaseline && {
+          baselineUsd,
+          savings: baselineUsd > 0 ? 1 - estimatedUsd / baselineUsd : 0,
+        }),
+      },
+      results,
+    };
+  }
+
+  private static getClassificationMetrics(
+    results: EvaluationCaseResult[]
+  ): ClassificationMetrics {
+    const categories = Object.values(PromptType);
+    const confusionMatrix = Object.fromEntries(
+      categories.map(expected => [
+        expected,
+        Object.fromEntries(categories.map(predicted => [predicted, 0])),
+      ])
+    ) as ClassificationMetrics['confusionMatrix'];
+
+    let labeled = 0;
+    for (const { expectedCategory, category } of results) {
+      if (!expectedCategory || !category) continue;
+      confusionMatrix[expectedCategory][category]++;
+      labeled++;
+    }
+
+    const perCategory = {} as Record<PromptType, CategoryMetrics>;
+    let correct = 0;
+    for (const category of categories) {
+      const truePositives = confusionMatrix[category][category];
+      const support = this.sum(Object.values(confusionMatrix[category]));
+      const predicted = this.sum(
+        categories.map(expected => confusionMatrix[expected][category])
+      );
+      const precision = this.ratio(truePositives, predicted);
+      const recall = this.ratio(truePositives, support);
+
+      correct += truePositives;
+      perCategory[category] = {
+        precision,
+        recall,
+        f1: this.ratio(2 * precision * recall, precision + recall),
+        support,
+      };
+    }
+
+    return {
+      labeled,
+      correct,
+      accuracy: this.ratio(correct, labeled),
+      perCategory,
+      confusionMatrix,
+    };
+  }
+
+  private static sum(values: (number | undefined)[]): number {
+    return values.reduce<number>((total, value) => total + (value ?? 0), 0);
+  }
+
+  private static ratio(numerator: number, denominator: number): number {
+    return denominator > 0 ? numerator / denominator : 0;
+  }
+}
+
+/**
+ * Evaluate routing quality on a labeled dataset against a catalog snapshot
+ */
+export async function evaluate(
+  dataset: EvaluationCase[] | string,
+  options: EvaluationOptions
+): Promise<EvaluationReport> {
+  return RoutingEvaluator.evaluate(dataset, options);
+}
@@ -0,0 +1,625 @@
+import { createHash, timingSafeEqual } from 'node:crypto';
+import {
+  createServer,
+  type IncomingMessage,
+  type Server,
+  type ServerResponse,
+} from 'node:http';
+import type { AddressInfo, Socket } from 'node:net';
+import { z } from 'zod';
+import { Logger } from '../utils/logger.js';
+import { formatZodIssues } from '../utils/zod.js';
+import { RouterError } from '../errors.js';
+import { TransportError } from '../lib/transport.js';
+import type { AutoPromptRouter } from '../router.js';
+import { PromptType } from '../types.js';
+import type {
+  ChatCompletionChunk,
+  ChatMessage,
+  CompletionOptions,
+  GatewayConfig,
+  ModelSelection,
+  PromptProperties,
+} from '../types.js';
+
+const logger = new Logger('Gateway');
+
+/**
+ * Gateway defaults (overridable through GatewayConfig)
+ */
+const GATEWAY_CONFIG = {
+  PORT: 8080,
+  HOST: '127.0.0.1',
+  MAX_BODY_BYTES: 1024 * 1024,
+
+  // Model name that asks for routing; `auto:<category>` and `auto:<profile>` refine it
+  AUTO_MODEL: 'auto',
+  OWNER: 'auto-llm-selector',
+
+  // No `reasoning`: clients can't set it, so both kinds of models are candidates
+  DEFAULT_PROPERTIES: {
+    accuracy: 0.5,
+    cost: 0.5,
+    speed: 0.5,
+    tokenLimit: 1000,
+  },
+
+  // Built-in `auto:<profile>` presets
+  PROFILES: {
+    cheap: { cost: 0, accuracy: 0.3 },
+    fast: { speed: 1, accuracy: 0.3 },
+    best: { accuracy: 1, cost: 1 },
+  },
+} as const;
+
+/**
+ * Response headers describing the routing decision
+ */
+const ROUTING_HEADERS = {
+  SELECTION_ID: 'x-router-selection-id', // For reportOutcome() and submitFeedback()
+  MODEL: 'x-router-model', // Model that served the response
+  CATEGORY: 'x-router-category',
+  REASON_CODE: 'x-router-reason-code',
+  CONFIDENCE: 'x-router-confidence',
+  ATTEMPTS: 'x-router-attempts', // Models tried, including failed ones (non-streaming only)
+} as const;
+
+// Content parts the router understands (ChatContentPart), optional fields left
+// to the upstream; others are rejected rather than routed without their text
+// or modality
+const contentPartSchema = z.discriminatedUnion('type', [
+  z.looseObject({ type: z.literal('text'), text: z.string() }),
+  z.looseObject({
+    type: z.literal('image_url'),
+    image_url: z.looseObject({ url: z.string() }),
+  }),
+  z.looseObject({
+    type: z.literal('file'),
+    file: z.looseObject({}),
+  }),
+  z.looseObject({
+    type: z.literal('input_audio'),
+    input_audio: z.looseObject({ data: z.string(), format: z.string() }),
+  }),
+]);
+
+// Only the fields the gateway reads are checked; the rest goes upstream as-is
+const chatCompletionBodySchema = z.looseObject({
+  model: z.string().min(1),
+  messages: z
+    .array(
+      z.looseObject({
+        role: z.enum(['system', 'user', 'assistant', 'tool']),
+        content: z
+          .union([z.string(), z.array(contentPartSchema), z.null()], {
+            error:
+              'Expected a string or text, image_url, file and input_audio parts',
+          })
+          .optional(),
+      })
+    )
+    .min(1),
+  stream: z.boolean().optional(),
+  max_tokens: z.number().int().positive().optional(),
+  max_completion_tokens: z.number().int().positive().optional(),
+  tools: z.array(z.unknown()).optional(),
+  response_format: z.looseObject({ type: z.string() }).optional(),
+});
+
+type ChatCompletionBody = z.infer<typeof chatCompletionBodySchema>;
+
+// How a request's `model` is served
+interface RouteTarget {
+  properties: Partial<PromptProperties>;
+  options: Pick<CompletionOptions, 'category' | 'model' | 'maxFallbacks'>;
+}
+
+/**
+ * Request the gateway rejects itself, with an OpenAI-style error code
+ */
+class GatewayError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly code: string
+  ) {
+    super(message);
+    this.name = 'GatewayError';
+  }
+}
+
+/**
+ * OpenAI-compatible HTTP server in front of an AutoPromptRouter. Requests for
+ * `model: "auto"` (or `auto:<category>`, `auto:<profile>`) are routed and
+ * forwarded to the chosen model; any other catalog model is called directly.
+ * OpenAI SDK clients only need their base URL changed.
+ */
+export class RoutingGateway {
+  private readonly router: AutoPromptRouter;
+  private readonly config: GatewayConfig;
+  private readonly profiles: Record<string, Partial<PromptProperties>>;
+  private server: Server | undefined;
+  private readonly sockets = new Set<Socket>(); // Open connections, destroyed by close()
+
+  constructor(router: AutoPromptRouter, config: GatewayConfig = {}) {
+    this.router = router;
+    this.config = config;
+    this.profiles = { ...GATEWAY_CONFIG.PROFILES, ...config.profiles };
+  }
+
+  /**
+   * Start listening; the router must already be initialized
+   */
+  async listen(): Promise<AddressInfo> {
+    if (!this.server) {
+      const server = createServer((req, res) => void this.handle(req, res));
+      // Tracked by hand: closeAllConnections() needs Node 18.2
+      server.on('connection', socket => {
+        this.sockets.add(socket);
+        socket.once('close', () => this.sockets.delete(socket));
+      });
+      await new Promise<void>((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(
+          this.config.port ?? GATEWAY_CONFIG.PORT,
+          this.config.host ?? GATEWAY_CONFIG.HOST,
+          () => {
+            server.off('error', reject);
+            resolve();
+          }
+        );
+      });
+      this.server = server;
+    }
+
+    const address = this.server.address() as AddressInfo;
+    logger.info(`Listening on http://${address.address}:${address.port}`);
+    return address;
+  }
+
+  /**
+   * Stop accepting requests and drop open connections
+   */
+  async close(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = undefined;
+
+    await new Promise<void>(resolve => {
+      server.close(() => resolve());
+      for (const socket of this.sockets) socket.destroy();
+    });
+    logger.info('Gateway closed');
+  }
+
+  /**
+   * Request handler, for mounting the gateway on an existing HTTP server
+   */
+  async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const path = (req.url ?? '/').split('?')[0]?.replace(/\/+$/, '') ?? '';
+
+    try {
+      if (path === '/v1/models') {
+        this.checkRequest(req, 'GET');
+        await this.listModels(res);
+      } else if (path === '/v1/chat/completions') {
+        this.checkRequest(req, 'POST');
+        await this.chatCompletion(req, res);
+      } else {
+        throw new GatewayError(
+          404,
+          `Unknown endpoint: ${req.method} ${path || '/'}`,
+          'not_found'
+        );
+      }
+    } catch (error) {
+      this.sendError(res, error);
+    }
+
+    logger.debug(`${req.method} ${path} -> ${res.statusCode}`);
+  }
+
+  private checkRequest(req: IncomingMessage, method: string): void {
+    if (req.method !== method) {
+      throw new GatewayError(
+        405,
+        `Method ${req.method} is not allowed, use ${method}`,
+        'method_not_allowed'
+      );
+    }
+
+    const apiKeys = this.config.apiKeys;
+    if (!apiKeys || apiKeys.length === 0) return;
+
+    const token = req.headers.authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+    if (!token || !this.isValidApiKey(token, apiKeys)) {
+      throw new GatewayError(401, 'Invalid API key', 'invalid_api_key');
+    }
+  }
+
+  /**
+   * Constant-time key check: hashing gives equal-length buffers, and every
+   * key is compared so the time doesn't reveal which one matched
+   */
+  private isValidApiKey(token: string, apiKeys: string[]): boolean {
+    const digest = (value: string): Buffer =>
+      createHash('sha256').update(value).digest();
+    const given = digest(token);
+
+    let valid = false;
+    for (const key of apiKeys) {
+      if (timingSafeEqual(digest(key), given)) valid = true;
+    }
+    return valid;
+  }
+
+  /**
+   * `GET /v1/models`: the auto models followed by the catalog
+   */
+  private async listModels(res: ServerResponse): Promise<void> {
+    const autoModels = [
+      GATEWAY_CONFIG.AUTO_MODEL,
+      ...Object.values(PromptType).map(
+        category => `${GATEWAY_CONFIG.AUTO_MODEL}:${category}`
+      ),
+      ...Object.keys(this.profiles).map(
+        profile => `${GATEWAY_CONFIG.AUTO_MODEL}:${profile}`
+      ),
+    ];
+    const profiles = await this.router.getAvailableModels();
+
+    this.sendJson(res, 200, {
+      object: 'list',
+      data: [
+        ...[...new Set(autoModels)].map(id => ({
+          id,
+          object: 'model',
+          created: 0,
+          owned_by: GATEWAY_CONFIG.OWNER,
+        })),
+        ...profiles.map(profile => ({
+          id: profile.id,
+          object: 'model',
+          created: 0,
+          owned_by: profile.characteristics.provider,
+        })),
+      ],
+    });
+  }
+
+  /**
+   * `POST /v1/chat/completions`, streaming or not
+   */
+  private async chatCompletion(
+    req: IncomingMessage,
+    res: ServerResponse
+  ): Promise<void> {
+    const body = this.parseBody(await this.readJson(req));
+    const target = await this.resolveTarget(body.model);
+
+    // temperature, tools, ... are passed through; the router sets the rest
+    const parameters = Object.fromEntries(
+      Object.entries(body).filter(
+        ([key]) => key !== 'model' && key !== 'messages' && key !== 'stream'
+      )
+    );
+    const messages: ChatMessage[] = body.messages.map(message => ({
+      ...message,
+      content: message.content ?? '',
+    }));
+    const properties: PromptProperties = {
+      ...GATEWAY_CONFIG.DEFAULT_PROPERTIES,
+      ...this.config.properties,
+      ...target.properties,
+      ...this.getRequestProperties(body),
+    };
+
+    // Stop routing and the upstream call when the client goes away
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) controller.abort();
+    });
+    const options: CompletionOptions = {
+      ...target.options,
+      parameters,
+      signal: controller.signal,
+    };
+
+    if (body.stream) {
+      await this.streamCompletion(res, messages, properties, options);
+      return;
+    }
+
+    const result = await this.router.complete(messages, properties, options);
+    this.setRoutingHeaders(res, result.selection, result.model);
+    res.setHeader(ROUTING_HEADERS.ATTEMPTS, String(result.attempts.length));
+    this.sendJson(res, 200, {
+      ...result.response,
+      model: result.response.model ?? result.model,
+    });
+  }
+
+  /**
+   * Relay the stream as server-sent events, forwarding every upstream chunk
+   * (text, tool calls, role, finish reason). Headers and chunks wait for the
+   * first token, so they come from the model that actually answered after
+   * any fallbacks.
+   */
+  private async streamCompletion(
+    res: ServerResponse,
+    messages: ChatMessage[],
+    properties: PromptProperties,
+    options: CompletionOptions
+  ): Promise<void> {
+    let selection: ModelSelection | undefined;
+    let chunkId: string | undefined;
+    let pending: ChatCompletionChunk[] = []; // Chunks before the first token
+    let finished = false;
+    let usageSent = false;
+
+    const start = (model: string): void => {
+      if (res.headersSent || !selection) return;
+      this.setRoutingHeaders(res, selection, model);
+      res.writeHead(200, {
+        'content-type': 'text/event-stream',
+        'cache-control': 'no-cache',
+        connection: 'keep-alive',
+      });
+    };
+
+    const send = (chunk: ChatCompletionChunk): void => {
+      chunkId ??= chunk.id;
+      if (chunk.choices?.some(choice => choice.finish_reason)) finished = true;
+      if (chunk.usage) usageSent = true;
+      res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+    };
+
+    try {
+      for await (const event of this.router.stream(
+        messages,
+        properties,
+        options
+      )) {
+        if (event.type === 'selection') {
+          selection = event.selection;
+        } else if (event.type === 'fallback') {
+          // The failed model's role chunk must not precede the next model's answer
+          pending = [];
+        } else if (event.type === 'delta') {
+          const delta = event.chunk.choices?.[0]?.delta;
+          if (
+            !res.headersSent &&
+            !event.content &&
+            (delta?.tool_calls?.length ?? 0) === 0
+          ) {
+            pending.push(event.chunk);
+            continue;
+          }
+
+          start(event.model);
+          pending.forEach(send);
+          pending = [];
+          send(event.chunk);
+        } else if (event.type === 'done') {
+          start(event.model);
+          pending.forEach(send);
+          pending = [];
+
+          // Add the finish reason if upstream left it out, and usage that
+          // came in a chunk without choices (not relayed by the router)
+          const usage = usageSent ? undefined : event.usage;
+          if (!finished || usage) {
+            const finalChunk = {
+              ...(chunkId && { id: chunkId }),
+              object: 'chat.completion.chunk',
+              created: Math.floor(Date.now() / 1000),
+              model: event.model,
+              choices: finished
+                ? []
+                : [
+                    {
+                      index: 0,
+                      delta: {},
+                      finish_reason: event.finishReason ?? 'stop',
+                    },
+                  ],
+              ...(usage && { usage }),
+            };
+            res.write(`data: ${JSON.stringify(finalChunk)}\n\n`);
+          }
+          res.write('data: [DONE]\n\n');
+        }
+      }
+    } catch (error) {
+      if (!res.headersSent) throw error;
+
+      // Too late for a status code; report the error in-band like OpenAI does
+      logger.warn(
+        `Stream failed after the first token: ${error instanceof Error ? error.message : 'unknown error'}`
+      );
+      res.write(
+        `data: ${JSON.stringify(this.getErrorBody(error, this.getErrorStatus(error)))}\n\n`
+      );
+    }
+
+    res.end();
+  }
+
+  /**
+   * Routing properties and options implied by the requested model
+   */
+  private async resolveTarget(model: string): Promise<RouteTarget> {
+    const prefix = `${GATEWAY_CONFIG.AUTO_MODEL}:`;
+
+    if (model === GATEWAY_CONFIG.AUTO_MODEL) {
+      return { properties: {}, options: {} };
+    }
+
+    if (model.startsWith(prefix)) {
+      const name = model.slice(prefix.length);
+      if ((Object.values(PromptType) as string[]).includes(name)) {
+        return {
+          properties: name === PromptType.Reasoning ? { reasoning: true } : {},
+          options: { category: name as PromptType },
+        };
+      }
+
+      const profile = this.profiles[name];
+      if (!profile) {
+        throw new GatewayError(
+          404,
+          `Unknown routing profile: ${model}`,
+          'model_not_found'
+        );
+      }
+      return { properties: profile, options: {} };
+    }
+
+    // A concrete model: no selection, but still the router's hard filters and health tracking
+    const profile = (await this.router.getAvailableModels()).find(
+      candidate => candidate.id === model
+    );
+    if (!profile) {
+      throw new GatewayError(
+        404,
+        `Model ${model} is not in the catalog`,
+        'model_not_found'
+      );
+    }
+    return {
+      properties: { reasoning: profile.characteristics.isReasoning },
+      options: { model, maxFallbacks: 0 },
+    };
+  }
+
+  /**
+   * Requirements derived from the request parameters
+   */
+  private getRequestProperties(
+    body: ChatCompletionBody
+  ): Partial<PromptProperties> {
+    const tokenLimit = body.max_completion_tokens ?? body.max_tokens;
+    return {
+      ...(tokenLimit !== undefined && { tokenLimit }),
+      ...(body.tools && body.tools.length > 0 && { requiresTools: true }),
+      ...(body.response_format?.type === 'json_schema' && {
+        requiresJsonSchema: true,
+      }),
+    };
+  }
+
+  private setRoutingHeaders(
+    res: ServerResponse,
+    selection: ModelSelection,
+    model: string
+  ): void {
+    res.setHeader(ROUTING_HEADERS.SELECTION_ID, selection.id);
+    res.setHeader(ROUTING_HEADERS.MODEL, model);
+    res.setHeader(ROUTING_HEADERS.CATEGORY, selection.category.type);
+    res.setHeader(ROUTING_HEADERS.REASON_CODE, selection.reasonCode);
+    res.setHeader(ROUTING_HEADERS.CONFIDENCE, selection.confidence.toFixed(3));
+  }
+
+  private async readJson(req: IncomingMessage): Promise<unknown> {
+    const maxBytes = this.config.maxBodyBytes ?? GATEWAY_CONFIG.MAX_BODY_BYTES;
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    for await (const chunk of req) {
+      size += (chunk as Buffer).length;
+      if (size > maxBytes) {
+        throw new GatewayError(
+          413,
+          `Request body exceeds ${maxBytes} bytes`,
+          'request_too_large'
+        );
+      }
+      chunks.push(chunk as Buffer);
+    }
+
+    try {
+      return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    } catch (error) {
+      throw new GatewayError(
+        400,
+        `Invalid JSON body: ${error instanceof Error ? error.message : 'parse error'}`,
+        'invalid_json'
+      );
+    }
+  }
+
+  private parseBody(value: unknown): ChatCompletionBody {
+    const result = chatCompletionBodySchema.safeParse(value);
+    if (!result.success) {
+      throw new GatewayError(
+        400,
+        `Invalid request: ${formatZodIssues(result.error)}`,
+        'invalid_request'
+      );
+    }
+    return result.data;
+  }
+
+  private sendJson(res: ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'content-type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+
+  private sendError(res: ServerResponse, error: unknown): void {
+    const status = this.getErrorStatus(error);
+    if (status >= 500) {
+      logger.error('Gateway request failed', error);
+    }
+
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    this.sendJson(res, status, this.getErrorBody(error, status));
+  }
+
+  /**
+   * HTTP status for an error: upstream client errors pass through, other
+   * upstream failures become 502/504
+   */
+  private getErrorStatus(error: unknown): number {
+    if (error instanceof GatewayError) return error.status;
+    if (error instanceof TransportError && error.status !== undefined) {
+      return error.status < 500 ? error.status : 502;
+    }
+    if (!(error instanceof RouterError)) return 500;
+
+    switch (error.code) {
+      case 'NO_CANDIDATE_MODELS':
+      case 'INVALID_INPUT':
+        return 400;
+      case 'ROUTER_NOT_INITIALIZED':
+        return 503;
+      case 'REQUEST_TIMEOUT':
+        return 504;
+      case 'REQUEST_ABORTED':
+        return 499; // Client closed the request; nobody reads this
+      case 'TRANSPORT_ERROR':
+      case 'CATALOG_FETCH_FAILED':
+      case 'ALL_CANDIDATES_FAILED':
+        return 502;
+      default:
+        return 500;
+    }
+  }
+
+  // OpenAI error envelope: { error: { message, type, code } }
+  private getErrorBody(error: unknown, status: number) {
+    const code =
+      error instanceof GatewayError || error instanceof RouterError
+        ? error.code
+        : 'internal_error';
+    return {
+      error: {
+        message: error instanceof Error ? error.message : 'Unknown error',
+        type: status < 500 ? 'invalid_request_error' : 'api_error',
+        code,
+      },
+    };
+  }
+}
@@ -1,16 +1,93 @@
 // Main entry point for auto-prompt-router-to-llm library
 export { AutoPromptRouter } from './router.js';
+export {
+  OpenAICompatibleTransport,
+  TransportError,
+  RequestTimeoutError,
+} from './lib/transport.js';
+export { TokenEstimator, type TextStats } from './lib/token-estimator.js';
+export { RoutingRulesEngine } from './lib/rules-engine.js';
+export { createRouterFromConfig, ConfigLoader } from './config/loader.js';
+export { evaluate, RoutingEvaluator } from './evaluation/evaluator.js';
+export { EvaluationDataset } from './evaluation/dataset.js';
+export { RoutingGateway } from './gateway/server.js';
+export { RoutingMcpServer } from './mcp/server.js';
+export {
+  RouterError,
+  RouterNotInitializedError,
+  NoCandidateModelsError,
+  CatalogFetchError,
+  SelectorResponseError,
+  ClassificationError,
+  RequestAbortedError,
+  type RouterErrorCode,
+  type RouterErrorOptions,
+  type CandidateFilterStage,
+} from './errors.js';
 
 // Export types for TypeScript users
 export type {
   RouterConfig,
+  ConfigLoadOptions,
+  TransportConfig,
+  RetryConfig,
+  RequestControl,
+  ChatMessage,
+  PromptInput,
+  ChatContentPart,
+  InputModality,
+  Attachment,
+  RecommendationOptions,
+  RoutingConstraints,
+  RoutingRule,
+  RuleCondition,
+  RuleAction,
+  ModelMatcher,
+  NumberCondition,
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  ChatCompletionUsage,
+  CompletionOptions,
+  CompletionAttempt,
+  CompletionResult,
+  ChatCompletionChunk,
+  ChatToolCallDelta,
+  RouterStreamEvent,
+  SelectionStrategy,
   PromptProperties,
   ModelSelection,
+  SelectionOutcome,
+  HealthConfig,
+  CircuitState,
+  CircuitHealth,
+  RouterHealth,
+  LatencyConfig,
+  LatencyStats,
+  FeedbackConfig,
+  SelectionFeedback,
+  ModelFeedbackStats,
+  BanditConfig,
+  BanditRewardWeights,
+  BanditStats,
+  BanditArmStats,
+  RecommendationCacheConfig,
+  RecommendationCacheStats,
+  EvaluationCase,
+  EvaluationOptions,
+  EvaluationReport,
+  EvaluationCaseResult,
+  GatewayConfig,
+  ClassificationMetrics,
+  CategoryMetrics,
+  SelectionReasonCode,
+  ModelAlternative,
   PromptCategory,
   ProcessedModel,
   ModelInfo,
   ModelScore,
+  ScoreAdjustment,
   ModelProfile,
+  ModelFeatures,
   ModelCapabilities,
   ModelCharacteristics,
 } from './types.js';
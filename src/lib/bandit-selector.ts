@@ -0,0 +1,396 @@
+import { Logger } from '../utils/logger.js';
+import { PendingSelections } from './pending-selections.js';
+import type {
+  BanditArmStats,
+  BanditConfig,
+  BanditStats,
+  ModelScore,
+  PromptType,
+  SelectionFeedback,
+  SelectionOutcome,
+} from '../types.js';
+
+const logger = new Logger('BanditSelector');
+
+/**
+ * Bandit defaults (overridable through BanditConfig) and reward calibration
+ */
+const BANDIT_CONFIG = {
+  EXPLORATION_BUDGET: 0.1,
+  MAX_SCORE_GAP: 0.1,
+  MAX_CANDIDATES: 3,
+  REWARD_WEIGHTS: { quality: 0.6, cost: 0.2, latency: 0.2 },
+
+  // Pseudo-rewards at the local score before any real reward arrives
+  PRIOR_STRENGTH: 5,
+
+  // Scale of the UCB confidence bonus (local scores differ by a few hundredths)
+  UCB_EXPLORATION: 0.1,
+
+  // Call latency at which the latency reward is 0.5
+  REFERENCE_LATENCY_MS: 5000,
+} as const;
+
+/**
+ * Model picked by the bandit, and whether it differs from the top local score
+ */
+export interface BanditChoice {
+  score: ModelScore;
+  explored: boolean;
+  expectedReward: number; // 0-1: Posterior mean reward of the chosen model
+}
+
+interface Arm {
+  pulls: number; // Rewards received
+  rewardSum: number;
+}
+
+interface PendingSelection {
+  model: string;
+  category: PromptType;
+  costs: Map<string, number>; // Candidate model -> cost sub-score at selection time
+  latencyMs?: number; // From the reported outcome, reused by feedback
+  outcomeRecorded: boolean;
+  feedbackRecorded: boolean;
+}
+
+/**
+ * Per-category multi-armed bandit over the near-top local candidates.
+ * Thompson sampling or UCB occasionally picks a runner-up, within an
+ * exploration budget, and rewards from outcomes and feedback (quality, cost
+ * and latency) gradually replace the local score as each model's estimate.
+ */
+export class BanditSelector {
+  private config: BanditConfig;
+  private random: () => number;
+  private readonly arms = new Map<string, Arm>(); // "category|model" -> arm
+  private readonly selections = new PendingSelections<PendingSelection>();
+  private totalSelections = 0;
+  private explorations = 0;
+
+  constructor(config: BanditConfig = {}) {
+    this.config = config;
+    this.random = this.createRandom(config.seed);
+  }
+
+  /**
+   * Apply new settings; learned rewards are kept, a new seed restarts the RNG
+   */
+  configure(config: BanditConfig = {}): void {
+    if (config.seed !== this.config.seed) {
+      this.random = this.createRandom(config.seed);
+    }
+    this.config = config;
+  }
+
+  /**
+   * Pick a model from scores sorted best first and remember the selection
+   * so rewards can be reported for it by ID
+   */
+  choose(
+    selectionId: string,
+    scores: ModelScore[],
+    category: PromptType
+  ): BanditChoice | undefined {
+    const [top] = scores;
+    if (!top) return undefined;
+
+    const maxGap = this.config.maxScoreGap ?? BANDIT_CONFIG.MAX_SCORE_GAP;
+    const pool = scores
+      .filter(scored => top.score - scored.score <= maxGap)
+      .slice(0, this.config.maxCandidates ?? BANDIT_CONFIG.MAX_CANDIDATES);
+
+    const values = this.getValues(pool, category);
+    let chosenIndex = values.indexOf(Math.max(...values));
+
+    // Stay on the top model once exploration has used up its share
+    const budget =
+      this.config.explorationBudget ?? BANDIT_CONFIG.EXPLORATION_BUDGET;
+    if (
+      chosenIndex > 0 &&
+      this.explorations + 1 > budget * (this.totalSelections + 1)
+    ) {
+      chosenIndex = 0;
+    }
+
+    const chosen = pool[chosenIndex] ?? top;
+    const explored = chosenIndex > 0;
+    this.totalSelections++;
+    if (explored) {
+      this.explorations++;
+      logger.debug(
+        `Exploring ${chosen.model.id} instead of ${top.model.id} for ${category}`
+      );
+    }
+
+    this.selections.set(selectionId, {
+      model: chosen.model.id,
+      category,
+      costs: new Map(
+        pool.map(scored => [scored.model.id, scored.breakdown.cost])
+      ),
+      outcomeRecorded: false,
+      feedbackRecorded: false,
+    });
+
+    return {
+      score: chosen,
+      explored,
+      expectedReward: this.getMean(chosen, category),
+    };
+  }
+
+  /**
+   * Reward a selection from its call outcome; only the first outcome counts
+   */
+  recordOutcome(
+    selectionId: string,
+    model: string,
+    outcome: SelectionOutcome
+  ): void {
+    const selection = this.selections.get(selectionId);
+    if (!selection || selection.outcomeRecorded) return;
+
+    selection.outcomeRecorded = true;
+    if (outcome.latencyMs !== undefined) {
+      selection.latencyMs = outcome.latencyMs;
+    }
+
+    // Client errors (400, 401, 404, ...) say nothing about the model
+    const status = outcome.statusCode;
+    const isNeutral =
+      !outcome.success &&
+      status !== undefined &&
+      status < 500 &&
+      status !== 408 &&
+      status !== 429;
+    if (!isNeutral) {
+      this.reward(selection, model, outcome.success ? 1 : undefined);
+    }
+    this.release(selectionId, selection);
+  }
+
+  /**
+   * Reward a selection from a user rating; only the first rating counts
+   */
+  recordFeedback(selectionId: string, feedback: SelectionFeedback): void {
+    const selection = this.selections.get(selectionId);
+    if (!selection || selection.feedbackRecorded) return;
+
+    selection.feedbackRecorded = true;
+    this.reward(selection, feedback.model ?? selection.model, feedback.rating);
+    this.release(selectionId, selection);
+  }
+
+  /**
+   * Exploration counters and the rewards learned for every model
+   */
+  getStats(): BanditStats {
+    const arms: BanditArmStats[] = [];
+    for (const [key, arm] of this.arms) {
+      const [category, model] = this.parseKey(key);
+      arms.push({
+        model,
+        category,
+        pulls: arm.pulls,
+        meanReward: arm.rewardSum / arm.pulls,
+      });
+    }
+
+    return {
+      selections: this.totalSelections,
+      explorations: this.explorations,
+      arms,
+    };
+  }
+
+  /**
+   * Forget rewards for one model, or all rewards and counters
+   */
+  reset(model?: string): void {
+    if (model === undefined) {
+      this.arms.clear();
+      this.selections.clear();
+      this.totalSelections = 0;
+      this.explorations = 0;
+      return;
+    }
+
+    for (const key of this.arms.keys()) {
+      if (this.parseKey(key)[1] === model) this.arms.delete(key);
+    }
+  }
+
+  /**
+   * Value of each candidate under the configured algorithm
+   */
+  private getValues(pool: ModelScore[], category: PromptType): number[] {
+    if (this.config.algorithm === 'ucb') {
+      const totalPulls = pool.reduce(
+        (sum, scored) =>
+          sum +
+          this.getArm(scored, category).pulls +
+          BANDIT_CONFIG.PRIOR_STRENGTH,
+        0
+      );
+      return pool.map(scored => {
+        const pulls =
+          this.getArm(scored, category).pulls + BANDIT_CONFIG.PRIOR_STRENGTH;
+        return (
+          this.getMean(scored, category) +
+          BANDIT_CONFIG.UCB_EXPLORATION *
+            Math.sqrt((2 * Math.log(totalPulls)) / pulls)
+        );
+      });
+    }
+
+    // Thompson sampling from a Beta posterior centred on the local score
+    return pool.map(scored => {
+      const arm = this.getArm(scored, category);
+      const prior = Math.min(1, Math.max(0, scored.score));
+      return this.sampleBeta(
+        1 + prior * BANDIT_CONFIG.PRIOR_STRENGTH + arm.rewardSum,
+        1 +
+          (1 - prior) * BANDIT_CONFIG.PRIOR_STRENGTH +
+          arm.pulls -
+          arm.rewardSum
+      );
+    });
+  }
+
+  /**
+   * Posterior mean reward: the local score, outweighed by real rewards
+   */
+  private getMean(scored: ModelScore, category: PromptType): number {
+    const arm = this.getArm(scored, category);
+    const prior = Math.min(1, Math.max(0, scored.score));
+    return (
+      (prior * BANDIT_CONFIG.PRIOR_STRENGTH + arm.rewardSum) /
+      (BANDIT_CONFIG.PRIOR_STRENGTH + arm.pulls)
+    );
+  }
+
+  /**
+   * Add a reward combining quality (undefined = failed call), cost and latency
+   */
+  private reward(
+    selection: PendingSelection,
+    model: string,
+    quality: number | undefined
+  ): void {
+    // Rewards only teach the bandit about models it chose between
+    const cost = selection.costs.get(model);
+    if (cost === undefined) return;
+
+    let value = 0;
+    if (quality !== undefined) {
+      const weights = {
+        ...BANDIT_CONFIG.REWARD_WEIGHTS,
+        ...this.config.rewardWeights,
+      };
+      const latency =
+        selection.latencyMs !== undefined
+          ? 1 / (1 + selection.latencyMs / BANDIT_CONFIG.REFERENCE_LATENCY_MS)
+          : undefined;
+      const latencyWeight = latency !== undefined ? weights.latency : 0;
+      const totalWeight = weights.quality + weights.cost + latencyWeight;
+
+      value =
+        totalWeight > 0
+          ? (weights.quality * quality +
+              weights.cost * cost +
+              latencyWeight * (latency ?? 0)) /
+            totalWeight
+          : quality;
+    }
+
+    const key = this.getKey(selection.category, model);
+    const arm = this.arms.get(key) ?? { pulls: 0, rewardSum: 0 };
+    arm.pulls++;
+    arm.rewardSum += value;
+    this.arms.set(key, arm);
+  }
+
+  private release(selectionId: string, selection: PendingSelection): void {
+    if (selection.outcomeRecorded && selection.feedbackRecorded) {
+      this.selections.delete(selectionId);
+    }
+  }
+
+  private getArm(scored: ModelScore, category: PromptType): Arm {
+    return (
+      this.arms.get(this.getKey(category, scored.model.id)) ?? {
+        pulls: 0,
+        rewardSum: 0,
+      }
+    );
+  }
+
+  private getKey(category: PromptType, model: string): string {
+    return `${category}|${model}`;
+  }
+
+  private parseKey(key: string): [PromptType, string] {
+    const separator = key.indexOf('|');
+    return [key.slice(0, separator) as PromptType, key.slice(separator + 1)];
+  }
+
+  /**
+   * Beta sample as the ratio of two Gamma samples
+   */
+  private sampleBeta(alpha: number, beta: number): number {
+    const x = this.sampleGamma(alpha);
+    const y = this.sampleGamma(beta);
+    return x / (x + y);
+  }
+
+  /**
+   * Marsaglia-Tsang Gamma(shape, 1) sampler
+   */
+  private sampleGamma(shape: number): number {
+    if (shape < 1) {
+      return this.sampleGamma(shape + 1) * Math.pow(this.random(), 1 / shape);
+    }
+
+    const d = shape - 1 / 3;
+    const c = 1 / Math.sqrt(9 * d);
+    for (;;) {
+      let x: number;
+      let v: number;
+      do {
+        x = this.sampleNormal();
+        v = 1 + c * x;
+      } while (v <= 0);
+
+      v = v * v * v;
+      const u = this.random();
+      if (Math.log(u) < 0.5 * x * x + d - d * v + d * Math.log(v)) {
+        return d * v;
+      }
+    }
+  }
+
+  /**
+   * Standard normal sample (Box-Muller)
+   */
+  private sampleNormal(): number {
+    const u = this.random() || Number.MIN_VALUE;
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * this.random());
+  }
+
+  /**
+   * Mulberry32 generator, so a fixed seed reproduces the same selections
+   */
+  private createRandom(seed: number | undefined): () => number {
+    if (seed === undefined) return Math.random;
+
+    let state = seed >>> 0;
+    return () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+}
@@ -0,0 +1,136 @@
+import type {
+  ModelProfile,
+  RoutingConstraints,
+  ScoreAdjustment,
+} from '../types.js';
+
+/**
+ * Score bonus for preferred providers when no boost is configured
+ */
+const DEFAULT_PREFERRED_PROVIDER_BOOST = 0.1;
+
+/**
+ * Applies router-level and per-request RoutingConstraints to model profiles
+ */
+export class ConstraintFilter {
+  /**
+   * Keep the profiles that satisfy every given constraint set
+   */
+  static apply(
+    profiles: ModelProfile[],
+    constraintSets: (RoutingConstraints | undefined)[]
+  ): ModelProfile[] {
+    const active = constraintSets.filter(
+      (constraints): constraints is RoutingConstraints => !!constraints
+    );
+    if (active.length === 0) return profiles;
+
+    return profiles.filter(profile =>
+      active.every(constraints => this.isAllowed(profile, constraints))
+    );
+  }
+
+  /**
+   * Check a single profile against one constraint set
+   */
+  static isAllowed(
+    profile: ModelProfile,
+    constraints: RoutingConstraints
+  ): boolean {
+    const provider = profile.characteristics.provider.toLowerCase();
+
+    if (
+      constraints.allowedProviders &&
+      !this.includesProvider(constraints.allowedProviders, provider)
+    ) {
+      return false;
+    }
+    if (
+      constraints.blockedProviders &&
+      this.includesProvider(constraints.blockedProviders, provider)
+    ) {
+      return false;
+    }
+    if (
+      constraints.allowedModels &&
+      !constraints.allowedModels.some(glob =>
+        this.matchesGlob(profile.id, glob)
+      )
+    ) {
+      return false;
+    }
+    if (
+      constraints.blockedModels?.some(glob =>
+        this.matchesGlob(profile.id, glob)
+      )
+    ) {
+      return false;
+    }
+    if (constraints.moderatedOnly && !profile.isModerated) {
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Score adjustments for a profile; request-level preferences replace
+   * router-level ones
+   */
+  static getAdjustments(
+    profile: ModelProfile,
+    routerConstraints: RoutingConstraints | undefined,
+    requestConstraints: RoutingConstraints | undefined
+  ): ScoreAdjustment[] {
+    const constraints = requestConstraints?.preferredProviders
+      ? requestConstraints
+      : routerConstraints;
+    if (!constraints?.preferredProviders) return [];
+
+    const provider = profile.characteristics.provider.toLowerCase();
+    if (!this.includesProvider(constraints.preferredProviders, provider)) {
+      return [];
+    }
+
+    return [
+      {
+        source: 'preferred_provider',
+        value: this.getPreferredProviderBoost(constraints),
+      },
+    ];
+  }
+
+  /**
+   * Score bonus for the preferred providers of a constraint set
+   */
+  static getPreferredProviderBoost(constraints: RoutingConstraints): number {
+    return (
+      constraints.preferredProviderBoost ?? DEFAULT_PREFERRED_PROVIDER_BOOST
+    );
+  }
+
+  /**
+   * Case-insensitive glob match on a model ID (`*` any characters, `?` one)
+   */
+  static matchesGlob(modelId: string, glob: string): boolean {
+    const pattern = glob
+      .split('')
+      .map(char =>
+        char === '*'
+          ? '.*'
+          : char === '?'
+            ? '.'
+            : char.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+      )
+      .join('');
+
+    return new RegExp(`^${pattern}$`, 'i').test(modelId);
+  }
+
+  private static includesProvider(
+    providers: string[],
+    provider: string
+  ): boolean {
+    return providers.some(entry => entry.toLowerCase() === provider);
+  }
+}
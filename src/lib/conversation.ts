@@ -0,0 +1,119 @@
+import { TokenEstimator, type TextStats } from './token-estimator.js';
+import { RouterError } from '../errors.js';
+import type {
+  ChatContentPart,
+  ChatMessage,
+  InputModality,
+  PromptInput,
+} from '../types.js';
+
+/**
+ * Input modality implied by each non-text content part
+ */
+const CONTENT_PART_MODALITIES: Record<
+  Exclude<ChatContentPart['type'], 'text'>,
+  InputModality
+> = {
+  image_url: 'image',
+  file: 'file',
+  input_audio: 'audio',
+};
+
+/**
+ * Structured view of a prompt or chat conversation used for routing
+ */
+export interface Conversation {
+  messages: ChatMessage[];
+  latestUserPrompt: string; // Most recent user turn (falls back to all text)
+  systemPrompt: string; // All system messages joined
+  history: string; // Earlier user/assistant turns joined
+  totalChars: number;
+  textStats: TextStats; // Character counts for per-model token estimates
+  inputModalities: InputModality[]; // Non-text inputs found in content parts
+  estimatedTokens: number; // Model-agnostic token estimate of the whole conversation
+}
+
+/**
+ * Normalizes string prompts and chat message arrays into a Conversation
+ */
+export class ConversationAnalyzer {
+  /**
+   * Build a Conversation from a prompt string or chat messages
+   */
+  static analyze(input: PromptInput): Conversation {
+    const messages: ChatMessage[] =
+      typeof input === 'string' ? [{ role: 'user', content: input }] : input;
+
+    if (messages.length === 0) {
+      throw new RouterError(
+        'Conversation must contain at least one message',
+        'INVALID_INPUT'
+      );
+    }
+
+    // Latest user turn drives classification
+    let latestUserIndex = -1;
+    for (let i = messages.length - 1; i >= 0; i--) {
+      if (messages[i]?.role === 'user') {
+        latestUserIndex = i;
+        break;
+      }
+    }
+
+    const systemPrompt = messages
+      .filter(message => message.role === 'system')
+      .map(message => this.getText(message))
+      .join('\n');
+
+    const history = messages
+      .filter(
+        (message, index) =>
+          index !== latestUserIndex &&
+          (message.role === 'user' || message.role === 'assistant')
+      )
+      .map(message => this.getText(message))
+      .join('\n');
+
+    const latestUserMessage = messages[latestUserIndex];
+    const latestUserPrompt = latestUserMessage
+      ? this.getText(latestUserMessage)
+      : messages.map(message => this.getText(message)).join('\n');
+
+    const textStats = TokenEstimator.measure(
+      messages.map(message => this.getText(message))
+    );
+
+    const inputModalities = new Set<InputModality>();
+    for (const message of messages) {
+      if (typeof message.content === 'string') continue;
+      for (const part of message.content) {
+        if (part.type !== 'text') {
+          inputModalities.add(CONTENT_PART_MODALITIES[part.type]);
+        }
+      }
+    }
+
+    return {
+      messages,
+      latestUserPrompt,
+      systemPrompt,
+      history,
+      totalChars: textStats.asciiChars + textStats.wideChars,
+      textStats,
+      inputModalities: [...inputModalities],
+      estimatedTokens: TokenEstimator.estimate(textStats),
+    };
+  }
+
+  /**
+   * Text content of a message (text parts joined for multimodal content)
+   */
+  static getText(message: ChatMessage): string {
+    if (typeof message.content === 'string') return message.content;
+
+    return message.content
+      .map(part => (part.type === 'text' ? part.text : ''))
+      .filter(Boolean)
+      .join('\n');
+  }
+}
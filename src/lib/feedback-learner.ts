@@ -0,0 +1,313 @@
+import { readFile, rename, writeFile } from 'node:fs/promises';
+import { z } from 'zod';
+import { Logger } from '../utils/logger.js';
+import { formatZodIssues } from '../utils/zod.js';
+import { RouterError } from '../errors.js';
+import { PendingSelections } from './pending-selections.js';
+import { PromptType } from '../types.js';
+import type {
+  FeedbackConfig,
+  ModelFeedbackStats,
+  ModelProfile,
+  SelectionFeedback,
+} from '../types.js';
+
+const logger = new Logger('FeedbackLearner');
+
+/**
+ * Feedback learning defaults (overridable through FeedbackConfig)
+ */
+const FEEDBACK_CONFIG = {
+  HALF_LIFE_DAYS: 14,
+  PRIOR_STRENGTH: 5,
+
+  // Batch writes when ratings arrive in bursts
+  SAVE_DEBOUNCE_MS: 1000,
+} as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const modelSchema = z.string().min(1);
+const categorySchema = z.enum(PromptType);
+
+// Submitted feedback; checked up front so nothing invalid reaches the file
+const selectionFeedbackSchema = z.object({
+  rating: z.number().min(0).max(1), // 0-1: How good the response was
+  categoryOverride: categorySchema.optional(),
+  model: modelSchema.optional(),
+});
+
+// Format of the persisted file
+const feedbackStateSchema = z.object({
+  version: z.literal(1),
+  entries: z.array(
+    z.object({
+      model: modelSchema,
+      category: categorySchema,
+      sum: z.number().min(0), // Decayed sum of ratings
+      weight: z.number().min(0), // Decayed number of ratings
+      updatedAt: z.number(),
+    })
+  ),
+});
+
+type FeedbackEntry = z.infer<typeof feedbackStateSchema>['entries'][number];
+
+/**
+ * Learns per-model, per-category quality from user ratings and blends it
+ * into the static capability scores. Older ratings decay exponentially and
+ * learned quality only outweighs the profile once enough ratings exist.
+ */
+export class FeedbackLearner {
+  private config: FeedbackConfig;
+  private readonly entries = new Map<string, FeedbackEntry>(); // "model|category" -> entry
+  private readonly selections = new PendingSelections<{
+    model: string;
+    category: PromptType;
+  }>();
+  private saveTimer: ReturnType<typeof setTimeout> | undefined;
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(config: FeedbackConfig = {}) {
+    this.config = config;
+  }
+
+  /**
+   * Apply new settings; learned quality is kept
+   */
+  configure(config: FeedbackConfig = {}): void {
+    this.config = config;
+  }
+
+  /**
+   * Remember a selection so feedback can be submitted for it by ID
+   */
+  trackSelection(
+    selectionId: string,
+    model: string,
+    category: PromptType
+  ): void {
+    this.selections.set(selectionId, { model, category });
+  }
+
+  /**
+   * Record a rating for a tracked selection. Returns false when the selection
+   * is unknown (too old, or already rated).
+   */
+  submit(selectionId: string, feedback: SelectionFeedback): boolean {
+    FeedbackLearner.validate(feedback);
+
+    const selection = this.selections.take(selectionId);
+    if (!selection) return false;
+
+    const model = feedback.model ?? selection.model;
+    const category = feedback.categoryOverride ?? selection.category;
+    const now = Date.now();
+
+    const entry = this.entries.get(this.getKey(model, category)) ?? {
+      model,
+      category,
+      sum: 0,
+      weight: 0,
+      updatedAt: now,
+    };
+    const decay = this.getDecay(entry, now);
+    entry.sum = entry.sum * decay + feedback.rating;
+    entry.weight = entry.weight * decay + 1;
+    entry.updatedAt = now;
+    this.entries.set(this.getKey(model, category), entry);
+
+    logger.debug(
+      `Feedback for ${model} (${category}): ${feedback.rating.toFixed(2)}, quality now ${(entry.sum / entry.weight).toFixed(2)}`
+    );
+    this.scheduleSave();
+    return true;
+  }
+
+  /**
+   * Throw INVALID_INPUT unless the feedback could be persisted and loaded again
+   */
+  static validate(feedback: SelectionFeedback): void {
+    const result = selectionFeedbackSchema.safeParse(feedback);
+    if (!result.success) {
+      throw new RouterError(
+        `Invalid feedback: ${formatZodIssues(result.error)}`,
+        'INVALID_INPUT',
+        { context: { feedback } }
+      );
+    }
+  }
+
+  /**
+   * Profiles with learned quality blended into their capability scores
+   */
+  apply(profiles: ModelProfile[]): ModelProfile[] {
+    if (this.config.enabled === false || this.entries.size === 0) {
+      return profiles;
+    }
+
+    const now = Date.now();
+    return profiles.map(profile => {
+      let capabilities = profile.capabilities;
+
+      for (const category of Object.values(PromptType)) {
+        const entry = this.entries.get(this.getKey(profile.id, category));
+        if (!entry) continue;
+
+        const { quality, confidence } = this.getEstimate(entry, now);
+        capabilities = {
+          ...capabilities,
+          [category]:
+            capabilities[category] * (1 - confidence) + quality * confidence,
+        };
+      }
+
+      return capabilities === profile.capabilities
+        ? profile
+        : { ...profile, capabilities };
+    });
+  }
+
+  /**
+   * Learned quality of every rated model and category
+   */
+  getStats(): ModelFeedbackStats[] {
+    const now = Date.now();
+    return [...this.entries.values()].map(entry => {
+      const { quality, confidence, weight } = this.getEstimate(entry, now);
+      return {
+        model: entry.model,
+        category: entry.category,
+        quality,
+        confidence,
+        weight,
+        updatedAt: entry.updatedAt,
+      };
+    });
+  }
+
+  /**
+   * Load learned quality from `persistPath`; a missing file starts empty.
+   * Entries updated in memory after the file was written are kept.
+   */
+  async load(): Promise<void> {
+    const path = this.config.persistPath;
+    if (!path) return;
+
+    let content: string;
+    try {
+      content = await readFile(path, 'utf8');
+    } catch (error) {
+      if ((error as { code?: string }).code === 'ENOENT') return;
+      throw error;
+    }
+
+    let result: ReturnType<typeof feedbackStateSchema.safeParse>;
+    try {
+      result = feedbackStateSchema.safeParse(JSON.parse(content));
+    } catch (error) {
+      throw new RouterError(
+        `Invalid feedback file ${path}: ${error instanceof Error ? error.message : 'parse error'}`,
+        'INVALID_CONFIG',
+        { cause: error, context: { source: path } }
+      );
+    }
+    if (!result.success) {
+      throw new RouterError(
+        `Invalid feedback file ${path}: ${formatZodIssues(result.error)}`,
+        'INVALID_CONFIG',
+        { cause: result.error, context: { source: path } }
+      );
+    }
+
+    // Ratings submitted since the file was written are newer; keep those
+    let loaded = 0;
+    for (const entry of result.data.entries) {
+      const key = this.getKey(entry.model, entry.category);
+      const current = this.entries.get(key);
+      if (current && current.updatedAt >= entry.updatedAt) continue;
+      this.entries.set(key, entry);
+      loaded++;
+    }
+    logger.info(`Loaded feedback for ${loaded} models from ${path}`);
+  }
+
+  /**
+   * Write pending changes to `persistPath` now
+   */
+  async flush(): Promise<void> {
+    if (this.saveTimer === undefined) return this.saving;
+
+    clearTimeout(this.saveTimer);
+    this.saveTimer = undefined;
+    return this.save();
+  }
+
+  /**
+   * Forget learned quality for one model, or for every model
+   */
+  reset(model?: string): void {
+    for (const [key, entry] of this.entries) {
+      if (model === undefined || entry.model === model) {
+        this.entries.delete(key);
+      }
+    }
+    this.scheduleSave();
+  }
+
+  private scheduleSave(): void {
+    if (!this.config.persistPath || this.saveTimer !== undefined) return;
+
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = undefined;
+      void this.save();
+    }, FEEDBACK_CONFIG.SAVE_DEBOUNCE_MS);
+    // Saving must never keep the process alive on its own
+    this.saveTimer.unref?.();
+  }
+
+  private save(): Promise<void> {
+    const path = this.config.persistPath;
+    if (!path) return this.saving;
+
+    const state = { version: 1, entries: [...this.entries.values()] };
+
+    // Serialize writes; write-then-rename so a crash never leaves half a file
+    this.saving = this.saving
+      .then(async () => {
+        const tempPath = `${path}.tmp`;
+        await writeFile(tempPath, JSON.stringify(state, null, 2));
+        await rename(tempPath, path);
+      })
+      .catch(error =>
+        logger.error(`Failed to save feedback to ${path}`, error)
+      );
+    return this.saving;
+  }
+
+  private getEstimate(
+    entry: FeedbackEntry,
+    now: number
+  ): { quality: number; confidence: number; weight: number } {
+    // Decay cancels out of the average but lowers the confidence
+    const weight = entry.weight * this.getDecay(entry, now);
+    const priorStrength =
+      this.config.priorStrength ?? FEEDBACK_CONFIG.PRIOR_STRENGTH;
+
+    return {
+      quality: entry.weight > 0 ? entry.sum / entry.weight : 0,
+      confidence: weight / (weight + priorStrength),
+      weight,
+    };
+  }
+
+  private getDecay(entry: FeedbackEntry, now: number): number {
+    const halfLifeMs =
+      (this.config.halfLifeDays ?? FEEDBACK_CONFIG.HALF_LIFE_DAYS) * DAY_MS;
+    return Math.pow(0.5, Math.max(0, now - entry.updatedAt) / halfLifeMs);
+  }
+
+  private getKey(model: string, category: PromptType): string {
+    return `${model}|${category}`;
+  }
+}
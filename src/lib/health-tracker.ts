@@ -0,0 +1,293 @@
+import { Logger } from '../utils/logger.js';
+import { PendingSelections } from './pending-selections.js';
+import type {
+  CircuitHealth,
+  HealthConfig,
+  ModelProfile,
+  RouterHealth,
+  SelectionOutcome,
+} from '../types.js';
+
+const logger = new Logger('HealthTracker');
+
+/**
+ * Circuit breaker defaults (overridable through HealthConfig)
+ */
+const HEALTH_CONFIG = {
+  FAILURE_THRESHOLD: 3,
+  PROVIDER_FAILURE_THRESHOLD: 5,
+  COOLDOWN_MS: 30_000,
+  MAX_COOLDOWN_MS: 300_000,
+  // A half-open probe whose outcome is never reported stops blocking traffic after this
+  PROBE_TIMEOUT_MS: 60_000,
+} as const;
+
+interface Circuit extends CircuitHealth {
+  cooldownMs: number; // Cooldown applied the next time the circuit opens
+  probeStartedAt?: number; // Set while a half-open circuit's single probe is in flight
+}
+
+/**
+ * Per-model and per-provider circuit breaker fed by call outcomes.
+ * A circuit opens after repeated failures, excludes its models until the
+ * cooldown ends, then half-opens: one selection probes it while other
+ * traffic is still kept away, the probe's success closes it and its
+ * failure reopens it with a doubled cooldown.
+ */
+export class HealthTracker {
+  private config: HealthConfig;
+  private readonly models = new Map<string, Circuit>();
+  private readonly providers = new Map<string, Circuit>();
+  private readonly selections = new PendingSelections<string>(); // Selection ID -> model
+
+  constructor(config: HealthConfig = {}) {
+    this.config = config;
+  }
+
+  /**
+   * Apply new settings; recorded health is kept
+   */
+  configure(config: HealthConfig = {}): void {
+    this.config = config;
+  }
+
+  /**
+   * Remember which model a selection chose so its outcome can be reported by
+   * ID. A selection of a half-open model becomes that circuit's probe.
+   */
+  trackSelection(selectionId: string, model: string): void {
+    const now = Date.now();
+    this.claimProbe(this.models.get(model), now);
+    this.claimProbe(this.providers.get(this.getProvider(model)), now);
+
+    this.selections.set(selectionId, model);
+  }
+
+  /**
+   * Model chosen by a tracked selection; each selection can be resolved once
+   */
+  resolveSelection(selectionId: string): string | undefined {
+    return this.selections.take(selectionId);
+  }
+
+  /**
+   * Record the outcome of a call to `model`
+   */
+  record(model: string, outcome: SelectionOutcome): void {
+    const provider = this.getProvider(model);
+    this.update(
+      this.getCircuit(this.models, model),
+      `model ${model}`,
+      outcome,
+      this.config.failureThreshold ?? HEALTH_CONFIG.FAILURE_THRESHOLD
+    );
+    this.update(
+      this.getCircuit(this.providers, provider),
+      `provider ${provider}`,
+      outcome,
+      this.config.providerFailureThreshold ??
+        HEALTH_CONFIG.PROVIDER_FAILURE_THRESHOLD
+    );
+  }
+
+  /**
+   * Drop profiles whose model or provider circuit is open
+   */
+  filter(profiles: ModelProfile[]): ModelProfile[] {
+    if (this.config.enabled === false) return profiles;
+
+    return profiles.filter(profile => this.isAvailable(profile));
+  }
+
+  /**
+   * Whether a model may receive traffic (closed circuits, or half-open ones
+   * without a probe in flight)
+   */
+  isAvailable(profile: ModelProfile): boolean {
+    const now = Date.now();
+    return (
+      this.isCircuitAvailable(this.models.get(profile.id), now) &&
+      this.isCircuitAvailable(
+        this.providers.get(profile.characteristics.provider),
+        now
+      )
+    );
+  }
+
+  /**
+   * Snapshot of every circuit with a recorded outcome
+   */
+  getHealth(): RouterHealth {
+    const now = Date.now();
+    return {
+      models: this.snapshot(this.models, now),
+      providers: this.snapshot(this.providers, now),
+    };
+  }
+
+  /**
+   * Forget recorded health for one model, or for everything
+   */
+  reset(model?: string): void {
+    if (model === undefined) {
+      this.models.clear();
+      this.providers.clear();
+      return;
+    }
+
+    this.models.delete(model);
+  }
+
+  private update(
+    circuit: Circuit,
+    label: string,
+    outcome: SelectionOutcome,
+    threshold: number
+  ): void {
+    if (outcome.statusCode !== undefined) {
+      circuit.lastStatusCode = outcome.statusCode;
+    }
+    if (outcome.latencyMs !== undefined) {
+      circuit.lastLatencyMs = outcome.latencyMs;
+    }
+
+    const now = Date.now();
+    this.refreshState(circuit, now);
+    // Any outcome settles the probe: it closes, reopens or frees the circuit
+    delete circuit.probeStartedAt;
+
+    if (outcome.success) {
+      circuit.totalSuccesses++;
+      circuit.consecutiveFailures = 0;
+      if (circuit.state !== 'closed') {
+        logger.info(`Circuit for ${label} closed after a successful call`);
+      }
+      this.close(circuit);
+      return;
+    }
+
+    // Client errors (400, 401, 404, ...) say nothing about the model's health
+    if (!this.isHealthFailure(outcome.statusCode)) return;
+
+    circuit.totalFailures++;
+    circuit.consecutiveFailures++;
+
+    if (circuit.state === 'half_open') {
+      // The probe failed - back off harder
+      circuit.cooldownMs = Math.min(
+        circuit.cooldownMs * 2,
+        this.config.maxCooldownMs ?? HEALTH_CONFIG.MAX_COOLDOWN_MS
+      );
+      this.open(circuit, label, now);
+    } else if (
+      circuit.state === 'closed' &&
+      circuit.consecutiveFailures >= threshold
+    ) {
+      this.open(circuit, label, now);
+    }
+  }
+
+  private open(circuit: Circuit, label: string, now: number): void {
+    circuit.state = 'open';
+    circuit.openedAt = now;
+    circuit.retryAt = now + circuit.cooldownMs;
+    logger.warn(
+      `Circuit for ${label} opened after ${circuit.consecutiveFailures} consecutive failures (cooldown ${circuit.cooldownMs}ms)`
+    );
+  }
+
+  private close(circuit: Circuit): void {
+    circuit.state = 'closed';
+    circuit.cooldownMs = this.config.cooldownMs ?? HEALTH_CONFIG.COOLDOWN_MS;
+    delete circuit.openedAt;
+    delete circuit.retryAt;
+  }
+
+  /**
+   * Move an open circuit to half-open once its cooldown has passed
+   */
+  private refreshState(circuit: Circuit, now: number): void {
+    if (
+      circuit.state === 'open' &&
+      circuit.retryAt !== undefined &&
+      now >= circuit.retryAt
+    ) {
+      circuit.state = 'half_open';
+    }
+  }
+
+  private isCircuitAvailable(
+    circuit: Circuit | undefined,
+    now: number
+  ): boolean {
+    if (!circuit) return true;
+
+    this.refreshState(circuit, now);
+    if (circuit.state === 'half_open') return !this.isProbing(circuit, now);
+    return circuit.state !== 'open';
+  }
+
+  private claimProbe(circuit: Circuit | undefined, now: number): void {
+    if (!circuit) return;
+
+    this.refreshState(circuit, now);
+    if (circuit.state === 'half_open' && !this.isProbing(circuit, now)) {
+      circuit.probeStartedAt = now;
+    }
+  }
+
+  private isProbing(circuit: Circuit, now: number): boolean {
+    return (
+      circuit.probeStartedAt !== undefined &&
+      now - circuit.probeStartedAt < HEALTH_CONFIG.PROBE_TIMEOUT_MS
+    );
+  }
+
+  private isHealthFailure(statusCode: number | undefined): boolean {
+    // Network failures, timeouts, rate limits and server errors
+    return (
+      statusCode === undefined ||
+      statusCode === 408 ||
+      statusCode === 429 ||
+      statusCode >= 500
+    );
+  }
+
+  private getCircuit(circuits: Map<string, Circuit>, key: string): Circuit {
+    let circuit = circuits.get(key);
+    if (!circuit) {
+      circuit = {
+        state: 'closed',
+        consecutiveFailures: 0,
+        totalSuccesses: 0,
+        totalFailures: 0,
+        cooldownMs: this.config.cooldownMs ?? HEALTH_CONFIG.COOLDOWN_MS,
+      };
+      circuits.set(key, circuit);
+    }
+    return circuit;
+  }
+
+  private snapshot(
+    circuits: Map<string, Circuit>,
+    now: number
+  ): Record<string, CircuitHealth> {
+    const result: Record<string, CircuitHealth> = {};
+    for (const [key, circuit] of circuits) {
+      this.refreshState(circuit, now);
+      const health: CircuitHealth & {
+        cooldownMs?: number;
+        probeStartedAt?: number;
+      } = { ...circuit };
+      delete health.cooldownMs;
+      delete health.probeStartedAt;
+      result[key] = health;
+    }
+    return result;
+  }
+
+  private getProvider(model: string): string {
+    // Same rule as ModelProfiler: the model ID prefix
+    return model.split('/')[0] || 'unknown';
+  }
+}
@@ -0,0 +1,209 @@
+import type {
+  LatencyConfig,
+  LatencyStats,
+  ModelProfile,
+  SelectionOutcome,
+} from '../types.js';
+
+/**
+ * Latency statistics defaults and speed score calibration
+ */
+const LATENCY_CONFIG = {
+  WINDOW_SIZE: 100,
+  MIN_SAMPLES: 5,
+
+  // Observed speed replaces the tier heuristic gradually, up to this share
+  MAX_OBSERVED_WEIGHT: 0.8,
+  FULL_WEIGHT_SAMPLES: 20,
+
+  // Values at which each observed speed signal scores 0.5
+  REFERENCE_TTFT_MS: 1000,
+  REFERENCE_TOKENS_PER_SECOND: 50,
+} as const;
+
+/**
+ * Speed sub-score measured from real calls, and how much to trust it
+ */
+export interface ObservedSpeed {
+  score: number; // 0-1, higher is faster
+  weight: number; // 0-1: Share of the speed dimension it replaces
+}
+
+interface LatencyWindow {
+  latencyMs: number[];
+  timeToFirstTokenMs: number[];
+  tokensPerSecond: number[];
+}
+
+/**
+ * Rolling per-model latency statistics (whole call, time to first token and
+ * output throughput) from successful call outcomes
+ */
+export class LatencyTracker {
+  private config: LatencyConfig;
+  private readonly windows = new Map<string, LatencyWindow>();
+
+  constructor(config: LatencyConfig = {}) {
+    this.config = config;
+  }
+
+  /**
+   * Apply new settings; recorded samples are kept
+   */
+  configure(config: LatencyConfig = {}): void {
+    this.config = config;
+  }
+
+  /**
+   * Record a call outcome; only successful calls with timings are sampled
+   */
+  record(model: string, outcome: SelectionOutcome): void {
+    if (!outcome.success || outcome.latencyMs === undefined) return;
+
+    let window = this.windows.get(model);
+    if (!window) {
+      window = { latencyMs: [], timeToFirstTokenMs: [], tokensPerSecond: [] };
+      this.windows.set(model, window);
+    }
+
+    this.push(window.latencyMs, outcome.latencyMs);
+    if (outcome.timeToFirstTokenMs !== undefined) {
+      this.push(window.timeToFirstTokenMs, outcome.timeToFirstTokenMs);
+    }
+
+    // Throughput over the generation phase (after the first token, if known)
+    const generationMs = outcome.latencyMs - (outcome.timeToFirstTokenMs ?? 0);
+    if (outcome.completionTokens && generationMs > 0) {
+      this.push(
+        window.tokensPerSecond,
+        (outcome.completionTokens / generationMs) * 1000
+      );
+    }
+  }
+
+  /**
+   * Statistics for one model, once it has enough samples
+   */
+  getStats(model: string): LatencyStats | undefined {
+    const window = this.windows.get(model);
+    if (!window || window.latencyMs.length < this.getMinSamples()) {
+      return undefined;
+    }
+
+    const hasTtft = window.timeToFirstTokenMs.length >= this.getMinSamples();
+    const hasThroughput = window.tokensPerSecond.length >= this.getMinSamples();
+
+    return {
+      samples: window.latencyMs.length,
+      p50LatencyMs: this.percentile(window.latencyMs, 0.5),
+      p95LatencyMs: this.percentile(window.latencyMs, 0.95),
+      ...(hasTtft && {
+        p50TimeToFirstTokenMs: this.percentile(window.timeToFirstTokenMs, 0.5),
+        p95TimeToFirstTokenMs: this.percentile(window.timeToFirstTokenMs, 0.95),
+      }),
+      ...(hasThroughput && {
+        tokensPerSecond: this.percentile(window.tokensPerSecond, 0.5),
+      }),
+    };
+  }
+
+  /**
+   * Statistics for every model with enough samples
+   */
+  getAllStats(): Record<string, LatencyStats> {
+    const result: Record<string, LatencyStats> = {};
+    for (const model of this.windows.keys()) {
+      const stats = this.getStats(model);
+      if (stats) result[model] = stats;
+    }
+    return result;
+  }
+
+  /**
+   * Speed sub-score from time to first token and throughput, weighted by
+   * how many samples back it. Undefined while there's too little data.
+   */
+  getObservedSpeed(profile: ModelProfile): ObservedSpeed | undefined {
+    if (this.config.enabled === false) return undefined;
+
+    const stats = this.getStats(profile.id);
+    if (!stats) return undefined;
+
+    const signals: number[] = [];
+    if (stats.p50TimeToFirstTokenMs !== undefined) {
+      signals.push(
+        1 / (1 + stats.p50TimeToFirstTokenMs / LATENCY_CONFIG.REFERENCE_TTFT_MS)
+      );
+    }
+    if (stats.tokensPerSecond !== undefined) {
+      signals.push(
+        stats.tokensPerSecond /
+          (stats.tokensPerSecond + LATENCY_CONFIG.REFERENCE_TOKENS_PER_SECOND)
+      );
+    }
+    if (signals.length === 0) return undefined;
+
+    return {
+      score: signals.reduce((sum, value) => sum + value, 0) / signals.length,
+      weight:
+        LATENCY_CONFIG.MAX_OBSERVED_WEIGHT *
+        Math.min(1, stats.samples / LATENCY_CONFIG.FULL_WEIGHT_SAMPLES),
+    };
+  }
+
+  /**
+   * Whether a model's p95 latency is within `maxLatencyMs`. Streamed answers
+   * are judged by time to first token when known, others by the whole call;
+   * models without enough samples always pass.
+   */
+  isWithinLatency(
+    profile: ModelProfile,
+    maxLatencyMs: number,
+    streaming: boolean
+  ): boolean {
+    if (this.config.enabled === false) return true;
+
+    const stats = this.getStats(profile.id);
+    if (!stats) return true;
+
+    const p95 = streaming
+      ? (stats.p95TimeToFirstTokenMs ?? stats.p95LatencyMs)
+      : stats.p95LatencyMs;
+    return p95 <= maxLatencyMs;
+  }
+
+  /**
+   * Forget samples for one model, or for every model
+   */
+  reset(model?: string): void {
+    if (model === undefined) {
+      this.windows.clear();
+    } else {
+      this.windows.delete(model);
+    }
+  }
+
+  private push(samples: number[], value: number): void {
+    samples.push(value);
+    const windowSize = this.config.windowSize ?? LATENCY_CONFIG.WINDOW_SIZE;
+    if (samples.length > windowSize) {
+      samples.splice(0, samples.length - windowSize);
+    }
+  }
+
+  private getMinSamples(): number {
+    return this.config.minSamples ?? LATENCY_CONFIG.MIN_SAMPLES;
+  }
+
+  /**
+   * Nearest-rank percentile
+   */
+  private percentile(samples: number[], quantile: number): number {
+    const sorted = [...samples].sort((a, b) => a - b);
+    const index = Math.min(
+      sorted.length - 1,
+      Math.max(0, Math.ceil(quantile * sorted.length) - 1)
+    );
+    return sorted[index] ?? 0;
+  }
+}
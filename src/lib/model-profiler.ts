@@ -6,10 +6,23 @@ import type {
   ModelCapabilities,
   ModelCharacteristics,
   CategoryModelRanking,
+  InputModality,
+  ModelFeatures,
 } from '../types.js';
 
 const logger = new Logger('ModelProfiler');
 
+/**
+ * Input modalities the router understands; other catalog values are ignored
+ */
+const INPUT_MODALITIES = [
+  'text',
+  'image',
+  'file',
+  'audio',
+  'video',
+] as const satisfies readonly InputModality[];
+
 /**
  * Model knowledge database - manually curated profiles for known models
  * This acts as ground truth for model capabilities
@@ -240,6 +253,12 @@ export class ModelProfiler {
       completionCostPerToken: parseFloat(modelInfo.pricing.completion),
       maxCompletionTokens: modelInfo.top_provider.max_completion_tokens || 0,
       isModerated: modelInfo.top_provider.is_moderated,
+      ...(modelInfo.supported_parameters && {
+        supportedParameters: modelInfo.supported_parameters,
+        supportedFeatures: this.buildSupportedFeatures(
+          modelInfo.supported_parameters
+        ),
+      }),
       profileConfidence,
     };
 
@@ -260,7 +279,8 @@ export class ModelProfiler {
       minSpeed?: 'ultra-fast' | 'fast' | 'medium' | 'slow';
       minAccuracy?: 'basic' | 'good' | 'high' | 'excellent';
       needsReasoning?: boolean;
-    }
+    },
+    limit: number = 10
   ): CategoryModelRanking {
     logger.debug(`Ranking ${models.length} models for category: ${category}`);
 
@@ -284,7 +304,7 @@ export class ModelProfiler {
 
     return {
       category,
-      rankedModels: rankedModels.slice(0, 10), // Top 10 models
+      rankedModels: rankedModels.slice(0, limit), // Top 10 models by default
     };
   }
 
@@ -404,6 +424,13 @@ export class ModelProfiler {
     provider: string,
     modelFamily: string
   ): ModelCharacteristics {
+    // Catalog-reported modalities take precedence over ID-based guesses
+    const inputModalities = this.inferInputModalities(
+      modelInfo,
+      knownProfile?.isMultimodal
+    );
+    const isMultimodal = inputModalities.some(modality => modality !== 'text');
+
     // Use known characteristics if available
     if (knownProfile) {
       return {
@@ -418,9 +445,8 @@ export class ModelProfiler {
         isReasoning:
           knownProfile.isReasoning ??
           this.inferReasoningCapability(modelFamily),
-        isMultimodal:
-          knownProfile.isMultimodal ??
-          this.inferMultimodalCapability(modelInfo.id),
+        isMultimodal,
+        inputModalities,
       };
     }
 
@@ -433,7 +459,8 @@ export class ModelProfiler {
       provider,
       modelFamily,
       isReasoning: this.inferReasoningCapability(modelFamily),
-      isMultimodal: this.inferMultimodalCapability(modelInfo.id),
+      isMultimodal,
+      inputModalities,
     };
   }
 
@@ -511,6 +538,46 @@ export class ModelProfiler {
     );
   }
 
+  private static buildSupportedFeatures(
+    supportedParameters: string[]
+  ): ModelFeatures {
+    const parameters = new Set(supportedParameters);
+    return {
+      tools: parameters.has('tools'),
+      toolChoice: parameters.has('tool_choice'),
+      responseFormat: parameters.has('response_format'),
+      structuredOutputs: parameters.has('structured_outputs'),
+      seed: parameters.has('seed'),
+      logprobs: parameters.has('logprobs'),
+    };
+  }
+
+  private static inferInputModalities(
+    modelInfo: ModelInfo,
+    knownMultimodal: boolean | undefined
+  ): InputModality[] {
+    const architecture = modelInfo.architecture;
+
+    // Prefer `input_modalities`, then the legacy 'text+image->text' string
+    const reported =
+      architecture?.input_modalities ??
+      architecture?.modality?.split('->')[0]?.split('+') ??
+      [];
+    const modalities = reported
+      .map(modality => modality.trim().toLowerCase())
+      .filter((modality): modality is InputModality =>
+        (INPUT_MODALITIES as readonly string[]).includes(modality)
+      );
+
+    if (modalities.length > 0) {
+      return [...new Set(modalities)];
+    }
+
+    return (knownMultimodal ?? this.inferMultimodalCapability(modelInfo.id))
+      ? ['text', 'image']
+      : ['text'];
+  }
+
   private static inferMultimodalCapability(modelId: string): boolean {
     const id = modelId.toLowerCase();
     return (
@@ -0,0 +1,258 @@
+import { Logger } from '../utils/logger.js';
+import { ModelProfiler } from './model-profiler.js';
+import type { ObservedSpeed } from './latency-tracker.js';
+import type {
+  ModelProfile,
+  ModelCharacteristics,
+  ModelScore,
+  PromptProperties,
+  PromptType,
+  ScoreAdjustment,
+} from '../types.js';
+
+const logger = new Logger('ModelScorer');
+
+type ScoreDimensions = ModelScore['breakdown'];
+
+/**
+ * Multi-objective scoring configuration
+ */
+const SCORING_CONFIG = {
+  // Accuracy always matters a little, even when properties.accuracy is 0
+  BASE_ACCURACY_WEIGHT: 0.5,
+
+  // Share of the accuracy dimension taken by category capability vs accuracy tier
+  CAPABILITY_SHARE: 0.6,
+
+  // Context headroom is a tie-breaker rather than a primary objective
+  TOKEN_LIMIT_WEIGHT: 0.2,
+
+  // Reasoning weight depending on properties.reasoning
+  REASONING_REQUIRED_WEIGHT: 0.5,
+  REASONING_OPTIONAL_WEIGHT: 0.1,
+
+  // Minimum weight so no objective is ever ignored completely
+  MIN_OBJECTIVE_WEIGHT: 0.05,
+
+  // Average $/1M tokens at which the cost score drops to 0.5
+  COST_REFERENCE_PER_MILLION: 10,
+
+  // Context window (as a multiple of tokenLimit) that earns a full headroom score
+  CONTEXT_HEADROOM_FACTOR: 4,
+
+  // Penalty multiplier for reasoning-required prompts on non-reasoning models
+  NON_REASONING_PENALTY: 0.5,
+} as const;
+
+/**
+ * Normalized value of each characteristic tier (0-1, higher is better)
+ */
+const TIER_SCORES = {
+  accuracy: {
+    basic: 0.4,
+    good: 0.6,
+    high: 0.8,
+    excellent: 1.0,
+  },
+  speed: {
+    'ultra-fast': 1.0,
+    fast: 0.8,
+    medium: 0.55,
+    slow: 0.25,
+  },
+} as const satisfies {
+  accuracy: Record<ModelCharacteristics['accuracyTier'], number>;
+  speed: Record<ModelCharacteristics['speedTier'], number>;
+};
+
+/**
+ * ModelScorer turns model profiles plus the user's PromptProperties into
+ * weighted ModelScore breakdowns - no network calls involved
+ */
+export class ModelScorer {
+  /**
+   * Score and rank models for a category, best first. `getAdjustments` adds
+   * bonuses/penalties (e.g. preferred providers) on top of the weighted score;
+   * `getObservedSpeed` blends measured latency into the speed tier heuristic.
+   */
+  static scoreModels(
+    models: ModelProfile[],
+    category: PromptType,
+    properties: PromptProperties,
+    getAdjustments?: (model: ModelProfile) => ScoreAdjustment[],
+    getObservedSpeed?: (model: ModelProfile) => ObservedSpeed | undefined
+  ): ModelScore[] {
+    // Category suitability from the profiler (capability, tiers, confidence)
+    const ranking = ModelProfiler.rankModelsForCategory(
+      models,
+      category,
+      undefined,
+      models.length
+    );
+
+    const weights = this.calculateWeights(properties);
+
+    const scores = ranking.rankedModels
+      .map(({ model, score: capabilityScore }) => {
+        const breakdown = this.calculateBreakdown(
+          model,
+          capabilityScore,
+          properties,
+          getObservedSpeed?.(model)
+        );
+        const weightedScore = (
+          Object.keys(breakdown) as (keyof ScoreDimensions)[]
+        )
+          .map(dimension => breakdown[dimension] * weights[dimension])
+          .reduce((sum, value) => sum + value, 0);
+
+        const adjustments = getAdjustments?.(model) ?? [];
+        const score = adjustments.reduce(
+          (sum, adjustment) => sum + adjustment.value,
+          weightedScore
+        );
+
+        return {
+          model,
+          score: this.clamp(score),
+          breakdown,
+          weights,
+          adjustments,
+          reasoning: this.generateReasoning(breakdown, weights, adjustments),
+        };
+      })
+      .sort((a, b) => b.score - a.score);
+
+    logger.debug(
+      `Scored ${scores.length} models for ${category}`,
+      scores.slice(0, 3).map(s => ({
+        model: s.model.id,
+        score: Number(s.score.toFixed(3)),
+      }))
+    );
+
+    return scores;
+  }
+
+  /**
+   * Per-dimension sub-scores (0-1, higher is better)
+   */
+  private static calculateBreakdown(
+    model: ModelProfile,
+    capabilityScore: number,
+    properties: PromptProperties,
+    observedSpeed: ObservedSpeed | undefined
+  ): ScoreDimensions {
+    const accuracy =
+      capabilityScore * SCORING_CONFIG.CAPABILITY_SHARE +
+      TIER_SCORES.accuracy[model.characteristics.accuracyTier] *
+        (1 - SCORING_CONFIG.CAPABILITY_SHARE);
+
+    // Smooth curve over the average per-token price: free = 1, reference price = 0.5
+    const averagePerMillion =
+      ((model.promptCostPerToken + model.completionCostPerToken) / 2) *
+      1_000_000;
+    const cost =
+      averagePerMillion > 0
+        ? 1 /
+          (1 + averagePerMillion / SCORING_CONFIG.COST_REFERENCE_PER_MILLION)
+        : 1;
+
+    // Name-based tier, increasingly replaced by measured speed as samples accumulate
+    const tierSpeed = TIER_SCORES.speed[model.characteristics.speedTier];
+    const speed = observedSpeed
+      ? tierSpeed * (1 - observedSpeed.weight) +
+        observedSpeed.score * observedSpeed.weight
+      : tierSpeed;
+
+    // Headroom between the context window and the tokens the user needs
+    let tokenLimit = 1;
+    if (properties.tokenLimit > 0) {
+      tokenLimit = Math.min(
+        1,
+        model.contextLength /
+          (properties.tokenLimit * SCORING_CONFIG.CONTEXT_HEADROOM_FACTOR)
+      );
+      if (
+        model.maxCompletionTokens &&
+        model.maxCompletionTokens < properties.tokenLimit
+      ) {
+        tokenLimit *= model.maxCompletionTokens / properties.tokenLimit;
+      }
+    }
+
+    let reasoning = model.capabilities.reasoning;
+    if (properties.reasoning && !model.characteristics.isReasoning) {
+      reasoning *= SCORING_CONFIG.NON_REASONING_PENALTY;
+    }
+
+    return {
+      accuracy: this.clamp(accuracy),
+      cost: this.clamp(cost),
+      speed: this.clamp(speed),
+      tokenLimit: this.clamp(tokenLimit),
+      reasoning: this.clamp(reasoning),
+    };
+  }
+
+  /**
+   * Turn user priorities into normalized objective weights (sum to 1)
+   */
+  private static calculateWeights(
+    properties: PromptProperties
+  ): ScoreDimensions {
+    const floor = (value: number) =>
+      Math.max(SCORING_CONFIG.MIN_OBJECTIVE_WEIGHT, value);
+
+    const raw: ScoreDimensions = {
+      accuracy: floor(
+        SCORING_CONFIG.BASE_ACCURACY_WEIGHT + this.clamp(properties.accuracy)
+      ),
+      // cost: 0 = cost matters, 1 = cost doesn't matter
+      cost: floor(1 - this.clamp(properties.cost)),
+      speed: floor(this.clamp(properties.speed)),
+      tokenLimit: SCORING_CONFIG.TOKEN_LIMIT_WEIGHT,
+      reasoning: properties.reasoning
+        ? SCORING_CONFIG.REASONING_REQUIRED_WEIGHT
+        : SCORING_CONFIG.REASONING_OPTIONAL_WEIGHT,
+    };
+
+    const total =
+      raw.accuracy + raw.cost + raw.speed + raw.tokenLimit + raw.reasoning;
+
+    return {
+      accuracy: raw.accuracy / total,
+      cost: raw.cost / total,
+      speed: raw.speed / total,
+      tokenLimit: raw.tokenLimit / total,
+      reasoning: raw.reasoning / total,
+    };
+  }
+
+  /**
+   * Summarize the dimensions that contributed most to the score
+   */
+  private static generateReasoning(
+    breakdown: ScoreDimensions,
+    weights: ScoreDimensions,
+    adjustments: ScoreAdjustment[]
+  ): string {
+    return [
+      ...(Object.keys(breakdown) as (keyof ScoreDimensions)[])
+        .sort((a, b) => breakdown[b] * weights[b] - breakdown[a] * weights[a])
+        .slice(0, 3)
+        .map(
+          dimension =>
+            `${dimension} ${(breakdown[dimension] * 100).toFixed(0)}% (weight ${(weights[dimension] * 100).toFixed(0)}%)`
+        ),
+      ...adjustments.map(
+        adjustment =>
+          `${adjustment.source} ${adjustment.value >= 0 ? '+' : ''}${adjustment.value.toFixed(2)}`
+      ),
+    ].join(', ');
+  }
+
+  private static clamp(value: number): number {
+    return Math.max(0, Math.min(1, value));
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Pending selection defaults
+ */
+const PENDING_SELECTIONS_CONFIG = {
+  // Selections kept per tracker; the oldest are forgotten first
+  MAX_SIZE: 1000,
+} as const;
+
+/**
+ * Selections still awaiting an outcome or rating, keyed by selection ID.
+ * Bounded so untracked calls cannot grow it forever: beyond the limit the
+ * oldest selection is forgotten.
+ */
+export class PendingSelections<T> {
+  private readonly entries = new Map<string, T>();
+
+  /**
+   * Remember a selection, forgetting the oldest one when full
+   */
+  set(selectionId: string, value: T): void {
+    this.entries.set(selectionId, value);
+
+    if (this.entries.size > PENDING_SELECTIONS_CONFIG.MAX_SIZE) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) this.entries.delete(oldest);
+    }
+  }
+
+  get(selectionId: string): T | undefined {
+    return this.entries.get(selectionId);
+  }
+
+  /**
+   * Get a selection and forget it, so it can only be resolved once
+   */
+  take(selectionId: string): T | undefined {
+    const value = this.entries.get(selectionId);
+    this.entries.delete(selectionId);
+    return value;
+  }
+
+  delete(selectionId: string): void {
+    this.entries.delete(selectionId);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
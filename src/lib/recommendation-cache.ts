@@ -0,0 +1,273 @@
+import { createHash } from 'node:crypto';
+import { Logger } from '../utils/logger.js';
+import { RequestAbortedError } from '../errors.js';
+import { semanticEmbedder } from './semantic-embedder.js';
+import type { Conversation } from './conversation.js';
+import type {
+  ModelSelection,
+  PromptProperties,
+  RecommendationCacheConfig,
+  RecommendationCacheStats,
+  RecommendationOptions,
+} from '../types.js';
+
+const logger = new Logger('RecommendationCache');
+
+/**
+ * Recommendation cache defaults (overridable through RecommendationCacheConfig)
+ */
+const RECOMMENDATION_CACHE_CONFIG = {
+  SIMILARITY_THRESHOLD: 0.95,
+  TTL_MS: 30 * 60 * 1000,
+  MAX_ENTRIES: 1000,
+  PROPERTY_STEPS: 10,
+
+  // The encoder may still be downloading; routing doesn't wait for it
+  EMBEDDING_TIMEOUT_MS: 5000,
+  // After a failed or slow embedding, lookups are skipped for this long
+  EMBEDDING_RETRY_MS: 60 * 1000,
+} as const;
+
+/**
+ * What a lookup is matched on: requirements that must be identical, and the
+ * prompt embedding that only has to be similar
+ */
+export interface RecommendationCacheKey {
+  context: string; // Quantized properties and request options
+  embedding: number[];
+}
+
+interface CacheEntry {
+  context: string;
+  embedding: number[];
+  selection: ModelSelection;
+  catalogVersion: string;
+  createdAt: number;
+}
+
+/**
+ * Reuses selections for near-duplicate prompts: same quantized properties
+ * and options, cosine similarity of the latest user turn above a threshold,
+ * and an unchanged catalog. Saves the classification and the selector call.
+ */
+export class RecommendationCache {
+  private config: RecommendationCacheConfig;
+  private readonly entries = new Map<string, CacheEntry>(); // Selection ID -> entry, oldest first
+  private hits = 0;
+  private misses = 0;
+  private embeddingUnavailableUntil = 0;
+
+  constructor(config: RecommendationCacheConfig = {}) {
+    this.config = config;
+  }
+
+  /**
+   * Apply new settings; cached selections are dropped because they were
+   * made under the previous router configuration
+   */
+  configure(config: RecommendationCacheConfig = {}): void {
+    this.config = config;
+    this.clear();
+  }
+
+  isEnabled(): boolean {
+    return this.config.enabled === true;
+  }
+
+  /**
+   * Build the lookup key; undefined when the prompt can't be embedded in
+   * time. Rejects with RequestAbortedError when `options.signal` aborts.
+   */
+  async createKey(
+    conversation: Conversation,
+    properties: PromptProperties,
+    options: RecommendationOptions
+  ): Promise<RecommendationCacheKey | undefined> {
+    if (Date.now() < this.embeddingUnavailableUntil) return undefined;
+
+    const { signal } = options;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let onAbort: (() => void) | undefined;
+    const interrupted = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () =>
+          reject(
+            new Error(
+              `Prompt embedding timed out after ${RECOMMENDATION_CACHE_CONFIG.EMBEDDING_TIMEOUT_MS}ms`
+            )
+          ),
+        RECOMMENDATION_CACHE_CONFIG.EMBEDDING_TIMEOUT_MS
+      );
+      onAbort = () => reject(new RequestAbortedError(signal?.reason));
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+
+    try {
+      RequestAbortedError.throwIfAborted(signal);
+      const embedding = await Promise.race([
+        semanticEmbedder.getEmbedding(conversation.latestUserPrompt),
+        interrupted,
+      ]);
+      return {
+        context: this.getContext(conversation, properties, options),
+        embedding,
+      };
+    } catch (error) {
+      if (error instanceof RequestAbortedError) throw error;
+
+      this.embeddingUnavailableUntil =
+        Date.now() + RECOMMENDATION_CACHE_CONFIG.EMBEDDING_RETRY_MS;
+      logger.warn(
+        `Prompt embedding unavailable, skipping the cache for ${RECOMMENDATION_CACHE_CONFIG.EMBEDDING_RETRY_MS}ms: ${error instanceof Error ? error.message : 'unknown error'}`
+      );
+      return undefined;
+    } finally {
+      clearTimeout(timer);
+      if (onAbort) signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  /**
+   * Most similar cached selection above the threshold, made against the
+   * same catalog, not expired and accepted by `isUsable`
+   */
+  get(
+    key: RecommendationCacheKey,
+    catalogVersion: string,
+    isUsable: (selection: ModelSelection) => boolean = () => true
+  ): { selection: ModelSelection; similarity: number } | undefined {
+    const now = Date.now();
+    const ttlMs = this.config.ttlMs ?? RECOMMENDATION_CACHE_CONFIG.TTL_MS;
+    const threshold =
+      this.config.similarityThreshold ??
+      RECOMMENDATION_CACHE_CONFIG.SIMILARITY_THRESHOLD;
+
+    let best: { entry: CacheEntry; similarity: number } | undefined;
+    for (const [id, entry] of this.entries) {
+      if (
+        now - entry.createdAt > ttlMs ||
+        entry.catalogVersion !== catalogVersion
+      ) {
+        this.entries.delete(id);
+        continue;
+      }
+      if (entry.context !== key.context) continue;
+
+      const similarity = semanticEmbedder.cosineSimilarity(
+        key.embedding,
+        entry.embedding
+      );
+      if (
+        similarity >= threshold &&
+        similarity > (best?.similarity ?? -1) &&
+        isUsable(entry.selection)
+      ) {
+        best = { entry, similarity };
+      }
+    }
+
+    if (!best) {
+      this.misses++;
+      return undefined;
+    }
+
+    this.hits++;
+    return {
+      selection: this.copy(best.entry.selection),
+      similarity: best.similarity,
+    };
+  }
+
+  /**
+   * Remember a selection for later near-duplicates
+   */
+  set(
+    key: RecommendationCacheKey,
+    selection: ModelSelection,
+    catalogVersion: string
+  ): void {
+    this.entries.set(selection.id, {
+      context: key.context,
+      embedding: key.embedding,
+      selection: this.copy(selection),
+      catalogVersion,
+      createdAt: Date.now(),
+    });
+
+    const maxEntries =
+      this.config.maxEntries ?? RECOMMENDATION_CACHE_CONFIG.MAX_ENTRIES;
+    while (this.entries.size > maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  getStats(): RecommendationCacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      entries: this.entries.size,
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups > 0 ? this.hits / lookups : 0,
+    };
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.hits = 0;
+    this.misses = 0;
+  }
+
+  // Callers may modify the selections they get back
+  private copy(selection: ModelSelection): ModelSelection {
+    return {
+      ...selection,
+      category: { ...selection.category },
+      alternatives: selection.alternatives.map(alternative => ({
+        ...alternative,
+      })),
+      scores: [...selection.scores],
+      appliedRules: [...selection.appliedRules],
+    };
+  }
+
+  /**
+   * Everything besides the prompt text that can change the decision. Scalar
+   * priorities are rounded; token counts are bucketed by powers of two.
+   */
+  private getContext(
+    conversation: Conversation,
+    properties: PromptProperties,
+    options: RecommendationOptions
+  ): string {
+    const steps =
+      this.config.propertySteps ?? RECOMMENDATION_CACHE_CONFIG.PROPERTY_STEPS;
+    const quantize = (value: number): number => Math.round(value * steps);
+    const bucket = (tokens: number): number =>
+      Math.ceil(Math.log2(Math.max(1, tokens)));
+
+    return JSON.stringify([
+      quantize(properties.accuracy),
+      quantize(properties.cost),
+      quantize(properties.speed),
+      bucket(properties.tokenLimit),
+      bucket(conversation.estimatedTokens),
+      properties.reasoning ?? null,
+      properties.requiresTools ?? false,
+      properties.requiresJsonSchema ?? false,
+      [...(properties.requiredParameters ?? [])].sort(),
+      properties.maxLatencyMs ?? null,
+      options.category ?? null,
+      options.constraints ?? null,
+      [
+        ...new Set([
+          ...conversation.inputModalities,
+          ...(options.attachments ?? []).map(attachment => attachment.type),
+        ]),
+      ].sort(),
+      // The system prompt sets the task, so it has to match exactly
+      createHash('sha256').update(conversation.systemPrompt).digest('hex'),
+    ]);
+  }
+}
@@ -0,0 +1,349 @@
+import { z } from 'zod';
+import { Logger } from '../utils/logger.js';
+import { formatZodIssues } from '../utils/zod.js';
+import { ConstraintFilter } from './constraints.js';
+import { RouterError } from '../errors.js';
+import { PromptType } from '../types.js';
+import type {
+  ModelMatcher,
+  ModelProfile,
+  NumberCondition,
+  PromptCategory,
+  PromptProperties,
+  RoutingConstraints,
+  RoutingRule,
+  ScoreAdjustment,
+} from '../types.js';
+
+const logger = new Logger('RoutingRules');
+
+const numberConditionSchema = z
+  .object({
+    lt: z.number().optional(),
+    lte: z.number().optional(),
+    gt: z.number().optional(),
+    gte: z.number().optional(),
+  })
+  .strict();
+
+export const routingConstraintsSchema = z
+  .object({
+    allowedProviders: z.array(z.string()).optional(),
+    blockedProviders: z.array(z.string()).optional(),
+    allowedModels: z.array(z.string()).optional(),
+    blockedModels: z.array(z.string()).optional(),
+    moderatedOnly: z.boolean().optional(),
+    preferredProviders: z.array(z.string()).optional(),
+    preferredProviderBoost: z.number().min(0).max(1).optional(),
+  })
+  .strict();
+
+const modelMatcherShape = {
+  models: z.array(z.string().min(1)).optional(),
+  providers: z.array(z.string().min(1)).optional(),
+  costTiers: z
+    .array(z.enum(['free', 'cheap', 'moderate', 'expensive', 'premium']))
+    .optional(),
+  speedTiers: z
+    .array(z.enum(['ultra-fast', 'fast', 'medium', 'slow']))
+    .optional(),
+  accuracyTiers: z
+    .array(z.enum(['basic', 'good', 'high', 'excellent']))
+    .optional(),
+};
+
+const ruleActionSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('pin'), model: z.string().min(1) }).strict(),
+  z.object({ action: z.literal('exclude'), ...modelMatcherShape }).strict(),
+  z
+    .object({
+      action: z.literal('boost'),
+      value: z.number().min(-1).max(1),
+      ...modelMatcherShape,
+    })
+    .strict(),
+  z
+    .object({
+      action: z.literal('constrain'),
+      constraints: routingConstraintsSchema,
+    })
+    .strict(),
+]);
+
+const routingRuleSchema = z
+  .object({
+    id: z.string().trim().min(1, 'id must be a non-empty string'),
+    description: z.string().optional(),
+    when: z
+      .object({
+        category: z
+          .union([z.enum(PromptType), z.array(z.enum(PromptType))])
+          .optional(),
+        promptMatches: z.string().optional(),
+        promptMatchFlags: z.string().optional(),
+        accuracy: numberConditionSchema.optional(),
+        cost: numberConditionSchema.optional(),
+        speed: numberConditionSchema.optional(),
+        tokenLimit: numberConditionSchema.optional(),
+        reasoning: z.boolean().optional(),
+      })
+      .strict()
+      .refine(
+        when => {
+          if (when.promptMatches === undefined) return true;
+          try {
+            new RegExp(when.promptMatches, when.promptMatchFlags);
+            return true;
+          } catch {
+            return false;
+          }
+        },
+        { message: 'promptMatches must be a valid regular expression' }
+      )
+      .optional(),
+    then: ruleActionSchema,
+  })
+  .strict();
+
+export const routingRulesSchema = z
+  .array(routingRuleSchema)
+  .refine(rules => new Set(rules.map(rule => rule.id)).size === rules.length, {
+    message: 'rule ids must be unique',
+  });
+
+/**
+ * Outcome of evaluating the rules for one request
+ */
+export interface RuleEvaluation {
+  appliedRules: string[]; // IDs of rules whose conditions matched, in order
+  pinnedModel?: { model: string; ruleId: string }; // First matching pin
+  constraints: RoutingConstraints[];
+  exclusions: ModelMatcher[];
+  boosts: { ruleId: string; matcher: ModelMatcher; value: number }[];
+}
+
+/**
+ * Context a rule condition is evaluated against
+ */
+export interface RuleContext {
+  prompt: string;
+  category: PromptCategory;
+  properties: PromptProperties;
+}
+
+/**
+ * Evaluates declarative RoutingRules between classification and selection
+ */
+export class RoutingRulesEngine {
+  private readonly rules: RoutingRule[];
+  private readonly patterns = new Map<string, RegExp>();
+
+  constructor(rules: unknown[] = []) {
+    this.rules = RoutingRulesEngine.validate(rules);
+
+    for (const rule of this.rules) {
+      if (rule.when?.promptMatches !== undefined) {
+        this.patterns.set(
+          rule.id,
+          new RegExp(rule.when.promptMatches, rule.when.promptMatchFlags)
+        );
+      }
+    }
+  }
+
+  /**
+   * Validate rules (e.g. parsed from JSON); throws with every issue found
+   */
+  static validate(rules: unknown): RoutingRule[] {
+    const result = routingRulesSchema.safeParse(rules);
+    if (!result.success) {
+      throw new RouterError(
+        `Invalid routing rules: ${formatZodIssues(result.error)}`,
+        'INVALID_CONFIG',
+        { cause: result.error }
+      );
+    }
+
+    return result.data as RoutingRule[];
+  }
+
+  /**
+   * Collect the actions of every rule whose conditions match
+   */
+  evaluate(context: RuleContext): RuleEvaluation {
+    const evaluation: RuleEvaluation = {
+      appliedRules: [],
+      constraints: [],
+      exclusions: [],
+      boosts: [],
+    };
+
+    for (const rule of this.rules) {
+      if (!this.matches(rule, context)) continue;
+
+      const action = rule.then;
+      switch (action.action) {
+        case 'pin':
+          // Earlier pins win; later ones are ignored entirely
+          if (evaluation.pinnedModel) continue;
+          evaluation.pinnedModel = { model: action.model, ruleId: rule.id };
+          break;
+        case 'exclude':
+          evaluation.exclusions.push(action);
+          break;
+        case 'boost':
+          evaluation.boosts.push({
+            ruleId: rule.id,
+            matcher: action,
+            value: action.value,
+          });
+          break;
+        case 'constrain':
+          evaluation.constraints.push(action.constraints);
+          // Preferred providers don't filter; they boost like a boost rule
+          if (action.constraints.preferredProviders) {
+            evaluation.boosts.push({
+              ruleId: rule.id,
+              matcher: { providers: action.constraints.preferredProviders },
+              value: ConstraintFilter.getPreferredProviderBoost(
+                action.constraints
+              ),
+            });
+          }
+          break;
+      }
+
+      evaluation.appliedRules.push(rule.id);
+    }
+
+    if (evaluation.appliedRules.length > 0) {
+      logger.debug(
+        `Routing rules fired: ${evaluation.appliedRules.join(', ')}`
+      );
+    }
+
+    return evaluation;
+  }
+
+  /**
+   * Remove models excluded or disallowed by the evaluated rules
+   */
+  static filter(
+    profiles: ModelProfile[],
+    evaluation: RuleEvaluation
+  ): ModelProfile[] {
+    return ConstraintFilter.apply(profiles, evaluation.constraints).filter(
+      profile =>
+        !evaluation.exclusions.some(matcher =>
+          this.matchesModel(profile, matcher)
+        )
+    );
+  }
+
+  /**
+   * Score adjustments from boost rules matching a profile
+   */
+  static getAdjustments(
+    profile: ModelProfile,
+    evaluation: RuleEvaluation
+  ): ScoreAdjustment[] {
+    return evaluation.boosts
+      .filter(boost => this.matchesModel(profile, boost.matcher))
+      .map(boost => ({ source: `rule:${boost.ruleId}`, value: boost.value }));
+  }
+
+  /**
+   * Check a profile against a ModelMatcher (an empty matcher matches all)
+   */
+  static matchesModel(profile: ModelProfile, matcher: ModelMatcher): boolean {
+    const { characteristics } = profile;
+
+    if (
+      matcher.models &&
+      !matcher.models.some(glob =>
+        ConstraintFilter.matchesGlob(profile.id, glob)
+      )
+    ) {
+      return false;
+    }
+    if (
+      matcher.providers &&
+      !matcher.providers.some(
+        provider =>
+          provider.toLowerCase() === characteristics.provider.toLowerCase()
+      )
+    ) {
+      return false;
+    }
+    if (
+      matcher.costTiers &&
+      !matcher.costTiers.includes(characteristics.costTier)
+    ) {
+      return false;
+    }
+    if (
+      matcher.speedTiers &&
+      !matcher.speedTiers.includes(characteristics.speedTier)
+    ) {
+      return false;
+    }
+    if (
+      matcher.accuracyTiers &&
+      !matcher.accuracyTiers.includes(characteristics.accuracyTier)
+    ) {
+      return false;
+    }
+
+    return true;
+  }
+
+  private matches(rule: RoutingRule, context: RuleContext): boolean {
+    const when = rule.when;
+    if (!when) return true;
+
+    const { properties } = context;
+
+    if (when.category !== undefined) {
+      const categories = Array.isArray(when.category)
+        ? when.category
+        : [when.category];
+      if (!categories.includes(context.category.type)) return false;
+    }
+
+    const pattern = this.patterns.get(rule.id);
+    if (pattern) {
+      // Reset state for global/sticky patterns
+      pattern.lastIndex = 0;
+      if (!pattern.test(context.prompt)) return false;
+    }
+
+    // Omitted `reasoning` means reasoning isn't required
+    if (
+      when.reasoning !== undefined &&
+      when.reasoning !== (properties.reasoning ?? false)
+    ) {
+      return false;
+    }
+
+    return (
+      this.matchesNumber(properties.accuracy, when.accuracy) &&
+      this.matchesNumber(properties.cost, when.cost) &&
+      this.matchesNumber(properties.speed, when.speed) &&
+      this.matchesNumber(properties.tokenLimit, when.tokenLimit)
+    );
+  }
+
+  private matchesNumber(
+    value: number,
+    condition: NumberCondition | undefined
+  ): boolean {
+    if (!condition) return true;
+
+    return (
+      (condition.lt === undefined || value < condition.lt) &&
+      (condition.lte === undefined || value <= condition.lte) &&
+      (condition.gt === undefined || value > condition.gt) &&
+      (condition.gte === undefined || value >= condition.gte)
+    );
+  }
+}
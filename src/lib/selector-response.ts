@@ -0,0 +1,115 @@
+import { z } from 'zod';
+import { Logger } from '../utils/logger.js';
+import { formatZodIssues } from '../utils/zod.js';
+
+const logger = new Logger('SelectorResponse');
+
+/**
+ * Shape the selector LLM must respond with
+ */
+const selectorResponseSchema = z.object({
+  model: z.string().trim().min(1, 'model must be a non-empty model ID'),
+  reason: z.string().trim().min(1, 'reason must be a non-empty string'),
+  confidence: z
+    .number('confidence must be a number')
+    .min(0, 'confidence must be between 0 and 1')
+    .max(1, 'confidence must be between 0 and 1'),
+});
+
+export type SelectorResponse = z.infer<typeof selectorResponseSchema>;
+
+export type SelectorParseResult =
+  | { success: true; data: SelectorResponse }
+  | { success: false; error: string };
+
+/**
+ * Validates selector LLM output: tolerant JSON extraction, schema validation
+ * and a check that the chosen model is one of the offered candidates
+ */
+export class SelectorResponseParser {
+  /**
+   * Parse and validate raw selector output against the candidate model IDs
+   */
+  static parse(content: string, candidateIds: string[]): SelectorParseResult {
+    const json = this.extractJson(content);
+    if (!json) {
+      return {
+        success: false,
+        error: 'response did not contain a JSON object',
+      };
+    }
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(json);
+    } catch (error) {
+      return {
+        success: false,
+        error: `invalid JSON: ${error instanceof Error ? error.message : 'parse error'}`,
+      };
+    }
+
+    const result = selectorResponseSchema.safeParse(raw);
+    if (!result.success) {
+      return {
+        success: false,
+        error: formatZodIssues(result.error),
+      };
+    }
+
+    // Map to the canonical candidate ID (selectors sometimes change the case)
+    const modelId = result.data.model;
+    const candidateId =
+      candidateIds.find(id => id === modelId) ??
+      candidateIds.find(id => id.toLowerCase() === modelId.toLowerCase());
+
+    if (!candidateId) {
+      return {
+        success: false,
+        error: `model "${modelId}" is not one of the available model IDs`,
+      };
+    }
+
+    if (candidateId !== modelId) {
+      logger.debug(`Normalized selector model ID ${modelId} → ${candidateId}`);
+    }
+
+    return { success: true, data: { ...result.data, model: candidateId } };
+  }
+
+  /**
+   * Pull the first JSON object out of the response, ignoring code fences and
+   * any prose around it
+   */
+  static extractJson(content: string): string | null {
+    const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/i);
+    const text = fenced?.[1] ?? content;
+
+    const start = text.indexOf('{');
+    if (start === -1) return null;
+
+    // Walk to the matching closing brace, respecting strings
+    let depth = 0;
+    let inString = false;
+    let escaped = false;
+    for (let i = start; i < text.length; i++) {
+      const char = text[i];
+
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (char === '\\') escaped = true;
+        else if (char === '"') inString = false;
+        continue;
+      }
+
+      if (char === '"') inString = true;
+      else if (char === '{') depth++;
+      else if (char === '}') {
+        depth--;
+        if (depth === 0) return text.slice(start, i + 1);
+      }
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,122 @@
+import type { ModelProfile } from '../types.js';
+
+/**
+ * Token estimation configuration (approximations, no tokenizer downloads)
+ */
+const TOKEN_ESTIMATION_CONFIG = {
+  // Characters per token for Latin text when the model family is unknown
+  DEFAULT_CHARS_PER_TOKEN: 4,
+
+  // Per-message token overhead of chat formatting (role markers, separators)
+  MESSAGE_OVERHEAD_TOKENS: 4,
+
+  // Non-ASCII text (CJK, emoji, ...) tokenizes far denser than English
+  WIDE_CHAR_TOKENS: 1,
+
+  // Safety margin on the prompt estimate before comparing against context windows
+  FIT_SAFETY_MARGIN: 1.1,
+} as const;
+
+/**
+ * Average characters per token by model family, matched against the model ID
+ * in order (first match wins)
+ */
+const FAMILY_CHARS_PER_TOKEN: readonly { pattern: RegExp; ratio: number }[] = [
+  { pattern: /gpt-4o|gpt-4\.1|gpt-5|\/o[134]|gpt-oss/, ratio: 4.2 }, // o200k vocabulary
+  { pattern: /gpt-4|gpt-3/, ratio: 4.0 }, // cl100k vocabulary
+  { pattern: /claude/, ratio: 3.5 },
+  { pattern: /gemini|gemma/, ratio: 4.0 },
+  { pattern: /llama-?[34]/, ratio: 3.8 },
+  { pattern: /llama|mistral|mixtral|codestral/, ratio: 3.3 }, // 32k vocabularies
+  { pattern: /qwen|deepseek/, ratio: 3.7 },
+];
+
+/**
+ * Character counts of a text, measured once and reused per model
+ */
+export interface TextStats {
+  asciiChars: number;
+  wideChars: number; // Non-ASCII characters
+  messageCount: number;
+}
+
+/**
+ * Approximate per-model token counting and context window fit checks
+ */
+export class TokenEstimator {
+  /**
+   * Measure the characters of a text, or of per-message texts of a conversation
+   */
+  static measure(input: string | string[]): TextStats {
+    const texts = typeof input === 'string' ? [input] : input;
+
+    let asciiChars = 0;
+    let wideChars = 0;
+    for (const text of texts) {
+      for (let i = 0; i < text.length; i++) {
+        if (text.charCodeAt(i) < 128) asciiChars++;
+        else wideChars++;
+      }
+    }
+
+    return {
+      asciiChars,
+      wideChars,
+      messageCount: typeof input === 'string' ? 0 : input.length,
+    };
+  }
+
+  /**
+   * Estimate tokens for measured text, using the model family's ratio when
+   * a model ID is given
+   */
+  static estimate(stats: TextStats, modelId?: string): number {
+    const ratio = modelId
+      ? this.getCharsPerToken(modelId)
+      : TOKEN_ESTIMATION_CONFIG.DEFAULT_CHARS_PER_TOKEN;
+
+    return Math.ceil(
+      stats.asciiChars / ratio +
+        stats.wideChars * TOKEN_ESTIMATION_CONFIG.WIDE_CHAR_TOKENS +
+        stats.messageCount * TOKEN_ESTIMATION_CONFIG.MESSAGE_OVERHEAD_TOKENS
+    );
+  }
+
+  /**
+   * Check whether a model can hold the prompt plus `completionTokens` of output.
+   * Unknown limits (0) are treated as fitting.
+   */
+  static fits(
+    model: ModelProfile,
+    stats: TextStats,
+    completionTokens: number
+  ): boolean {
+    const output = Math.max(0, completionTokens);
+
+    if (model.maxCompletionTokens && output > model.maxCompletionTokens) {
+      return false;
+    }
+
+    if (model.contextLength > 0) {
+      const required =
+        Math.ceil(
+          this.estimate(stats, model.id) *
+            TOKEN_ESTIMATION_CONFIG.FIT_SAFETY_MARGIN
+        ) + output;
+      if (required > model.contextLength) return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Average characters per token for a model ID
+   */
+  static getCharsPerToken(modelId: string): number {
+    const id = modelId.toLowerCase();
+    return (
+      FAMILY_CHARS_PER_TOKEN.find(({ pattern }) => pattern.test(id))?.ratio ??
+      TOKEN_ESTIMATION_CONFIG.DEFAULT_CHARS_PER_TOKEN
+    );
+  }
+}
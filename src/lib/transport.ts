@@ -0,0 +1,406 @@
+import { setTimeout as sleep } from 'node:timers/promises';
+import { Logger } from '../utils/logger.js';
+import {
+  RequestAbortedError,
+  RouterError,
+  type RouterErrorCode,
+} from '../errors.js';
+import type {
+  ChatCompletionChunk,
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  ModelInfo,
+  RequestControl,
+  TransportConfig,
+} from '../types.js';
+
+const logger = new Logger('Transport');
+
+const DEFAULT_BASE_URL = 'https://openrouter.ai/api/v1';
+
+/**
+ * Request control plus a hook called as each attempt (including retries) is
+ * sent, so callers can time the attempt that succeeded without the backoff
+ */
+export interface TransportRequestControl extends RequestControl {
+  onAttempt?: () => void;
+}
+
+/**
+ * Timeout and retry defaults (overridable through TransportConfig)
+ */
+const TRANSPORT_CONFIG = {
+  TIMEOUT_MS: 30_000,
+  MAX_RETRIES: 2,
+  BASE_DELAY_MS: 500,
+  MAX_DELAY_MS: 10_000,
+} as const;
+
+// Abort signal for a single attempt plus its cleanup
+interface AttemptSignal {
+  signal: AbortSignal;
+  timedOut: () => boolean;
+  clearTimer: () => void; // Stop the timeout once the response has arrived
+  release: () => void; // Also unlink from the caller's signal
+}
+
+/**
+ * Error raised for failed transport requests, carrying the HTTP status when known
+ */
+export class TransportError extends RouterError {
+  readonly status: number | undefined;
+
+  constructor(
+    message: string,
+    status?: number,
+    cause?: unknown,
+    code: RouterErrorCode = 'TRANSPORT_ERROR'
+  ) {
+    super(message, code, {
+      cause,
+      ...(status !== undefined && { context: { status } }),
+    });
+    this.name = 'TransportError';
+    this.status = status;
+  }
+}
+
+/**
+ * A request got no response within its timeout (after all retries)
+ */
+export class RequestTimeoutError extends TransportError {
+  readonly timeoutMs: number;
+
+  constructor(url: string, timeoutMs: number) {
+    super(
+      `Request to ${url} timed out after ${timeoutMs}ms`,
+      undefined,
+      undefined,
+      'REQUEST_TIMEOUT'
+    );
+    this.name = 'RequestTimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * OpenAI-compatible HTTP transport used for catalog and chat completion calls.
+ * Defaults to OpenRouter, but any server exposing `/models` and
+ * `/chat/completions` (llama.cpp, Ollama, vLLM, a proxy, a test fake) works.
+ */
+export class OpenAICompatibleTransport {
+  private readonly baseUrl: string;
+  private readonly headers: Record<string, string>;
+  private readonly fetchImpl: typeof fetch;
+  private readonly timeoutMs: number;
+  private readonly maxRetries: number;
+  private readonly baseDelayMs: number;
+  private readonly maxDelayMs: number;
+
+  constructor(apiKey: string, config: TransportConfig = {}) {
+    this.baseUrl = (config.baseUrl ?? DEFAULT_BASE_URL).replace(/\/+$/, '');
+    this.headers = {
+      'Content-Type': 'application/json',
+      ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+      ...config.headers,
+    };
+    // Resolve the global lazily so fetch can be swapped after construction
+    this.fetchImpl = config.fetch ?? ((input, init) => fetch(input, init));
+    this.timeoutMs = config.timeoutMs ?? TRANSPORT_CONFIG.TIMEOUT_MS;
+    this.maxRetries = config.retry?.maxRetries ?? TRANSPORT_CONFIG.MAX_RETRIES;
+    this.baseDelayMs =
+      config.retry?.baseDelayMs ?? TRANSPORT_CONFIG.BASE_DELAY_MS;
+    this.maxDelayMs = config.retry?.maxDelayMs ?? TRANSPORT_CONFIG.MAX_DELAY_MS;
+  }
+
+  /**
+   * Fetch the model catalog (`GET /models`)
+   */
+  async listModels(control: RequestControl = {}): Promise<ModelInfo[]> {
+    const data = await this.requestJson<{ data?: ModelInfo[] }>(
+      '/models',
+      { method: 'GET' },
+      control
+    );
+
+    if (!Array.isArray(data.data)) {
+      throw new TransportError('Invalid model catalog response: missing data');
+    }
+
+    return data.data;
+  }
+
+  /**
+   * Create a (non-streaming) chat completion (`POST /chat/completions`)
+   */
+  async createChatCompletion(
+    request: ChatCompletionRequest,
+    control: TransportRequestControl = {}
+  ): Promise<ChatCompletionResponse> {
+    return this.requestJson<ChatCompletionResponse>(
+      '/chat/completions',
+      {
+        method: 'POST',
+        body: JSON.stringify({ ...request, stream: false }),
+      },
+      control
+    );
+  }
+
+  /**
+   * Stream a chat completion as parsed server-sent event chunks. The timeout
+   * covers the wait for the response; the caller's signal covers the stream.
+   */
+  async *streamChatCompletion(
+    request: ChatCompletionRequest,
+    control: TransportRequestControl = {}
+  ): AsyncGenerator<ChatCompletionChunk> {
+    const { result: response, release } = await this.send(
+      '/chat/completions',
+      {
+        method: 'POST',
+        body: JSON.stringify({ ...request, stream: true }),
+      },
+      control,
+      async response => response
+    );
+
+    if (!response.body) {
+      release();
+      throw new TransportError('Streaming response has no body');
+    }
+
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let dataLines: string[] = [];
+
+    const reader = response.body.getReader();
+    try {
+      while (true) {
+        let result: Awaited<ReturnType<typeof reader.read>>;
+        try {
+          result = await reader.read();
+        } catch (error) {
+          RequestAbortedError.throwIfAborted(control.signal);
+          throw new TransportError(
+            `Stream interrupted: ${error instanceof Error ? error.message : 'network error'}`,
+            undefined,
+            error
+          );
+        }
+        const { done, value } = result;
+        buffer += done
+          ? decoder.decode()
+          : decoder.decode(value, { stream: true });
+
+        // Process complete lines; keep the trailing partial line buffered
+        const lines = buffer.split(/\r?\n/);
+        buffer = done ? '' : (lines.pop() ?? '');
+
+        for (const line of lines) {
+          if (line === '') {
+            // Blank line terminates an event
+            const data = dataLines.join('\n');
+            dataLines = [];
+            if (!data) continue;
+            if (data === '[DONE]') return;
+            yield this.parseChunk(data);
+          } else if (line.startsWith('data:')) {
+            dataLines.push(line.slice(5).replace(/^ /, ''));
+          }
+          // Comments (": keep-alive") and other fields are ignored
+        }
+
+        if (done) break;
+      }
+
+      // Flush an event that was not followed by a blank line
+      const data = dataLines.join('\n');
+      if (data && data !== '[DONE]') yield this.parseChunk(data);
+    } finally {
+      // Stop the underlying request if the consumer stopped early
+      await reader.cancel().catch(() => undefined);
+      reader.releaseLock();
+      release();
+    }
+  }
+
+  /**
+   * Base URL requests are sent to (for logging and diagnostics)
+   */
+  getBaseUrl(): string {
+    return this.baseUrl;
+  }
+
+  private async requestJson<T>(
+    path: string,
+    init: RequestInit,
+    control: TransportRequestControl
+  ): Promise<T> {
+    const { result, release } = await this.send(
+      path,
+      init,
+      control,
+      response => response.json() as Promise<T>
+    );
+    release();
+    return result;
+  }
+
+  private parseChunk(data: string): ChatCompletionChunk {
+    let chunk: ChatCompletionChunk & {
+      error?: { message?: string; code?: number | string };
+    };
+    try {
+      chunk = JSON.parse(data);
+    } catch {
+      throw new TransportError(`Invalid stream chunk: ${data.slice(0, 100)}`);
+    }
+
+    // Providers report mid-stream failures as an error payload
+    if (chunk.error) {
+      const status = Number(chunk.error.code);
+      throw new TransportError(
+        `Stream error: ${chunk.error.message ?? 'unknown error'}`,
+        Number.isInteger(status) ? status : undefined
+      );
+    }
+
+    return chunk;
+  }
+
+  /**
+   * Send a request and `read` its response, retrying network errors,
+   * timeouts, 408, 429 and 5xx with exponential backoff and jitter.
+   * `release` must be called once the response is no longer read.
+   */
+  private async send<T>(
+    path: string,
+    init: RequestInit,
+    control: TransportRequestControl,
+    read: (response: Response) => Promise<T>
+  ): Promise<{ result: T; release: () => void }> {
+    const url = `${this.baseUrl}${path}`;
+    const timeoutMs = control.timeoutMs ?? this.timeoutMs;
+
+    for (let attempt = 0; ; attempt++) {
+      RequestAbortedError.throwIfAborted(control.signal);
+      logger.debug(
+        `${init.method ?? 'GET'} ${url}${attempt > 0 ? ` (retry ${attempt}/${this.maxRetries})` : ''}`
+      );
+
+      const attemptSignal = this.createAttemptSignal(control.signal, timeoutMs);
+      let error: TransportError;
+      let retryAfter: string | null = null;
+
+      try {
+        control.onAttempt?.();
+        const response = await this.fetchImpl(url, {
+          ...init,
+          headers: this.headers,
+          signal: attemptSignal.signal,
+        });
+
+        if (response.ok) {
+          const result = await read(response);
+          return { result, release: attemptSignal.release };
+        }
+
+        // Free the connection; the error body isn't used
+        await response.body?.cancel().catch(() => undefined);
+        error = new TransportError(
+          `Request to ${url} failed: ${response.status} ${response.statusText}`.trim(),
+          response.status
+        );
+        retryAfter = response.headers.get('retry-after');
+      } catch (cause) {
+        RequestAbortedError.throwIfAborted(control.signal);
+        error = attemptSignal.timedOut()
+          ? new RequestTimeoutError(url, timeoutMs)
+          : new TransportError(
+              `Request to ${url} failed: ${cause instanceof Error ? cause.message : 'network error'}`,
+              undefined,
+              cause
+            );
+      } finally {
+        attemptSignal.clearTimer();
+      }
+
+      attemptSignal.release();
+      const delayMs = this.getRetryDelay(attempt, error, retryAfter);
+      if (delayMs === undefined) throw error;
+
+      logger.warn(
+        `${error.message}, retrying in ${Math.round(delayMs)}ms (${attempt + 1}/${this.maxRetries})`
+      );
+      try {
+        await sleep(delayMs, undefined, { signal: control.signal });
+      } catch {
+        throw new RequestAbortedError(control.signal?.reason);
+      }
+    }
+  }
+
+  /**
+   * Backoff before the next attempt, or undefined when the error is final
+   */
+  private getRetryDelay(
+    attempt: number,
+    error: TransportError,
+    retryAfter: string | null
+  ): number | undefined {
+    const status = error.status;
+    const retryable =
+      status === undefined || status === 408 || status === 429 || status >= 500;
+    if (!retryable || attempt >= this.maxRetries) return undefined;
+
+    // Honor the server's Retry-After (seconds or HTTP date) when present
+    const retryAfterMs = this.parseRetryAfter(retryAfter);
+    if (retryAfterMs !== undefined) {
+      return retryAfterMs <= this.maxDelayMs ? retryAfterMs : undefined;
+    }
+
+    // Exponential backoff with "equal jitter": half fixed, half random
+    const backoff = Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** attempt);
+    return backoff / 2 + Math.random() * (backoff / 2);
+  }
+
+  private parseRetryAfter(value: string | null): number | undefined {
+    if (!value) return undefined;
+
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+  }
+
+  /**
+   * Combine the caller's signal with a per-attempt timeout
+   */
+  private createAttemptSignal(
+    signal: AbortSignal | undefined,
+    timeoutMs: number
+  ): AttemptSignal {
+    const controller = new AbortController();
+    let timedOut = false;
+
+    const onAbort = () => controller.abort(signal?.reason);
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+
+    return {
+      signal: controller.signal,
+      timedOut: () => timedOut,
+      clearTimer: () => clearTimeout(timer),
+      release: () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+      },
+    };
+  }
+}
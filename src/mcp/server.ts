@@ -0,0 +1,422 @@
+import { createInterface } from 'node:readline';
+import type { Readable, Writable } from 'node:stream';
+import { z } from 'zod';
+import { Logger } from '../utils/logger.js';
+import { formatZodIssues } from '../utils/zod.js';
+import { AnalyticsUtils } from '../analytics/utils.js';
+import { PromptClassifier } from '../classifier.js';
+import type { AutoPromptRouter } from '../router.js';
+import { PromptType } from '../types.js';
+import type { PromptProperties } from '../types.js';
+
+const logger = new Logger('MCP');
+
+/**
+ * Protocol and tool defaults
+ */
+const MCP_CONFIG = {
+  SERVER_NAME: 'auto-llm-selector',
+
+  // Newest first; a client asking for another version gets the newest
+  PROTOCOL_VERSIONS: ['2025-06-18', '2025-03-26', '2024-11-05'],
+
+  DEFAULT_PROPERTIES: {
+    accuracy: 0.5,
+    cost: 0.5,
+    speed: 0.5,
+    tokenLimit: 1000,
+  },
+
+  DEFAULT_MODEL_LIMIT: 10,
+  MAX_MODEL_LIMIT: 100,
+} as const;
+
+// JSON-RPC 2.0 error codes
+const JSON_RPC_ERRORS = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603,
+} as const;
+
+type JsonRpcId = string | number | null;
+
+interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id: JsonRpcId;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+const jsonRpcMessageSchema = z.object({
+  jsonrpc: z.literal('2.0'),
+  id: z.union([z.string(), z.number(), z.null()]).optional(),
+  method: z.string().min(1),
+  params: z.record(z.string(), z.unknown()).optional(),
+});
+
+const toolCallParamsSchema = z.object({
+  name: z.string().min(1),
+  arguments: z.record(z.string(), z.unknown()).optional(),
+});
+
+const recommendModelArgsSchema = z
+  .object({
+    prompt: z.string().min(1).describe('Prompt or task to route'),
+    accuracy: z
+      .number()
+      .min(0)
+      .max(1)
+      .optional()
+      .describe('How accurate the answer must be (default 0.5)'),
+    cost: z
+      .number()
+      .min(0)
+      .max(1)
+      .optional()
+      .describe('Cost tolerance, 0 = cost matters most (default 0.5)'),
+    speed: z
+      .number()
+      .min(0)
+      .max(1)
+      .optional()
+      .describe('How fast the answer is needed (default 0.5)'),
+    tokenLimit: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe('Expected response tokens (default 1000)'),
+    reasoning: z
+      .boolean()
+      .optional()
+      .describe(
+        'true: reasoning models only, false: non-reasoning models only (default: either)'
+      ),
+    requiresTools: z
+      .boolean()
+      .optional()
+      .describe('Require function calling support'),
+    category: z
+      .enum(PromptType)
+      .optional()
+      .describe('Skip classification and route as this category'),
+  })
+  .strict();
+
+const classifyPromptArgsSchema = z
+  .object({
+    prompt: z.string().min(1).describe('Prompt to classify'),
+  })
+  .strict();
+
+const listModelsArgsSchema = z
+  .object({
+    category: z
+      .enum(PromptType)
+      .optional()
+      .describe('Category to rank models for (default general)'),
+    minAccuracy: z.enum(['basic', 'good', 'high', 'excellent']).optional(),
+    minSpeed: z.enum(['slow', 'medium', 'fast', 'ultra-fast']).optional(),
+    maxCostPerMillion: z
+      .number()
+      .positive()
+      .optional()
+      .describe('Maximum prompt price in USD per million tokens'),
+    limit: z
+      .number()
+      .int()
+      .min(1)
+      .max(MCP_CONFIG.MAX_MODEL_LIMIT)
+      .optional()
+      .describe(`Models to return (default ${MCP_CONFIG.DEFAULT_MODEL_LIMIT})`),
+  })
+  .strict();
+
+interface ToolDefinition {
+  description: string;
+  schema: z.ZodObject;
+  run: (args: never) => Promise<Record<string, unknown>>;
+}
+
+/**
+ * Model Context Protocol server over stdio (newline-delimited JSON-RPC)
+ * exposing the router as tools, so agents can ask which model to delegate a
+ * step to without linking the library
+ */
+export class RoutingMcpServer {
+  private readonly router: AutoPromptRouter;
+  private readonly tools: Record<string, ToolDefinition>;
+
+  constructor(router: AutoPromptRouter) {
+    this.router = router;
+    this.tools = {
+      recommend_model: {
+        description:
+          'Pick the best model for a prompt given accuracy, cost and speed priorities. Returns the model, the reason, ranked alternatives and a selection ID.',
+        schema: recommendModelArgsSchema,
+        run: (args: z.infer<typeof recommendModelArgsSchema>) =>
+          this.recommendModel(args),
+      },
+      classify_prompt: {
+        description:
+          'Classify a prompt (coding, creative, analytical, reasoning, conversational or general) with the semantic and keyword scores behind it.',
+        schema: classifyPromptArgsSchema,
+        run: async (args: z.infer<typeof classifyPromptArgsSchema>) => ({
+          ...(await PromptClassifier.explainPrompt(args.prompt)),
+        }),
+      },
+      list_models: {
+        description:
+          'List catalog models most capable in a category, optionally filtered by accuracy tier, speed tier and price.',
+        schema: listModelsArgsSchema,
+        run: (args: z.infer<typeof listModelsArgsSchema>) =>
+          this.listModels(args),
+      },
+    };
+  }
+
+  /**
+   * Serve requests until the input closes; requests run concurrently
+   */
+  async serve(
+    input: Readable = process.stdin,
+    output: Writable = process.stdout
+  ): Promise<void> {
+    // Logs go to stdout too and would corrupt the protocol
+    if (output === process.stdout) Logger.setEnabled(false);
+
+    const pending = new Set<Promise<void>>();
+
+    for await (const line of createInterface({ input, crlfDelay: Infinity })) {
+      if (!line.trim()) continue;
+
+      const task = this.handleLine(line).then(response => {
+        if (response) output.write(`${JSON.stringify(response)}\n`);
+      });
+      pending.add(task);
+      void task.finally(() => pending.delete(task));
+    }
+
+    await Promise.all(pending);
+    logger.debug('MCP input closed');
+  }
+
+  /**
+   * Answer one JSON-RPC message; notifications get no response
+   */
+  async handleMessage(message: unknown): Promise<JsonRpcResponse | undefined> {
+    const parsed = jsonRpcMessageSchema.safeParse(message);
+    if (!parsed.success) {
+      const id = (message as { id?: unknown } | null)?.id;
+      return this.createError(
+        typeof id === 'string' || typeof id === 'number' ? id : null,
+        JSON_RPC_ERRORS.INVALID_REQUEST,
+        `Invalid request: ${formatZodIssues(parsed.error)}`
+      );
+    }
+
+    const { id, method, params } = parsed.data;
+    if (id === undefined) {
+      // initialized, cancelled, ... need no action
+      logger.debug(`Notification ${method}`);
+      return undefined;
+    }
+
+    try {
+      switch (method) {
+        case 'initialize':
+          return { jsonrpc: '2.0', id, result: this.initialize(params) };
+        case 'ping':
+          return { jsonrpc: '2.0', id, result: {} };
+        case 'tools/list':
+          return { jsonrpc: '2.0', id, result: { tools: this.listTools() } };
+        case 'tools/call':
+          return await this.callTool(id, params);
+        default:
+          return this.createError(
+            id,
+            JSON_RPC_ERRORS.METHOD_NOT_FOUND,
+            `Method not found: ${method}`
+          );
+      }
+    } catch (error) {
+      logger.error(`MCP ${method} failed`, error);
+      return this.createError(
+        id,
+        JSON_RPC_ERRORS.INTERNAL_ERROR,
+        error instanceof Error ? error.message : 'Internal error'
+      );
+    }
+  }
+
+  private async handleLine(line: string): Promise<JsonRpcResponse | undefined> {
+    let message: unknown;
+    try {
+      message = JSON.parse(line);
+    } catch (error) {
+      return this.createError(
+        null,
+        JSON_RPC_ERRORS.PARSE_ERROR,
+        `Parse error: ${error instanceof Error ? error.message : 'invalid JSON'}`
+      );
+    }
+    return this.handleMessage(message);
+  }
+
+  private initialize(params: Record<string, unknown> | undefined) {
+    const requested = params?.protocolVersion;
+    const versions: readonly string[] = MCP_CONFIG.PROTOCOL_VERSIONS;
+
+    return {
+      protocolVersion:
+        typeof requested === 'string' && versions.includes(requested)
+          ? requested
+          : versions[0],
+      capabilities: { tools: { listChanged: false } },
+      serverInfo: {
+        name: MCP_CONFIG.SERVER_NAME,
+        version: AnalyticsUtils.getLibraryVersion(),
+      },
+    };
+  }
+
+  private listTools() {
+    return Object.entries(this.tools).map(([name, tool]) => ({
+      name,
+      description: tool.description,
+      inputSchema: z.toJSONSchema(tool.schema),
+    }));
+  }
+
+  /**
+   * Run a tool. Bad arguments and router errors are tool results with
+   * `isError`, so the calling model can see and correct them.
+   */
+  private async callTool(
+    id: string | number | null,
+    params: Record<string, unknown> | undefined
+  ): Promise<JsonRpcResponse> {
+    const call = toolCallParamsSchema.safeParse(params);
+    if (!call.success) {
+      return this.createError(
+        id,
+        JSON_RPC_ERRORS.INVALID_PARAMS,
+        `Invalid tools/call params: ${formatZodIssues(call.error)}`
+      );
+    }
+
+    const tool = this.tools[call.data.name];
+    if (!tool) {
+      return this.createError(
+        id,
+        JSON_RPC_ERRORS.INVALID_PARAMS,
+        `Unknown tool: ${call.data.name}`
+      );
+    }
+
+    const args = tool.schema.safeParse(call.data.arguments ?? {});
+    if (!args.success) {
+      return this.createToolResult(
+        id,
+        `Invalid arguments for ${call.data.name}: ${formatZodIssues(args.error)}`
+      );
+    }
+
+    try {
+      const value = await tool.run(args.data as never);
+      return {
+        jsonrpc: '2.0',
+        id,
+        result: {
+          content: [{ type: 'text', text: JSON.stringify(value, null, 2) }],
+          structuredContent: value,
+        },
+      };
+    } catch (error) {
+      logger.warn(
+        `Tool ${call.data.name} failed: ${error instanceof Error ? error.message : 'unknown error'}`
+      );
+      return this.createToolResult(
+        id,
+        error instanceof Error ? error.message : 'Unknown error'
+      );
+    }
+  }
+
+  private async recommendModel(
+    args: z.infer<typeof recommendModelArgsSchema>
+  ): Promise<Record<string, unknown>> {
+    const { prompt, category, ...overrides } = args;
+    const properties: PromptProperties = {
+      ...MCP_CONFIG.DEFAULT_PROPERTIES,
+      ...(overrides as Partial<PromptProperties>),
+    };
+
+    const selection = await this.router.getModelRecommendation(
+      prompt,
+      properties,
+      category ? { category } : {}
+    );
+    return {
+      selectionId: selection.id,
+      model: selection.model,
+      category: selection.category.type,
+      categoryConfidence: selection.category.confidence,
+      confidence: selection.confidence,
+      reasonCode: selection.reasonCode,
+      reason: selection.reason,
+      alternatives: selection.alternatives,
+    };
+  }
+
+  private async listModels(
+    args: z.infer<typeof listModelsArgsSchema>
+  ): Promise<Record<string, unknown>> {
+    const category = args.category ?? PromptType.General;
+    const models = await this.router.getTopModelsForCategory(
+      category,
+      args.limit ?? MCP_CONFIG.DEFAULT_MODEL_LIMIT,
+      {
+        ...(args.minAccuracy && { minAccuracy: args.minAccuracy }),
+        ...(args.minSpeed && { minSpeed: args.minSpeed }),
+        ...(args.maxCostPerMillion !== undefined && {
+          maxCost: args.maxCostPerMillion / 1_000_000,
+        }),
+      }
+    );
+
+    return {
+      category,
+      models: models.map(model => ({
+        id: model.id,
+        name: model.name,
+        capability: model.capabilities[category],
+        accuracyTier: model.characteristics.accuracyTier,
+        speedTier: model.characteristics.speedTier,
+        costTier: model.characteristics.costTier,
+        isReasoning: model.characteristics.isReasoning,
+        contextLength: model.contextLength,
+        promptCostPerMillion: model.promptCostPerToken * 1_000_000,
+        completionCostPerMillion: model.completionCostPerToken * 1_000_000,
+      })),
+    };
+  }
+
+  private createToolResult(id: JsonRpcId, message: string): JsonRpcResponse {
+    return {
+      jsonrpc: '2.0',
+      id,
+      result: { content: [{ type: 'text', text: message }], isError: true },
+    };
+  }
+
+  private createError(
+    id: JsonRpcId,
+    code: number,
+    message: string
+  ): JsonRpcResponse {
+    return { jsonrpc: '2.0', id, error: { code, message } };
+  }
+}
@@ -1,32 +1,117 @@
+import { randomUUID } from 'node:crypto';
 import { Logger } from './utils/logger.js';
 import { InMemoryModelCache } from './cache.js';
 import { PromptClassifier } from './classifier.js';
 import { AnalyticsCollector } from './analytics/collector.js';
+import { ModelScorer } from './lib/model-scorer.js';
+import { SelectorResponseParser } from './lib/selector-response.js';
+import { OpenAICompatibleTransport, TransportError } from './lib/transport.js';
+import { ConversationAnalyzer, type Conversation } from './lib/conversation.js';
+import {
+  RouterError,
+  RouterNotInitializedError,
+  NoCandidateModelsError,
+  CatalogFetchError,
+  SelectorResponseError,
+  ClassificationError,
+  RequestAbortedError,
+} from './errors.js';
+import { TokenEstimator } from './lib/token-estimator.js';
+import { ConstraintFilter } from './lib/constraints.js';
+import { RoutingRulesEngine, type RuleEvaluation } from './lib/rules-engine.js';
+import { HealthTracker } from './lib/health-tracker.js';
+import { LatencyTracker } from './lib/latency-tracker.js';
+import { FeedbackLearner } from './lib/feedback-learner.js';
+import { BanditSelector } from './lib/bandit-selector.js';
+import {
+  RecommendationCache,
+  type RecommendationCacheKey,
+} from './lib/recommendation-cache.js';
 import type {
   RouterConfig,
   PromptProperties,
   ModelSelection,
   PromptCategory,
   ModelProfile,
+  ModelScore,
+  SelectionReasonCode,
+  ChatMessage,
+  PromptInput,
+  RecommendationOptions,
+  RequestControl,
+  RoutingConstraints,
+  CompletionOptions,
+  CompletionResult,
+  CompletionAttempt,
+  ChatCompletionUsage,
+  RouterStreamEvent,
+  RouterHealth,
+  SelectionOutcome,
+  LatencyStats,
+  SelectionFeedback,
+  ModelFeedbackStats,
+  BanditStats,
+  PromptType,
+  RecommendationCacheStats,
 } from './types.js';
 
+// Selection decision before alternatives and score breakdowns are attached
+type SelectionDecision = Omit<
+  ModelSelection,
+  'id' | 'alternatives' | 'scores' | 'appliedRules'
+>;
+
+// Maximum near-tied models handed to the LLM in hybrid mode
+const HYBRID_MAX_CONTENDERS = 5;
+
+// Selector calls per decision: the first answer plus repair attempts
+const SELECTOR_MAX_ATTEMPTS = 3;
+
+// Deadline for the selector LLM before falling back to local scores
+const SELECTOR_TIMEOUT_MS = 15_000;
+
 export class AutoPromptRouter {
   private logger: Logger;
   private config: RouterConfig;
   private isInitialized: boolean = false;
   private analytics: AnalyticsCollector | null = null;
   private modelCache: InMemoryModelCache;
+  private transport: OpenAICompatibleTransport;
+  private selectorTransport: OpenAICompatibleTransport;
+  private rulesEngine: RoutingRulesEngine;
+  private healthTracker: HealthTracker;
+  private latencyTracker: LatencyTracker;
+  private feedbackLearner: FeedbackLearner;
+  private banditSelector: BanditSelector;
+  private recommendationCache: RecommendationCache;
+  private shutdownHooks: (() => void | Promise<void>)[] = [];
 
   constructor(config: RouterConfig) {
-    this.config = {
-      selectorModel: 'openai/gpt-oss-20b:free',
-      ...config,
-    };
+    this.config = this.withDefaults(config);
 
     this.logger = new Logger('AutoPromptRouter');
 
-    // Initialize model cache with API key
-    this.modelCache = new InMemoryModelCache(this.config.OPEN_ROUTER_API_KEY);
+    // Catalog and selector calls go through OpenAI-compatible transports
+    this.transport = new OpenAICompatibleTransport(
+      this.config.OPEN_ROUTER_API_KEY,
+      this.config.transport
+    );
+    this.selectorTransport = this.createSelectorTransport(this.config);
+
+    // Validate routing rules up front so bad config fails fast
+    this.rulesEngine = new RoutingRulesEngine(this.config.rules ?? []);
+
+    // Circuit breaker and latency state survive config updates
+    this.healthTracker = new HealthTracker(this.config.health);
+    this.latencyTracker = new LatencyTracker(this.config.latency);
+    this.feedbackLearner = new FeedbackLearner(this.config.feedback);
+    this.banditSelector = new BanditSelector(this.config.bandit);
+    this.recommendationCache = new RecommendationCache(
+      this.config.recommendationCache
+    );
+
+    // Initialize model cache with the catalog transport
+    this.modelCache = new InMemoryModelCache(this.transport);
 
     // Initialize analytics if enabled
     if (this.config.analytics?.enabled) {
@@ -37,14 +122,17 @@ export class AutoPromptRouter {
   /**
    * Initialize the router by fetching and caching model data
    */
-  async initialize(): Promise<void> {
+  async initialize(control: RequestControl = {}): Promise<void> {
     const startTime = Date.now();
 
     try {
       this.logger.info('Initializing AutoPromptRouter');
 
       // Pre-fetch and cache model profiles
-      const modelProfiles = await this.modelCache.getModelProfiles();
+      const modelProfiles = await this.modelCache.getModelProfiles(control);
+
+      // Restore capability scores learned from earlier feedback
+      await this.feedbackLearner.load();
 
       this.isInitialized = true;
       this.logger.info('AutoPromptRouter initialized successfully');
@@ -69,48 +157,143 @@ export class AutoPromptRouter {
       }
 
       this.logger.error('Failed to initialize AutoPromptRouter', error);
-      throw new Error(
-        'Failed to initialize router. Please check your OpenRouter API key.'
+      if (error instanceof RouterError) throw error;
+      throw new CatalogFetchError(
+        `Failed to initialize router: ${error instanceof Error ? error.message : 'unknown error'}`,
+        { cause: error }
       );
     }
   }
 
   /**
-   * Get model recommendation for a prompt
+   * Get model recommendation for a prompt or a chat conversation
    */
   async getModelRecommendation(
-    prompt: string,
-    properties: PromptProperties
+    input: PromptInput,
+    properties: PromptProperties,
+    options: RecommendationOptions = {}
+  ): Promise<ModelSelection> {
+    return this.recommend(input, properties, options, false);
+  }
+
+  /**
+   * getModelRecommendation(), also used by stream(): `maxLatencyMs` applies
+   * to the time to first token when the answer will be streamed
+   */
+  private async recommend(
+    input: PromptInput,
+    properties: PromptProperties,
+    options: RecommendationOptions,
+    streaming: boolean
   ): Promise<ModelSelection> {
     const startTime = Date.now();
 
     if (!this.isInitialized) {
-      throw new Error('Router not initialized. Call initialize() first.');
+      throw new RouterNotInitializedError();
     }
+    RequestAbortedError.throwIfAborted(options.signal);
+    const control = this.getRequestControl(options);
+
+    const conversation = ConversationAnalyzer.analyze(input);
+    const prompt = conversation.latestUserPrompt;
+
+    // Non-text inputs from content parts and explicit attachments
+    const requiredModalities = [
+      ...new Set([
+        ...conversation.inputModalities,
+        ...(options.attachments ?? []).map(attachment => attachment.type),
+      ]),
+    ];
 
     this.logger.info('Getting model recommendation', {
       promptLength: prompt.length,
+      messageCount: conversation.messages.length,
+      estimatedTokens: conversation.estimatedTokens,
+      requiredModalities,
       properties,
     });
 
     try {
-      // Step 1: Get all model profiles from cache
-      const allProfiles = await this.modelCache.getModelProfiles();
+      // Step 1: Get all model profiles from cache, with learned capabilities
+      const allProfiles = this.feedbackLearner.apply(
+        await this.modelCache.getModelProfiles(control)
+      );
       this.logger.debug(
         `Retrieved ${allProfiles.length} model profiles from cache`
       );
 
+      // Step 1a: Reuse the selection made for a near-duplicate prompt
+      const cacheKey = await this.getRecommendationCacheKey(
+        conversation,
+        properties,
+        options
+      );
+      const cachedSelection = cacheKey
+        ? this.getCachedSelection(
+            cacheKey,
+            prompt,
+            properties,
+            allProfiles,
+            streaming
+          )
+        : undefined;
+      if (cachedSelection) {
+        if (this.analytics) {
+          this.analytics.trackPromptRequest({
+            prompt,
+            promptProperties: { ...properties },
+            classification: cachedSelection.category,
+            modelSelection: cachedSelection,
+            responseTimeMs: Date.now() - startTime,
+          });
+        }
+        return cachedSelection;
+      }
+
+      // Step 1b: Apply router-level and per-request routing constraints
+      let availableProfiles = ConstraintFilter.apply(allProfiles, [
+        this.config.constraints,
+        options.constraints,
+      ]);
+      if (availableProfiles.length < allProfiles.length) {
+        this.logger.debug(
+          `Filtered to ${availableProfiles.length} models allowed by routing constraints`
+        );
+      }
+
+      if (availableProfiles.length === 0) {
+        throw new NoCandidateModelsError(
+          'constraints',
+          'No models satisfy the routing constraints',
+          { catalogSize: allProfiles.length }
+        );
+      }
+
+      // Step 1c: A requested model is the only candidate
+      const requestedModel = options.model;
+      if (requestedModel !== undefined) {
+        availableProfiles = availableProfiles.filter(
+          profile => profile.id === requestedModel
+        );
+        if (availableProfiles.length === 0) {
+          throw new NoCandidateModelsError(
+            'constraints',
+            `Model ${requestedModel} is not in the catalog or not allowed by the routing constraints`,
+            { model: requestedModel }
+          );
+        }
+      }
+
       // Step 2: Filter by reasoning requirement
-      let availableProfiles = allProfiles;
       if (properties.reasoning === true) {
-        availableProfiles = allProfiles.filter(
+        availableProfiles = availableProfiles.filter(
           profile => profile.characteristics.isReasoning
         );
         this.logger.debug(
           `Filtered to ${availableProfiles.length} reasoning-capable models`
         );
       } else if (properties.reasoning === false) {
-        availableProfiles = allProfiles.filter(
+        availableProfiles = availableProfiles.filter(
           profile => !profile.characteristics.isReasoning
         );
         this.logger.debug(
@@ -118,35 +301,209 @@ export class AutoPromptRouter {
         );
       }
 
-      // Step 3: Process prompt through classifier → ML → Category
-      const category = await this.classifyPrompt(prompt);
+      if (availableProfiles.length === 0) {
+        throw new NoCandidateModelsError(
+          'reasoning',
+          `No ${properties.reasoning ? 'reasoning' : 'non-reasoning'} models are available`,
+          { reasoning: properties.reasoning }
+        );
+      }
+
+      // Step 2b: Drop models that cannot fit the prompt plus tokenLimit output
+      availableProfiles = availableProfiles.filter(profile =>
+        TokenEstimator.fits(
+          profile,
+          conversation.textStats,
+          properties.tokenLimit
+        )
+      );
+      this.logger.debug(
+        `Filtered to ${availableProfiles.length} models fitting ~${conversation.estimatedTokens} prompt + ${properties.tokenLimit} completion tokens`
+      );
+
+      if (availableProfiles.length === 0) {
+        throw new NoCandidateModelsError(
+          'context_window',
+          `No models can fit ~${conversation.estimatedTokens} prompt tokens plus ${properties.tokenLimit} completion tokens`,
+          {
+            estimatedPromptTokens: conversation.estimatedTokens,
+            tokenLimit: properties.tokenLimit,
+          }
+        );
+      }
+
+      // Step 2c: Keep models that accept every attached input modality
+      if (requiredModalities.length > 0) {
+        availableProfiles = availableProfiles.filter(profile =>
+          requiredModalities.every(modality =>
+            profile.characteristics.inputModalities.includes(modality)
+          )
+        );
+        this.logger.debug(
+          `Filtered to ${availableProfiles.length} models accepting ${requiredModalities.join(', ')} input`
+        );
+
+        if (availableProfiles.length === 0) {
+          throw new NoCandidateModelsError(
+            'modality',
+            `No models accept the attached input types: ${requiredModalities.join(', ')}`,
+            { requiredModalities }
+          );
+        }
+      }
+
+      // Step 2d: Keep models that support the required API features
+      const requiredParameters = this.getRequiredParameters(properties);
+      // Catalogs without `supported_parameters` (e.g. local servers) can't be checked
+      const catalogReportsParameters = allProfiles.some(
+        profile => profile.supportedParameters
+      );
+      if (requiredParameters.length > 0 && catalogReportsParameters) {
+        availableProfiles = availableProfiles.filter(profile =>
+          requiredParameters.every(parameter =>
+            profile.supportedParameters?.includes(parameter)
+          )
+        );
+        this.logger.debug(
+          `Filtered to ${availableProfiles.length} models supporting ${requiredParameters.join(', ')}`
+        );
+
+        if (availableProfiles.length === 0) {
+          throw new NoCandidateModelsError(
+            'features',
+            `No models support the required parameters: ${requiredParameters.join(', ')}`,
+            { requiredParameters }
+          );
+        }
+      }
+
+      // Step 2e: Drop models whose observed latency breaks the SLA
+      const maxLatencyMs = properties.maxLatencyMs;
+      if (maxLatencyMs !== undefined) {
+        availableProfiles = availableProfiles.filter(profile =>
+          this.latencyTracker.isWithinLatency(profile, maxLatencyMs, streaming)
+        );
+        this.logger.debug(
+          `Filtered to ${availableProfiles.length} models within ${maxLatencyMs}ms p95 latency`
+        );
+
+        if (availableProfiles.length === 0) {
+          throw new NoCandidateModelsError(
+            'latency',
+            `No models have an observed p95 latency within ${maxLatencyMs}ms`,
+            { maxLatencyMs }
+          );
+        }
+      }
+
+      // Step 3: Process conversation through classifier → ML → Category,
+      // unless the caller already knows it
+      const category: PromptCategory = options.category
+        ? { type: options.category, confidence: 1 }
+        : await this.classifyConversation(conversation);
       this.logger.info(
         `Prompt classified as: ${category.type} (confidence: ${category.confidence.toFixed(2)})`
       );
+      RequestAbortedError.throwIfAborted(options.signal);
+
+      // Step 3b: Apply routing rules (exclusions, constraints, pins)
+      const ruleEvaluation = this.rulesEngine.evaluate({
+        prompt,
+        category,
+        properties,
+      });
+      availableProfiles = RoutingRulesEngine.filter(
+        availableProfiles,
+        ruleEvaluation
+      );
+
+      if (availableProfiles.length === 0) {
+        throw new NoCandidateModelsError(
+          'rules',
+          `No models remain after routing rules: ${ruleEvaluation.appliedRules.join(', ')}`,
+          { appliedRules: ruleEvaluation.appliedRules }
+        );
+      }
+
+      // Step 3c: Skip models and providers whose circuit is open. If every
+      // remaining model is unhealthy, keep them all rather than fail outright
+      const healthyProfiles = this.healthTracker.filter(availableProfiles);
+      if (healthyProfiles.length === 0) {
+        this.logger.warn(
+          `All ${availableProfiles.length} candidate models have open circuits; ignoring health`
+        );
+      } else if (healthyProfiles.length < availableProfiles.length) {
+        this.logger.debug(
+          `Skipped ${availableProfiles.length - healthyProfiles.length} models with open circuits`
+        );
+        availableProfiles = healthyProfiles;
+      }
 
-      // Step 4: Filter profiles by category capability
+      // A pin only applies if the model survived every hard filter
+      const pinned = ruleEvaluation.pinnedModel;
+      if (
+        pinned &&
+        !availableProfiles.some(profile => profile.id === pinned.model)
+      ) {
+        this.logger.warn(
+          `Rule ${pinned.ruleId} pinned ${pinned.model}, but it is unavailable or filtered out; ignoring pin`
+        );
+        ruleEvaluation.appliedRules = ruleEvaluation.appliedRules.filter(
+          ruleId => ruleId !== pinned.ruleId
+        );
+        delete ruleEvaluation.pinnedModel;
+      }
+
+      // Step 4: Filter profiles by category capability, unless the caller
+      // already chose the model
       const categoryKey =
         category.type.toLowerCase() as keyof ModelProfile['capabilities'];
       const categoryProfiles = availableProfiles.filter(
-        profile => profile.capabilities[categoryKey] >= 0.3 // Minimum capability threshold
+        profile =>
+          profile.capabilities[categoryKey] >= 0.3 || // Minimum capability threshold
+          profile.id === ruleEvaluation.pinnedModel?.model ||
+          profile.id === requestedModel
       );
       this.logger.debug(
         `Filtered to ${categoryProfiles.length} models suitable for ${category.type}`
       );
 
       if (categoryProfiles.length === 0) {
-        throw new Error(
-          `No suitable models found for category: ${category.type}`
+        throw new NoCandidateModelsError(
+          'category',
+          `No suitable models found for category: ${category.type}`,
+          { category: category.type }
         );
       }
 
-      // Step 5: Pass to LLM decision with profiles
-      const finalSelection = await this.getLLMDecisionWithProfiles(
+      // Step 5: Select the final model using the configured strategy
+      const finalSelection = await this.selectModel(
         prompt,
         properties,
         categoryProfiles,
-        category
+        category,
+        options.constraints,
+        ruleEvaluation,
+        requestedModel,
+        control
+      );
+      this.healthTracker.trackSelection(
+        finalSelection.id,
+        finalSelection.model
       );
+      this.feedbackLearner.trackSelection(
+        finalSelection.id,
+        finalSelection.model,
+        category.type
+      );
+      // Fallbacks reflect a transient selector failure, not the prompt
+      if (cacheKey && !finalSelection.reasonCode.startsWith('fallback_')) {
+        this.recommendationCache.set(
+          cacheKey,
+          finalSelection,
+          this.modelCache.getCatalogVersion()
+        );
+      }
 
       const responseTime = Date.now() - startTime;
 
@@ -175,7 +532,227 @@ export class AutoPromptRouter {
       }
 
       this.logger.error('Failed to get model recommendation', error);
-      throw new Error('Failed to generate model recommendation');
+      if (error instanceof RouterError) throw error;
+      throw new RouterError(
+        `Failed to generate model recommendation: ${error instanceof Error ? error.message : 'unknown error'}`,
+        'RECOMMENDATION_FAILED',
+        { cause: error }
+      );
+    }
+  }
+
+  /**
+   * Route a conversation and call the selected model, retrying down the
+   * ranked alternatives when a model fails with a retryable error
+   */
+  async complete(
+    messages: ChatMessage[],
+    properties: PromptProperties,
+    options: CompletionOptions = {}
+  ): Promise<CompletionResult> {
+    const startTime = Date.now();
+    this.validateMaxFallbacks(options.maxFallbacks);
+
+    const selection = await this.getModelRecommendation(
+      messages,
+      properties,
+      options
+    );
+
+    // Outcomes are recorded per attempt below, not through reportOutcome()
+    this.healthTracker.resolveSelection(selection.id);
+
+    const candidates = this.getCompletionCandidates(
+      selection,
+      options.maxFallbacks
+    );
+    const attempts: CompletionAttempt[] = [];
+
+    for (const model of candidates) {
+      const attemptStart = Date.now();
+      // Start of the HTTP attempt that succeeded, after any retry backoff
+      let sentAt = attemptStart;
+
+      try {
+        const response = await this.transport.createChatCompletion(
+          { ...options.parameters, model, messages },
+          {
+            ...this.getRequestControl(options),
+            onAttempt: () => (sentAt = Date.now()),
+          }
+        );
+        const completionLatencyMs = Date.now() - attemptStart;
+        attempts.push({ model, success: true, latencyMs: completionLatencyMs });
+        this.recordOutcome(
+          model,
+          {
+            success: true,
+            latencyMs: Date.now() - sentAt,
+            ...(response.usage && {
+              completionTokens: response.usage.completion_tokens,
+            }),
+          },
+          selection.id
+        );
+
+        this.logger.info(
+          `Completion served by ${model} in ${completionLatencyMs}ms (attempt ${attempts.length}/${candidates.length})`
+        );
+
+        return {
+          content: response.choices[0]?.message?.content ?? '',
+          model,
+          selection,
+          response,
+          ...(response.usage && { usage: response.usage }),
+          latencyMs: Date.now() - startTime,
+          completionLatencyMs,
+          attempts,
+        };
+      } catch (error) {
+        const attempt = this.createFailedAttempt(
+          model,
+          attemptStart,
+          error,
+          selection.id
+        );
+        attempts.push(attempt);
+
+        if (!this.isRetryableCompletionError(error)) {
+          this.logger.error(`Completion with ${model} failed`, error);
+          throw error;
+        }
+
+        this.logger.warn(
+          `Completion with ${model} failed${attempt.statusCode ? ` (${attempt.statusCode})` : ''}, trying next alternative`
+        );
+      }
+    }
+
+    throw this.createAllCandidatesFailedError(attempts);
+  }
+
+  /**
+   * Route a conversation and stream the selected model's response.
+   * The routing decision is emitted first; if a model fails before its first
+   * token the next alternative is tried transparently.
+   */
+  async *stream(
+    messages: ChatMessage[],
+    properties: PromptProperties,
+    options: CompletionOptions = {}
+  ): AsyncGenerator<RouterStreamEvent> {
+    const startTime = Date.now();
+    this.validateMaxFallbacks(options.maxFallbacks);
+
+    const selection = await this.recommend(messages, properties, options, true);
+    yield { type: 'selection', selection };
+    this.healthTracker.resolveSelection(selection.id);
+
+    const candidates = this.getCompletionCandidates(
+      selection,
+      options.maxFallbacks
+    );
+    const attempts: CompletionAttempt[] = [];
+
+    for (const [index, model] of candidates.entries()) {
+      const attemptStart = Date.now();
+      // Start of the HTTP attempt that answered, after any retry backoff
+      let sentAt = attemptStart;
+      let firstTokenAt: number | undefined;
+      let content = '';
+      let finishReason: string | undefined;
+      let usage: ChatCompletionUsage | undefined;
+
+      try {
+        for await (const chunk of this.transport.streamChatCompletion(
+          { ...options.parameters, model, messages },
+          {
+            ...this.getRequestControl(options),
+            onAttempt: () => (sentAt = Date.now()),
+          }
+        )) {
+          if (chunk.usage) usage = chunk.usage;
+          // Usage-only chunks and keep-alives carry no choice
+          const choice = chunk.choices?.[0];
+          if (!choice) continue;
+          if (choice.finish_reason) finishReason = choice.finish_reason;
+
+          // Tool calls count as tokens; role-only and finish chunks don't
+          const delta = choice.delta?.content ?? '';
+          if (delta || (choice.delta?.tool_calls?.length ?? 0) > 0) {
+            firstTokenAt ??= Date.now();
+          }
+          content += delta;
+          yield { type: 'delta', model, content: delta, chunk };
+        }
+      } catch (error) {
+        const attempt = this.createFailedAttempt(
+          model,
+          attemptStart,
+          error,
+          selection.id
+        );
+        attempts.push(attempt);
+
+        // Tokens already reached the caller - switching models would garble the output
+        if (
+          firstTokenAt !== undefined ||
+          !this.isRetryableCompletionError(error)
+        ) {
+          this.logger.error(`Stream from ${model} failed`, error);
+          throw error;
+        }
+
+        const nextModel = candidates[index + 1];
+        if (!nextModel) {
+          throw this.createAllCandidatesFailedError(attempts);
+        }
+
+        this.logger.warn(
+          `Stream from ${model} failed before the first token, trying ${nextModel}`
+        );
+        yield {
+          type: 'fallback',
+          failedModel: model,
+          nextModel,
+          error: attempt.error ?? 'Unknown error',
+          ...(attempt.statusCode !== undefined && {
+            statusCode: attempt.statusCode,
+          }),
+        };
+        continue;
+      }
+
+      attempts.push({
+        model,
+        success: true,
+        latencyMs: Date.now() - attemptStart,
+      });
+      this.recordOutcome(
+        model,
+        {
+          success: true,
+          latencyMs: Date.now() - sentAt,
+          ...(firstTokenAt !== undefined && {
+            timeToFirstTokenMs: firstTokenAt - sentAt,
+          }),
+          ...(usage && { completionTokens: usage.completion_tokens }),
+        },
+        selection.id
+      );
+
+      yield {
+        type: 'done',
+        model,
+        content,
+        ...(finishReason && { finishReason }),
+        ...(usage && { usage }),
+        latencyMs: Date.now() - startTime,
+        timeToFirstTokenMs: (firstTokenAt ?? Date.now()) - sentAt,
+        attempts,
+      };
+      return;
     }
   }
 
@@ -186,6 +763,21 @@ export class AutoPromptRouter {
     return await this.modelCache.getModelProfiles();
   }
 
+  /**
+   * Models most capable in a category, optionally filtered by tier and price
+   */
+  async getTopModelsForCategory(
+    category: PromptType,
+    limit?: number,
+    requirements?: Parameters<InMemoryModelCache['getTopModelsForCategory']>[2]
+  ): Promise<ModelProfile[]> {
+    return await this.modelCache.getTopModelsForCategory(
+      category,
+      limit,
+      requirements
+    );
+  }
+
   /**
    * Clear model cache
    */
@@ -205,25 +797,589 @@ export class AutoPromptRouter {
    * Graceful shutdown - flush analytics and cleanup resources
    */
   async shutdown(): Promise<void> {
+    for (const hook of this.shutdownHooks.splice(0)) {
+      await hook();
+    }
+
+    await this.feedbackLearner.flush();
+
     if (this.analytics) {
       await this.analytics.shutdown();
       this.logger.info('Analytics system shut down');
     }
   }
 
+  /**
+   * Report how a call to the selected model went, feeding the circuit
+   * breaker. complete() and stream() report their attempts automatically.
+   */
+  reportOutcome(selectionId: string, outcome: SelectionOutcome): void {
+    const selectedModel = this.healthTracker.resolveSelection(selectionId);
+    const model = outcome.model ?? selectedModel;
+    if (!model) {
+      this.logger.warn(
+        `Unknown or already reported selection ${selectionId}; outcome ignored`
+      );
+      return;
+    }
+
+    this.recordOutcome(model, outcome, selectionId);
+  }
+
+  /**
+   * Circuit breaker state of every model and provider with reported outcomes
+   */
+  getHealth(): RouterHealth {
+    return this.healthTracker.getHealth();
+  }
+
+  /**
+   * Forget recorded health for one model, or for all models and providers
+   */
+  resetHealth(model?: string): void {
+    this.healthTracker.reset(model);
+  }
+
+  /**
+   * Rate a selection so the model's capability score for the category adapts
+   * over time (a misclassified prompt can be credited to `categoryOverride`)
+   */
+  submitFeedback(selectionId: string, feedback: SelectionFeedback): void {
+    // Validates first, so the bandit never sees invalid feedback either
+    const known = this.feedbackLearner.submit(selectionId, feedback);
+    this.banditSelector.recordFeedback(selectionId, feedback);
+    if (!known) {
+      this.logger.warn(
+        `Unknown or already rated selection ${selectionId}; feedback ignored`
+      );
+    }
+  }
+
+  /**
+   * Quality learned from feedback, per model and category
+   */
+  getFeedbackStats(): ModelFeedbackStats[] {
+    return this.feedbackLearner.getStats();
+  }
+
+  /**
+   * Forget learned quality for one model, or for every model
+   */
+  resetFeedback(model?: string): void {
+    this.feedbackLearner.reset(model);
+  }
+
+  /**
+   * Exploration counters and learned rewards of the 'bandit' strategy
+   */
+  getBanditStats(): BanditStats {
+    return this.banditSelector.getStats();
+  }
+
+  /**
+   * Forget bandit rewards for one model, or all rewards and counters
+   */
+  resetBandit(model?: string): void {
+    this.banditSelector.reset(model);
+  }
+
+  /**
+   * Size and hit rate of the semantic recommendation cache
+   */
+  getRecommendationCacheStats(): RecommendationCacheStats {
+    return this.recommendationCache.getStats();
+  }
+
+  /**
+   * Drop every cached recommendation and reset the hit counters
+   */
+  clearRecommendationCache(): void {
+    this.recommendationCache.clear();
+  }
+
+  /**
+   * Rolling latency statistics of every model with enough samples
+   */
+  getLatencyStats(): Record<string, LatencyStats> {
+    return this.latencyTracker.getAllStats();
+  }
+
+  /**
+   * Register cleanup (e.g. a config file watcher) to run on shutdown()
+   */
+  onShutdown(hook: () => void | Promise<void>): void {
+    this.shutdownHooks.push(hook);
+  }
+
+  /**
+   * Apply a new configuration without restarting. Everything is validated
+   * and, when the catalog source changed, the new catalog is fetched before
+   * anything is swapped - on error the previous config stays active.
+   */
+  async updateConfig(config: RouterConfig): Promise<void> {
+    const nextConfig = this.withDefaults(config);
+    const rulesEngine = new RoutingRulesEngine(nextConfig.rules ?? []);
+
+    // JSON comparison covers baseUrl, headers, timeouts and retries
+    const catalogChanged =
+      nextConfig.OPEN_ROUTER_API_KEY !== this.config.OPEN_ROUTER_API_KEY ||
+      nextConfig.transport?.fetch !== this.config.transport?.fetch ||
+      JSON.stringify(nextConfig.transport) !==
+        JSON.stringify(this.config.transport);
+
+    let transport = this.transport;
+    let modelCache = this.modelCache;
+    if (catalogChanged) {
+      transport = new OpenAICompatibleTransport(
+        nextConfig.OPEN_ROUTER_API_KEY,
+        nextConfig.transport
+      );
+      modelCache = new InMemoryModelCache(transport);
+      if (this.isInitialized) {
+        await modelCache.getModelProfiles();
+      }
+    }
+
+    // Restart analytics only when its settings changed
+    const analyticsChanged =
+      JSON.stringify(nextConfig.analytics) !==
+      JSON.stringify(this.config.analytics);
+    if (analyticsChanged) {
+      await this.analytics?.shutdown();
+      this.analytics = nextConfig.analytics?.enabled
+        ? new AnalyticsCollector(nextConfig.analytics)
+        : null;
+    }
+
+    this.config = nextConfig;
+    this.rulesEngine = rulesEngine;
+    this.healthTracker.configure(nextConfig.health);
+    this.latencyTracker.configure(nextConfig.latency);
+    this.feedbackLearner.configure(nextConfig.feedback);
+    this.banditSelector.configure(nextConfig.bandit);
+    this.recommendationCache.configure(nextConfig.recommendationCache);
+    this.transport = transport;
+    this.modelCache = modelCache;
+    this.selectorTransport = this.createSelectorTransport(nextConfig);
+
+    this.logger.info('Router configuration updated', {
+      catalogChanged,
+      analyticsChanged,
+    });
+  }
+
   // Private methods
-  private async classifyPrompt(prompt: string): Promise<PromptCategory> {
-    return await PromptClassifier.classifyPrompt(prompt);
+  private withDefaults(config: RouterConfig): RouterConfig {
+    return {
+      selectorModel: 'openai/gpt-oss-20b:free',
+      selectionStrategy: 'llm',
+      hybridMargin: 0.05,
+      ...config,
+    };
   }
 
-  private async getLLMDecisionWithProfiles(
+  private createSelectorTransport(
+    config: RouterConfig
+  ): OpenAICompatibleTransport {
+    return config.selectorTransport
+      ? new OpenAICompatibleTransport(
+          config.OPEN_ROUTER_API_KEY,
+          config.selectorTransport
+        )
+      : this.transport;
+  }
+
+  // Checked before routing, so no selection is made for a bad request
+  private validateMaxFallbacks(maxFallbacks: number | undefined): void {
+    if (
+      maxFallbacks !== undefined &&
+      (!Number.isInteger(maxFallbacks) || maxFallbacks < 0)
+    ) {
+      throw new RouterError(
+        `maxFallbacks must be a non-negative integer, got ${maxFallbacks}`,
+        'INVALID_INPUT',
+        { context: { maxFallbacks } }
+      );
+    }
+  }
+
+  private getCompletionCandidates(
+    selection: ModelSelection,
+    maxFallbacks?: number
+  ): string[] {
+    return [
+      selection.model,
+      ...selection.alternatives.map(alternative => alternative.model),
+    ].slice(0, 1 + (maxFallbacks ?? selection.alternatives.length));
+  }
+
+  /**
+   * Feed a call outcome to the circuit breaker and latency statistics
+   */
+  private recordOutcome(
+    model: string,
+    outcome: SelectionOutcome,
+    selectionId?: string
+  ): void {
+    this.healthTracker.record(model, outcome);
+    this.latencyTracker.record(model, outcome);
+    if (selectionId !== undefined) {
+      this.banditSelector.recordOutcome(selectionId, model, outcome);
+    }
+  }
+
+  /**
+   * Describe a failed completion attempt and feed it to the health tracker
+   */
+  private createFailedAttempt(
+    model: string,
+    attemptStart: number,
+    error: unknown,
+    selectionId: string
+  ): CompletionAttempt {
+    const statusCode =
+      error instanceof TransportError ? error.status : undefined;
+    const attempt: CompletionAttempt = {
+      model,
+      success: false,
+      latencyMs: Date.now() - attemptStart,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      ...(statusCode !== undefined && { statusCode }),
+    };
+
+    // A cancelled call says nothing about the model
+    if (!(error instanceof RequestAbortedError)) {
+      this.recordOutcome(model, attempt, selectionId);
+    }
+
+    return attempt;
+  }
+
+  private createAllCandidatesFailedError(
+    attempts: CompletionAttempt[]
+  ): RouterError {
+    return new RouterError(
+      `All ${attempts.length} candidate models failed: ${attempts
+        .map(attempt => `${attempt.model} (${attempt.error})`)
+        .join(', ')}`,
+      'ALL_CANDIDATES_FAILED',
+      { context: { attempts } }
+    );
+  }
+
+  private getRequestControl(options: RequestControl): RequestControl {
+    return {
+      ...(options.signal && { signal: options.signal }),
+      ...(options.timeoutMs !== undefined && { timeoutMs: options.timeoutMs }),
+    };
+  }
+
+  private isRetryableCompletionError(error: unknown): boolean {
+    if (!(error instanceof TransportError)) return false;
+
+    // Network failures, timeouts, rate limits and server errors move on to the next model
+    const status = error.status;
+    return (
+      status === undefined || status === 408 || status === 429 || status >= 500
+    );
+  }
+
+  /**
+   * Catalog `supported_parameters` entries implied by the prompt properties
+   */
+  private getRequiredParameters(properties: PromptProperties): string[] {
+    return [
+      ...new Set([
+        ...(properties.requiresTools ? ['tools'] : []),
+        ...(properties.requiresJsonSchema ? ['structured_outputs'] : []),
+        ...(properties.requiredParameters ?? []),
+      ]),
+    ];
+  }
+
+  private async getRecommendationCacheKey(
+    conversation: Conversation,
+    properties: PromptProperties,
+    options: RecommendationOptions
+  ): Promise<RecommendationCacheKey | undefined> {
+    // The bandit has to keep sampling, so its picks are never reused
+    if (
+      !this.recommendationCache.isEnabled() ||
+      this.config.selectionStrategy === 'bandit' ||
+      options.model !== undefined
+    ) {
+      return undefined;
+    }
+    return this.recommendationCache.createKey(
+      conversation,
+      properties,
+      options
+    );
+  }
+
+  /**
+   * Cached selection for the key, if its model is still listed, healthy and
+   * within the latency SLA, and the new prompt fires the same routing rules.
+   * Hits get their own selection ID for outcomes.
+   */
+  private getCachedSelection(
+    key: RecommendationCacheKey,
+    prompt: string,
+    properties: PromptProperties,
+    profiles: ModelProfile[],
+    streaming: boolean
+  ): ModelSelection | undefined {
+    const maxLatencyMs = properties.maxLatencyMs;
+    const isUsable = (selection: ModelSelection): boolean => {
+      const profile = profiles.find(
+        candidate => candidate.id === selection.model
+      );
+      if (
+        !profile ||
+        this.healthTracker.filter([profile]).length === 0 ||
+        (maxLatencyMs !== undefined &&
+          !this.latencyTracker.isWithinLatency(
+            profile,
+            maxLatencyMs,
+            streaming
+          ))
+      ) {
+        return false;
+      }
+
+      // Rules can match on prompt text, which may differ from the cached prompt
+      const { appliedRules } = this.rulesEngine.evaluate({
+        prompt,
+        category: selection.category,
+        properties,
+      });
+      return (
+        appliedRules.length === selection.appliedRules.length &&
+        appliedRules.every(
+          (ruleId, index) => ruleId === selection.appliedRules[index]
+        )
+      );
+    };
+
+    const cached = this.recommendationCache.get(
+      key,
+      this.modelCache.getCatalogVersion(),
+      isUsable
+    );
+    if (!cached) return undefined;
+
+    const selection: ModelSelection = {
+      ...cached.selection,
+      id: randomUUID(),
+      cached: {
+        selectionId: cached.selection.id,
+        similarity: cached.similarity,
+      },
+    };
+    this.healthTracker.trackSelection(selection.id, selection.model);
+    this.feedbackLearner.trackSelection(
+      selection.id,
+      selection.model,
+      selection.category.type
+    );
+
+    this.logger.info(
+      `Reusing cached selection ${cached.selection.id} (similarity: ${cached.similarity.toFixed(3)})`,
+      { model: selection.model }
+    );
+    return selection;
+  }
+
+  private async classifyConversation(
+    conversation: Conversation
+  ): Promise<PromptCategory> {
+    try {
+      return await PromptClassifier.classifyConversation(conversation);
+    } catch (error) {
+      throw new ClassificationError(
+        `Failed to classify prompt: ${error instanceof Error ? error.message : 'unknown error'}`,
+        { cause: error }
+      );
+    }
+  }
+
+  private async selectModel(
     prompt: string,
     properties: PromptProperties,
     categoryProfiles: ModelProfile[],
-    category: PromptCategory
+    category: PromptCategory,
+    constraints: RoutingConstraints | undefined,
+    ruleEvaluation: RuleEvaluation,
+    requestedModel: string | undefined,
+    control: RequestControl
   ): Promise<ModelSelection> {
+    const strategy = this.config.selectionStrategy ?? 'llm';
+    const id = randomUUID();
+
+    // Local scores are cheap, so they are computed for every strategy
+    const scores = ModelScorer.scoreModels(
+      categoryProfiles,
+      category.type,
+      properties,
+      model => [
+        ...ConstraintFilter.getAdjustments(
+          model,
+          this.config.constraints,
+          constraints
+        ),
+        ...RoutingRulesEngine.getAdjustments(model, ruleEvaluation),
+      ],
+      model => this.latencyTracker.getObservedSpeed(model)
+    );
+
+    let decision: SelectionDecision;
+    const pinned = ruleEvaluation.pinnedModel;
+    if (requestedModel !== undefined) {
+      decision = {
+        model: requestedModel,
+        reason: 'Requested by the caller',
+        reasonCode: 'requested',
+        confidence: 1,
+        category,
+      };
+    } else if (pinned) {
+      decision = {
+        model: pinned.model,
+        reason: `Pinned by routing rule "${pinned.ruleId}"`,
+        reasonCode: 'rule_pinned',
+        confidence: 1,
+        category,
+      };
+    } else if (strategy === 'bandit') {
+      decision = this.getBanditDecision(id, scores, category);
+    } else if (strategy === 'llm') {
+      decision = await this.getLLMDecisionWithProfiles(
+        prompt,
+        properties,
+        scores,
+        category,
+        control
+      );
+    } else {
+      decision = await this.getScoredDecision(
+        prompt,
+        properties,
+        scores,
+        category,
+        strategy === 'hybrid',
+        control
+      );
+    }
+
+    // Backups for callers to retry, in local ranking order
+    const alternatives = scores
+      .filter(scored => scored.model.id !== decision.model)
+      .slice(0, this.config.maxAlternatives ?? 3)
+      .map(scored => ({
+        model: scored.model.id,
+        score: scored.score,
+        reason: scored.reasoning,
+      }));
+
+    return {
+      id,
+      ...decision,
+      alternatives,
+      scores: scores.slice(0, this.config.maxScores ?? 5),
+      appliedRules: ruleEvaluation.appliedRules,
+    };
+  }
+
+  private async getScoredDecision(
+    prompt: string,
+    properties: PromptProperties,
+    scores: ModelScore[],
+    category: PromptCategory,
+    allowLLMTieBreak: boolean,
+    control: RequestControl
+  ): Promise<SelectionDecision> {
+    const [top, runnerUp] = scores;
+    if (!top) {
+      throw new NoCandidateModelsError(
+        'category',
+        'No suitable models found for the given requirements',
+        { category: category.type }
+      );
+    }
+
+    const margin = this.config.hybridMargin ?? 0.05;
+    if (allowLLMTieBreak && runnerUp && top.score - runnerUp.score < margin) {
+      // Too close to call locally - let the LLM decide among the contenders
+      const contenders = scores
+        .filter(scored => top.score - scored.score < margin)
+        .slice(0, HYBRID_MAX_CONTENDERS);
+
+      this.logger.debug(
+        `Hybrid selection: ${contenders.length} models within ${margin} of the top score, asking LLM`
+      );
+      return this.getLLMDecisionWithProfiles(
+        prompt,
+        properties,
+        contenders,
+        category,
+        control
+      );
+    }
+
+    // Confidence grows with the top score and its lead over the runner-up
+    const lead = runnerUp ? top.score - runnerUp.score : top.score;
+    const confidence = Math.max(
+      0.3,
+      Math.min(0.95, top.score * 0.6 + Math.min(lead * 5, 0.35))
+    );
+
+    return {
+      model: top.model.id,
+      reason: `Local scoring: ${top.reasoning} - ${(top.score * 100).toFixed(0)}% weighted score`,
+      confidence,
+      category,
+      reasonCode: 'local_scored',
+    };
+  }
+
+  private getBanditDecision(
+    selectionId: string,
+    scores: ModelScore[],
+    category: PromptCategory
+  ): SelectionDecision {
+    const choice = this.banditSelector.choose(
+      selectionId,
+      scores,
+      category.type
+    );
+    if (!choice) {
+      throw new NoCandidateModelsError(
+        'category',
+        'No suitable models found for the given requirements',
+        { category: category.type }
+      );
+    }
+
+    const { score, explored, expectedReward } = choice;
+    return {
+      model: score.model.id,
+      reason: `Bandit (${this.config.bandit?.algorithm ?? 'thompson'}) ${explored ? 'explored' : 'kept'} ${score.model.id}: ${score.reasoning} - ${(score.score * 100).toFixed(0)}% weighted score, ${(expectedReward * 100).toFixed(0)}% expected reward`,
+      confidence: Math.max(0.3, Math.min(0.95, expectedReward)),
+      category,
+      reasonCode: explored ? 'bandit_explore' : 'bandit_exploit',
+    };
+  }
+
+  private async getLLMDecisionWithProfiles(
+    prompt: string,
+    properties: PromptProperties,
+    candidates: ModelScore[],
+    category: PromptCategory,
+    control: RequestControl
+  ): Promise<SelectionDecision> {
     // Create enhanced prompt with model profiles
-    const profileInfo = categoryProfiles
+    const profileInfo = candidates
+      .map(candidate => candidate.model)
       .map(profile => {
         const categoryScore =
           profile.capabilities[
@@ -256,10 +1412,10 @@ PROMPT ANALYSIS:
 
 USER REQUIREMENTS:
 - Accuracy Priority: ${properties.accuracy}/1 (1 = highest accuracy needed)
-- Cost Sensitivity: ${properties.cost}/1 (1 = very cost-sensitive, 0 = cost no object)
+- Cost Sensitivity: ${properties.cost}/1 (0 = very cost-sensitive, 1 = cost no object)
 - Speed Priority: ${properties.speed}/1 (1 = fastest response needed)
-- Context Length: ${properties.tokenLimit} tokens minimum
-- Reasoning Required: ${properties.reasoning}
+- Expected Response Length: ${properties.tokenLimit} tokens (all listed models fit the prompt plus this output)
+- Reasoning Required: ${properties.reasoning ?? 'no preference'}
 
 AVAILABLE MODEL PROFILES (filtered for ${category.type} tasks):
 ${profileInfo
@@ -286,64 +1442,155 @@ You must respond with valid JSON in this EXACT format:
 
 Important: The "model" field must exactly match one of the model IDs from the list above. and in response i do not want any extra char like \`\`\` json or any other char`;
 
+    const candidateIds = candidates.map(candidate => candidate.model.id);
+    const messages: ChatMessage[] = [
+      { role: 'system', content: selectionPrompt },
+    ];
+    let validationError = '';
+
+    // One deadline for the whole exchange, including repair attempts
+    const timeoutMs = this.config.selectorTimeoutMs ?? SELECTOR_TIMEOUT_MS;
+    const deadline = new AbortController();
+    const { signal } = control;
+    const onAbort = () => deadline.abort(signal?.reason);
+    signal?.addEventListener('abort', onAbort, { once: true });
+    const timer = setTimeout(() => deadline.abort(), timeoutMs);
+
     try {
-      // Make API call to selector model
-      const response = await fetch(
-        'https://openrouter.ai/api/v1/chat/completions',
-        {
-          method: 'POST',
-          headers: {
-            Authorization: `Bearer ${this.config.OPEN_ROUTER_API_KEY}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            model: this.config.selectorModel,
-            messages: [{ role: 'system', content: selectionPrompt }],
-            temperature: 0.1,
-          }),
+      for (let attempt = 1; attempt <= SELECTOR_MAX_ATTEMPTS; attempt++) {
+        const llmResponse = await this.requestSelectorCompletion(messages, {
+          ...control,
+          signal: deadline.signal,
+        });
+
+        // Validate shape, ranges and that the model was actually offered
+        const parsed = SelectorResponseParser.parse(llmResponse, candidateIds);
+        if (parsed.success) {
+          return {
+            model: parsed.data.model,
+            reason: parsed.data.reason,
+            confidence: parsed.data.confidence,
+            category,
+            reasonCode: 'llm_selected',
+          };
         }
-      );
 
-      if (!response.ok) {
-        throw new Error(`LLM selection failed: ${response.status}`);
-      }
+        validationError = parsed.error;
+        this.logger.warn(
+          `Invalid selector response (attempt ${attempt}/${SELECTOR_MAX_ATTEMPTS}): ${parsed.error}`
+        );
 
-      const data = (await response.json()) as {
-        choices: Array<{ message: { content: string } }>;
-      };
-      const llmResponse = data.choices[0]?.message.content;
-      if (!llmResponse) {
-        throw new Error('No response content from LLM');
+        // Ask the selector to repair its answer
+        messages.push(
+          { role: 'assistant', content: llmResponse },
+          {
+            role: 'user',
+            content: `Your previous response was invalid: ${parsed.error}. Respond again with only the JSON object. "model" must be exactly one of: ${candidateIds.join(', ')}. "confidence" must be a number between 0 and 1.`,
+          }
+        );
       }
+    } catch (error) {
+      // The caller gave up - don't spend more time on a fallback
+      RequestAbortedError.throwIfAborted(signal);
 
-      // Parse LLM response
-      const selection = JSON.parse(llmResponse);
+      const failure = deadline.signal.aborted
+        ? `selector timed out after ${timeoutMs}ms`
+        : `selector request failed: ${error instanceof Error ? error.message : 'unknown error'}`;
+
+      if (this.config.selectorFallback === false) {
+        throw new SelectorResponseError(`LLM selection failed: ${failure}`, {
+          cause: error,
+          context: {
+            selectorModel: this.config.selectorModel,
+            timedOut: deadline.signal.aborted,
+          },
+        });
+      }
 
-      return {
-        model: selection.model,
-        reason: selection.reason,
-        confidence: selection.confidence,
-        category,
-      };
-    } catch (error) {
       this.logger.error(
-        'LLM decision failed, falling back to first suitable model',
+        `LLM decision failed (${failure}), falling back to top scored model`,
         error
       );
+      return this.getFallbackDecision(
+        candidates,
+        category,
+        'fallback_selector_error',
+        'LLM selection failed'
+      );
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
 
-      // Fallback to first suitable model
-      if (categoryProfiles.length === 0) {
-        throw new Error('No suitable models found for the given requirements');
-      }
+    if (this.config.selectorFallback === false) {
+      throw new SelectorResponseError(
+        `Selector response still invalid after ${SELECTOR_MAX_ATTEMPTS} attempts: ${validationError}`,
+        {
+          context: {
+            selectorModel: this.config.selectorModel,
+            attempts: SELECTOR_MAX_ATTEMPTS,
+            validationError,
+          },
+        }
+      );
+    }
 
-      const fallbackModel = categoryProfiles[0];
+    this.logger.error(
+      `Selector response still invalid after ${SELECTOR_MAX_ATTEMPTS} attempts, falling back to top scored model`,
+      { validationError }
+    );
+    return this.getFallbackDecision(
+      candidates,
+      category,
+      'fallback_invalid_selector_response',
+      `invalid selector response: ${validationError}`
+    );
+  }
 
-      return {
-        model: fallbackModel?.id || '',
-        reason: `Fallback selection: ${fallbackModel?.name} (LLM selection failed)`,
-        confidence: 0.5,
-        category,
-      };
+  private getFallbackDecision(
+    candidates: ModelScore[],
+    category: PromptCategory,
+    reasonCode: SelectionReasonCode,
+    failure: string
+  ): SelectionDecision {
+    // Fallback to the best locally scored candidate
+    const fallback = candidates[0];
+    if (!fallback) {
+      throw new NoCandidateModelsError(
+        'category',
+        'No suitable models found for the given requirements',
+        { category: category.type }
+      );
     }
+
+    return {
+      model: fallback.model.id,
+      reason: `Fallback selection: ${fallback.model.name}, ${fallback.reasoning} (${failure})`,
+      confidence: 0.5,
+      category,
+      reasonCode,
+    };
+  }
+
+  private async requestSelectorCompletion(
+    messages: ChatMessage[],
+    control: RequestControl
+  ): Promise<string> {
+    // Make API call to selector model
+    const data = await this.selectorTransport.createChatCompletion(
+      {
+        model: this.config.selectorModel ?? 'openai/gpt-oss-20b:free',
+        messages,
+        temperature: 0.1,
+      },
+      control
+    );
+
+    const llmResponse = data.choices?.[0]?.message?.content;
+    if (!llmResponse) {
+      throw new Error('No response content from LLM');
+    }
+
+    return llmResponse;
   }
 }
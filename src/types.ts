@@ -5,7 +5,11 @@ export interface PromptProperties {
   cost: number; // 0-1: Cost sensitivity (0 = cost matters, 1 = cost doesn't matter)
   speed: number; // 0-1: Speed requirement (0 = slow ok, 1 = need fast)
   tokenLimit: number; // Maximum tokens needed for response
-  reasoning: boolean; // Whether complex reasoning is required
+  reasoning?: boolean; // true: reasoning models only, false: non-reasoning models only, omitted: either
+  requiresTools?: boolean; // Only models that support function calling (`tools`)
+  requiresJsonSchema?: boolean; // Only models that support JSON-schema structured output
+  requiredParameters?: string[]; // Other request parameters the model must support, e.g. ['seed', 'logprobs']
+  maxLatencyMs?: number; // Exclude models whose observed p95 latency exceeds this (models without enough samples are kept)
 }
 
 export interface AnalyticsConfig {
@@ -17,22 +21,196 @@ export interface AnalyticsConfig {
   batchSize?: number; // Events per batch upload (default: 50)
   batchIntervalMs?: number; // Max time before batch upload (default: 5000)
   debugMode?: boolean; // Verbose analytics logging (default: false)
+  endpoint?: string; // Analytics ingestion URL (default: the project's Supabase function)
 }
 
+export interface TransportConfig {
+  baseUrl?: string; // OpenAI-compatible API root (default: 'https://openrouter.ai/api/v1')
+  headers?: Record<string, string>; // Extra headers, merged over the defaults
+  fetch?: typeof fetch; // Custom fetch implementation (proxies, tests)
+  timeoutMs?: number; // Per-attempt timeout until the response arrives (default: 30000)
+  retry?: RetryConfig; // Backoff for network errors, timeouts, 408, 429 and 5xx
+}
+
+export interface RetryConfig {
+  maxRetries?: number; // Retries after the first attempt; 0 disables retrying (default: 2)
+  baseDelayMs?: number; // First backoff delay, doubled on every retry (default: 500)
+  maxDelayMs?: number; // Backoff cap; a longer Retry-After fails instead of waiting (default: 10000)
+}
+
+// Per-call cancellation and timeout
+export interface RequestControl {
+  signal?: AbortSignal; // Aborting rejects the call with RequestAbortedError
+  timeoutMs?: number; // Overrides TransportConfig.timeoutMs for every request this call makes
+}
+
+export type SelectionStrategy =
+  | 'llm' // Selector LLM picks from the filtered profiles (default)
+  | 'local' // In-process multi-objective scoring, no network calls
+  | 'hybrid' // Local scoring, LLM only breaks near-ties
+  | 'bandit'; // Local scoring, explores near-top models and learns from rewards
+
 export interface RouterConfig {
   OPEN_ROUTER_API_KEY: string;
-  // preferredProvider?: string  // e.g., "openai", "anthropic", "meta-llama"
+  constraints?: RoutingConstraints; // Provider/model restrictions applied to every request
+  rules?: RoutingRule[]; // Declarative routing rules, evaluated after classification
   selectorModel?: string; // LLM model to use for selection decisions
+  selectionStrategy?: SelectionStrategy; // How the final model is chosen (default: 'llm')
+  hybridMargin?: number; // 0-1: Top local score gap below which 'hybrid' asks the LLM (default: 0.05)
+  selectorTimeoutMs?: number; // Deadline for the selector LLM before falling back to local scores (default: 15000)
+  selectorFallback?: boolean; // Fall back to the top scored model when the selector fails; false throws SelectorResponseError (default: true)
+  maxScores?: number; // Number of ModelScore breakdowns returned with a selection (default: 5)
+  maxAlternatives?: number; // Number of ranked backup models returned with a selection (default: 3)
   enableLogging?: boolean;
   analytics?: AnalyticsConfig; // Optional analytics configuration
+  transport?: TransportConfig; // Where catalog and selector calls are sent
+  selectorTransport?: TransportConfig; // Overrides `transport` for selector calls only
+  health?: HealthConfig; // Circuit breaker for failing models and providers
+  latency?: LatencyConfig; // Rolling latency statistics from observed outcomes
+  feedback?: FeedbackConfig; // Learning capability scores from user ratings
+  bandit?: BanditConfig; // Exploration settings of the 'bandit' strategy
+  recommendationCache?: RecommendationCacheConfig; // Reuse decisions for near-duplicate prompts
+}
+
+export interface RecommendationCacheConfig {
+  enabled?: boolean; // Reuse selections for near-duplicate prompts (default: false)
+  similarityThreshold?: number; // 0-1: Minimum cosine similarity of the prompt embeddings (default: 0.95)
+  ttlMs?: number; // How long a selection can be reused (default: 1800000, 30 minutes)
+  maxEntries?: number; // Oldest selections are evicted beyond this (default: 1000)
+  propertySteps?: number; // accuracy, cost and speed must match after rounding to 1/propertySteps (default: 10)
+}
+
+export interface RecommendationCacheStats {
+  entries: number;
+  hits: number;
+  misses: number; // Lookups without a usable near-duplicate (skipped lookups are not counted)
+  hitRate: number; // 0-1: hits / (hits + misses)
+}
+
+export interface BanditConfig {
+  algorithm?: 'thompson' | 'ucb'; // Thompson sampling or upper confidence bound (default: 'thompson')
+  explorationBudget?: number; // 0-1: Max share of selections that skip the top local score (default: 0.1)
+  maxScoreGap?: number; // 0-1: Only models this close to the top local score are explored (default: 0.1)
+  maxCandidates?: number; // Near-top models considered per selection (default: 3)
+  seed?: number; // Seeds the random number generator for reproducible selections
+  rewardWeights?: BanditRewardWeights;
+}
+
+// Relative weight of each reward component (normalized to sum to 1)
+export interface BanditRewardWeights {
+  quality?: number; // Call success, or the user's rating (default: 0.6)
+  cost?: number; // Cheapness, as scored locally (default: 0.2)
+  latency?: number; // Observed call latency (default: 0.2)
+}
+
+export interface FeedbackConfig {
+  enabled?: boolean; // Blend learned quality into capability scores (default: true)
+  persistPath?: string; // JSON file learned quality is loaded from on initialize() and saved to
+  halfLifeDays?: number; // Age at which a rating counts half as much (default: 14)
+  priorStrength?: number; // Ratings needed before learned quality outweighs the static profile (default: 5)
+}
+
+export interface LatencyConfig {
+  enabled?: boolean; // Blend observed speed into scoring and apply maxLatencyMs (default: true)
+  windowSize?: number; // Most recent successful calls kept per model (default: 100)
+  minSamples?: number; // Samples needed before a model's statistics are used (default: 5)
+}
+
+export interface HealthConfig {
+  enabled?: boolean; // Exclude models with an open circuit (default: true)
+  failureThreshold?: number; // Consecutive failures that open a model's circuit (default: 3)
+  providerFailureThreshold?: number; // Consecutive failures across a provider's models that open its circuit (default: 5)
+  cooldownMs?: number; // How long a circuit stays open before a probe is allowed (default: 30000)
+  maxCooldownMs?: number; // Cooldown doubles after each failed probe, up to this (default: 300000)
+}
+
+// Options for createRouterFromConfig
+export interface ConfigLoadOptions {
+  overrides?: Partial<RouterConfig>; // Highest precedence, merged over file and environment
+  env?: Record<string, string | undefined>; // Environment to read (default: process.env)
+  watch?: boolean; // Reload the config file when it changes (default: false)
+}
+
+// Hard restrictions (and soft provider preferences) on candidate models
+export interface RoutingConstraints {
+  allowedProviders?: string[]; // Only these providers, e.g. ['openai', 'anthropic']
+  blockedProviders?: string[]; // Never these providers
+  allowedModels?: string[]; // Only model IDs matching these globs, e.g. ['anthropic/claude-3*']
+  blockedModels?: string[]; // Never model IDs matching these globs, e.g. ['*:free']
+  moderatedOnly?: boolean; // Only models whose provider moderates content
+  preferredProviders?: string[]; // Boosted in scoring, not required
+  preferredProviderBoost?: number; // 0-1: Score bonus for preferred providers (default: 0.1)
+}
+
+// Declarative routing rule (validated with zod when the router is created)
+export interface RoutingRule {
+  id: string; // Recorded in ModelSelection.appliedRules when the rule fires
+  description?: string;
+  when?: RuleCondition; // Omitted = always matches
+  then: RuleAction;
+}
 
+// Every field that is set must match for the rule to fire
+export interface RuleCondition {
+  category?: PromptType | PromptType[];
+  promptMatches?: string; // Regular expression tested against the latest user prompt
+  promptMatchFlags?: string; // RegExp flags, e.g. 'i'
+  accuracy?: NumberCondition;
+  cost?: NumberCondition;
+  speed?: NumberCondition;
+  tokenLimit?: NumberCondition;
+  reasoning?: boolean;
 }
 
+export interface NumberCondition {
+  lt?: number;
+  lte?: number;
+  gt?: number;
+  gte?: number;
+}
+
+// Selects models by ID glob, provider or tier (all set fields must match)
+export interface ModelMatcher {
+  models?: string[]; // Model ID globs, e.g. ['openai/gpt-4o*']
+  providers?: string[];
+  costTiers?: ModelCharacteristics['costTier'][];
+  speedTiers?: ModelCharacteristics['speedTier'][];
+  accuracyTiers?: ModelCharacteristics['accuracyTier'][];
+}
+
+export type RuleAction =
+  | { action: 'pin'; model: string } // Use this model (if it passes hard filters)
+  | ({ action: 'exclude' } & ModelMatcher) // Remove matching models
+  | ({ action: 'boost'; value: number } & ModelMatcher) // -1 to 1, added to matching models' scores
+  | { action: 'constrain'; constraints: RoutingConstraints }; // Extra routing constraints
+
+export type SelectionReasonCode =
+  | 'llm_selected' // Selector LLM returned a valid candidate
+  | 'local_scored' // Top local ModelScore was used
+  | 'rule_pinned' // A routing rule pinned the model
+  | 'requested' // The caller named the model (RecommendationOptions.model)
+  | 'bandit_exploit' // Bandit kept the top local score
+  | 'bandit_explore' // Bandit explored a near-top runner-up
+  | 'fallback_selector_error' // Selector call failed (network/HTTP/empty response)
+  | 'fallback_invalid_selector_response'; // Selector kept returning invalid JSON or unknown models
+
 export interface ModelSelection {
+  id: string; // Unique selection ID, used to report the outcome (reportOutcome)
   model: string;
   reason: string;
+  reasonCode: SelectionReasonCode; // Machine-readable source of the decision
   confidence: number; // 0-1: How confident the selection is
   category: PromptCategory;
+  alternatives: ModelAlternative[]; // Ranked backups to retry when the primary model fails
+  scores: ModelScore[]; // Top-N local score breakdowns, best first
+  appliedRules: string[]; // IDs of routing rules that fired, in order
+  cached?: { selectionId: string; similarity: number }; // Set when reused from the recommendation cache
+}
+
+export interface ModelAlternative {
+  model: string;
+  score: number; // 0-1: Local ModelScore of the backup
+  reason: string;
 }
 
 export enum PromptType {
@@ -49,6 +227,297 @@ export interface PromptCategory {
   confidence: number; // 0-1: Classification confidence
 }
 
+// Both halves of a hybrid classification, for debugging
+export interface ClassificationExplanation {
+  result: PromptCategory; // Combined category, as used for routing
+  semantic?: {
+    category: PromptCategory;
+    similarities: Record<string, number>; // Cosine similarity per category (empty when cached)
+  };
+  semanticError?: string; // Why semantic classification was unavailable
+  keyword: {
+    category: PromptCategory;
+    scores: Record<string, number>; // Specificity-weighted keyword matches per category
+  };
+}
+
+// Input modality a model accepts (catalog `architecture.input_modalities`)
+export type InputModality = 'text' | 'image' | 'file' | 'audio' | 'video';
+
+// OpenAI-compatible multimodal message content
+export type ChatContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string; detail?: string } }
+  | {
+      type: 'file'; // PDFs and other documents
+      file: { filename?: string; file_data?: string; file_id?: string };
+    }
+  | { type: 'input_audio'; input_audio: { data: string; format: string } };
+
+// OpenAI-compatible chat completion shapes
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | ChatContentPart[];
+  name?: string;
+}
+
+// Prompt string or chat conversation accepted by getModelRecommendation
+export type PromptInput = string | ChatMessage[];
+
+// Attachment sent alongside the prompt, used to pick a model that accepts it
+export interface Attachment {
+  type: Exclude<InputModality, 'text'>; // 'file' covers PDFs and documents
+  mimeType?: string; // e.g. 'image/png', 'application/pdf'
+  name?: string;
+}
+
+export interface RecommendationOptions extends RequestControl {
+  attachments?: Attachment[]; // Non-text inputs the chosen model must accept
+  constraints?: RoutingConstraints; // Applied on top of RouterConfig.constraints
+  category?: PromptType; // Skip classification and route the prompt as this category
+  model?: string; // Serve this catalog model: hard filters still apply, category filtering and selection are skipped
+}
+
+export interface ChatCompletionRequest {
+  model: string;
+  messages: ChatMessage[];
+  temperature?: number;
+  max_tokens?: number;
+  [key: string]: unknown; // Extra provider parameters are passed through
+}
+
+export interface ChatCompletionUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+export interface ChatCompletionResponse {
+  id?: string;
+  model?: string;
+  choices: Array<{
+    index?: number;
+    message?: { role?: string; content?: string | null };
+    finish_reason?: string | null;
+  }>;
+  usage?: ChatCompletionUsage;
+}
+
+export interface ChatCompletionChunk {
+  id?: string;
+  model?: string;
+  choices?: Array<{
+    index?: number;
+    delta?: {
+      role?: string;
+      content?: string | null;
+      tool_calls?: ChatToolCallDelta[];
+    };
+    finish_reason?: string | null;
+  }>;
+  usage?: ChatCompletionUsage; // Usually only on the final chunk
+}
+
+// Piece of a streamed tool call; pieces with the same index build one call
+export interface ChatToolCallDelta {
+  index: number;
+  id?: string; // Only on the first piece
+  type?: 'function';
+  function?: { name?: string; arguments?: string }; // Arguments arrive as JSON fragments
+}
+
+// Execute mode (router.complete / router.stream)
+export interface CompletionOptions extends RecommendationOptions {
+  parameters?: Omit<ChatCompletionRequest, 'model' | 'messages'>; // temperature, max_tokens, ...
+  maxFallbacks?: number; // Alternatives to try after the primary fails; a non-negative integer (default: all)
+}
+
+export interface CompletionAttempt {
+  model: string;
+  success: boolean;
+  latencyMs: number;
+  statusCode?: number; // HTTP status of a failed attempt, when known
+  error?: string;
+}
+
+// Result of calling a selected model, reported via reportOutcome()
+export interface SelectionOutcome {
+  success: boolean;
+  statusCode?: number; // HTTP status of a failed call, when known
+  latencyMs?: number; // Whole call, until the last token
+  timeToFirstTokenMs?: number; // Streaming calls
+  completionTokens?: number; // Output tokens, for throughput
+  model?: string; // Model actually called, when it wasn't the selected one (e.g. an alternative)
+}
+
+// User rating of a selection, submitted via submitFeedback()
+export interface SelectionFeedback {
+  rating: number; // 0-1: How good the response was
+  categoryOverride?: PromptType; // Category the prompt really belonged to, if misclassified
+  model?: string; // Model actually rated, when it wasn't the selected one
+}
+
+export interface ModelFeedbackStats {
+  model: string;
+  category: PromptType;
+  quality: number; // 0-1: Decayed average rating
+  confidence: number; // 0-1: Share of the capability score taken by `quality`
+  weight: number; // Effective number of ratings after decay
+  updatedAt: number; // Epoch ms of the latest rating
+}
+
+export interface BanditStats {
+  selections: number; // Selections made by the 'bandit' strategy
+  explorations: number; // Selections that skipped the top local score
+  arms: BanditArmStats[];
+}
+
+export interface BanditArmStats {
+  model: string;
+  category: PromptType;
+  pulls: number; // Rewards received
+  meanReward: number; // 0-1
+}
+
+// One labeled prompt of an evaluation dataset (a line of the JSONL file)
+export interface EvaluationCase {
+  id?: string; // Reported with the case result (default: line or array index)
+  prompt: PromptInput;
+  properties?: Partial<PromptProperties>; // Merged over EvaluationOptions.properties
+  expectedCategory?: PromptType; // Scored by classification metrics when set
+  acceptableModels?: string[]; // Model ID globs counted as a good selection, e.g. ['anthropic/*']
+}
+
+export interface EvaluationOptions {
+  catalog: ModelInfo[] | string; // Catalog snapshot: models, or a JSON file (array or `/models` response)
+  properties?: Partial<PromptProperties>; // Defaults for every case (default: balanced, 1000 tokens)
+  baselineModel?: string; // Model every prompt would otherwise go to, for the cost comparison
+  constraints?: RoutingConstraints; // Router-wide constraints to evaluate with
+  rules?: RoutingRule[]; // Routing rules to evaluate with
+}
+
+export interface EvaluationReport {
+  cases: number;
+  errors: number; // Cases the router rejected (e.g. no candidate models)
+  durationMs: number;
+  classification: ClassificationMetrics;
+  selection: {
+    labeled: number; // Cases with acceptableModels
+    agreed: number; // Selected model matched acceptableModels
+    agreement: number; // 0-1: agreed / labeled
+  };
+  cost: {
+    estimatedUsd: number; // Selected models, prompt tokens plus tokenLimit output
+    baselineUsd?: number; // Same cases on baselineModel
+    savings?: number; // 1 - estimatedUsd / baselineUsd
+  };
+  results: EvaluationCaseResult[];
+}
+
+export interface ClassificationMetrics {
+  labeled: number; // Cases with expectedCategory
+  correct: number;
+  accuracy: number; // 0-1: correct / labeled
+  perCategory: Record<PromptType, CategoryMetrics>;
+  confusionMatrix: Record<PromptType, Record<PromptType, number>>; // Expected -> predicted -> count
+}
+
+export interface CategoryMetrics {
+  precision: number; // 0-1
+  recall: number; // 0-1
+  f1: number; // 0-1
+  support: number; // Cases expected in this category
+}
+
+export interface EvaluationCaseResult {
+  id: string;
+  expectedCategory?: PromptType;
+  category?: PromptType; // Classified category
+  model?: string; // Selected model
+  reasonCode?: SelectionReasonCode;
+  agreed?: boolean; // Set when the case has acceptableModels
+  estimatedUsd?: number;
+  baselineUsd?: number;
+  error?: string; // Why the router rejected the case
+}
+
+// OpenAI-compatible HTTP gateway (RoutingGateway)
+export interface GatewayConfig {
+  port?: number; // 0 picks a free port (default: 8080)
+  host?: string; // Interface to listen on (default: '127.0.0.1')
+  apiKeys?: string[]; // Bearer tokens clients must send; unset accepts every request
+  properties?: Partial<PromptProperties>; // Defaults for routed requests (default: balanced, 1000 tokens)
+  profiles?: Record<string, Partial<PromptProperties>>; // `auto:<name>` presets, merged over the built-in cheap, fast and best
+  maxBodyBytes?: number; // Larger request bodies are rejected with 413 (default: 1 MiB)
+}
+
+export type CircuitState =
+  | 'closed' // Healthy, receives traffic
+  | 'open' // Failing, excluded until the cooldown ends
+  | 'half_open'; // Cooldown over, one probe selection decides
+
+export interface CircuitHealth {
+  state: CircuitState;
+  consecutiveFailures: number;
+  totalSuccesses: number;
+  totalFailures: number;
+  openedAt?: number; // Epoch ms the circuit last opened
+  retryAt?: number; // Epoch ms the circuit half-opens
+  lastStatusCode?: number; // Last reported HTTP status
+  lastLatencyMs?: number; // Last reported latency
+}
+
+export interface LatencyStats {
+  samples: number; // Successful calls in the window
+  p50LatencyMs: number; // Whole call
+  p95LatencyMs: number;
+  p50TimeToFirstTokenMs?: number; // Only known from streaming calls
+  p95TimeToFirstTokenMs?: number;
+  tokensPerSecond?: number; // Median output throughput, when token counts were reported
+}
+
+export interface RouterHealth {
+  models: Record<string, CircuitHealth>; // Keyed by model ID (only models with reported outcomes)
+  providers: Record<string, CircuitHealth>; // Keyed by provider
+}
+
+export interface CompletionResult {
+  content: string; // Text of the first choice
+  model: string; // Model that produced the completion
+  selection: ModelSelection; // Routing decision (primary model + alternatives)
+  response: ChatCompletionResponse; // Raw completion response
+  usage?: ChatCompletionUsage;
+  latencyMs: number; // Total time including routing and failed attempts
+  completionLatencyMs: number; // Time taken by the successful model call
+  attempts: CompletionAttempt[]; // Every model tried, in order
+}
+
+export type RouterStreamEvent =
+  | { type: 'selection'; selection: ModelSelection } // Always the first event
+  | {
+      type: 'fallback'; // Model failed before its first token, trying the next one
+      failedModel: string;
+      nextModel: string;
+      error: string;
+      statusCode?: number;
+    }
+  | {
+      type: 'delta'; // One per upstream chunk with a choice: text, tool call, role or finish reason
+      model: string;
+      content: string; // Text of this chunk; empty for tool-call, role and finish-only chunks
+      chunk: ChatCompletionChunk;
+    }
+  | {
+      type: 'done';
+      model: string; // Model that produced the stream
+      content: string; // Full streamed text
+      finishReason?: string;
+      usage?: ChatCompletionUsage;
+      latencyMs: number; // Total time including routing
+      timeToFirstTokenMs: number; // From the successful request to its first text or tool-call delta
+      attempts: CompletionAttempt[];
+    };
+
 // Extended from your cache.ts ModelInfo to match OpenRouter API
 export interface ModelInfo {
   id: string;
@@ -63,6 +532,13 @@ export interface ModelInfo {
     max_completion_tokens?: number;
     is_moderated: boolean;
   };
+  supported_parameters?: string[]; // e.g. ['tools', 'tool_choice', 'response_format']
+  architecture?: {
+    modality?: string; // e.g. 'text+image->text'
+    input_modalities?: string[]; // e.g. ['text', 'image', 'file']
+    output_modalities?: string[];
+    tokenizer?: string;
+  };
 }
 
 // Processed model info for scoring
@@ -79,15 +555,23 @@ export interface ProcessedModel {
 }
 
 export interface ModelScore {
-  model: ProcessedModel;
-  score: number; // 0-1: Overall score
+  model: ModelProfile;
+  score: number; // 0-1: Overall score (weighted sum of the breakdown)
   breakdown: {
-    accuracy: number;
-    cost: number;
-    speed: number;
-    tokenLimit: number;
-    reasoning: number;
+    accuracy: number; // 0-1: Category capability blended with accuracy tier
+    cost: number; // 0-1: Cheapness (1 = free)
+    speed: number; // 0-1: Expected response speed
+    tokenLimit: number; // 0-1: Headroom for the requested tokenLimit
+    reasoning: number; // 0-1: Reasoning strength
   };
+  weights: ModelScore['breakdown']; // Weight of each dimension (sums to 1)
+  adjustments: ScoreAdjustment[]; // Bonuses/penalties added after weighting
+  reasoning: string; // Dimensions that contributed most to the score
+}
+
+export interface ScoreAdjustment {
+  source: string; // e.g. 'preferred_provider'
+  value: number; // Added to the weighted score (negative for penalties)
 }
 
 // Model profiling interfaces
@@ -109,6 +593,7 @@ export interface ModelCharacteristics {
   modelFamily: string; // e.g., 'gpt-4', 'claude-3', 'gemini'
   isReasoning: boolean; // Has chain-of-thought/reasoning capabilities
   isMultimodal: boolean; // Supports images/other modalities
+  inputModalities: InputModality[]; // Accepted inputs, from the catalog when reported
 }
 
 export interface ModelProfile {
@@ -122,9 +607,21 @@ export interface ModelProfile {
   completionCostPerToken: number;
   maxCompletionTokens?: number;
   isModerated: boolean;
+  supportedParameters?: string[]; // Request parameters from the catalog, when reported
+  supportedFeatures?: ModelFeatures; // Absent when the catalog doesn't report parameters
   profileConfidence: number; // 0-1: How confident we are in this profile
 }
 
+// API features derived from the catalog's `supported_parameters`
+export interface ModelFeatures {
+  tools: boolean; // Function calling
+  toolChoice: boolean; // Forcing a specific tool via `tool_choice`
+  responseFormat: boolean; // JSON mode (`response_format`)
+  structuredOutputs: boolean; // JSON-schema `response_format`
+  seed: boolean; // Deterministic sampling via `seed`
+  logprobs: boolean; // Token log probabilities
+}
+
 export interface CategoryModelRanking {
   category: PromptType;
   rankedModels: {
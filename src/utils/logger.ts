@@ -3,6 +3,9 @@ const isServer =
   typeof global !== 'undefined' && typeof process !== 'undefined';
 
 export class Logger {
+  // Turned off by the CLI so logs don't mix with command output
+  private static enabled = true;
+
   private context: string;
   private isServerContext: boolean;
   private colors = {
@@ -20,7 +23,15 @@ export class Logger {
     this.isServerContext = isServer;
   }
 
+  /**
+   * Enable or disable logging for every Logger instance
+   */
+  static setEnabled(enabled: boolean): void {
+    Logger.enabled = enabled;
+  }
+
   private shouldLog(): boolean {
+    if (!Logger.enabled) return false;
     // Always log server-side actions
     if (this.isServerContext) return true;
     // Only log client-side in development
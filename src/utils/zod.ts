@@ -0,0 +1,12 @@
+import type { z } from 'zod';
+
+/**
+ * Flatten zod issues into a single "path: message; ..." string
+ */
+export const formatZodIssues = (error: z.ZodError): string =>
+  error.issues
+    .map(
+      issue =>
+        `${issue.path.length > 0 ? issue.path.join('.') + ': ' : ''}${issue.message}`
+    )
+    .join('; ');
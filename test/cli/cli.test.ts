@@ -0,0 +1,284 @@
+import assert from 'node:assert/strict';
+import { execFile } from 'node:child_process';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { createCatalog } from '../helpers/fixtures.js';
+
+const CLI_PATH = new URL('../../src/cli.ts', import.meta.url).pathname;
+
+/**
+ * Run the CLI in a child process with the loaders this test runs under
+ */
+const runCli = (
+  args: string[]
+): Promise<{ code: number; stdout: string; stderr: string }> =>
+  new Promise(resolve => {
+    execFile(
+      process.execPath,
+      [...process.execArgv, CLI_PATH, ...args],
+      { timeout: 60_000, env: { ...process.env, OPEN_ROUTER_API_KEY: '' } },
+      (error, stdout, stderr) => {
+        resolve({
+          code: error ? Number(error.code ?? 1) : 0,
+          stdout,
+          stderr,
+        });
+      }
+    );
+  });
+
+const catalog = createCatalog([
+  'openai/gpt-4o',
+  'anthropic/claude-3-haiku',
+  'google/gemini-flash',
+]);
+
+let dir: string;
+let server: Server;
+let configPath: string;
+
+before(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'router-cli-'));
+
+  // Local stand-in for the `/models` endpoint
+  server = createServer((_request, response) => {
+    response.setHeader('content-type', 'application/json');
+    response.end(JSON.stringify(catalog));
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  configPath = join(dir, 'router.json');
+  await writeFile(
+    configPath,
+    JSON.stringify({
+      OPEN_ROUTER_API_KEY: 'test-key',
+      selectionStrategy: 'local',
+      transport: { baseUrl: `http://127.0.0.1:${port}/v1` },
+    })
+  );
+});
+
+after(async () => {
+  await new Promise(resolve => server.close(resolve));
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe('CLI', () => {
+  it('prints usage for --help and unknown commands', async () => {
+    const help = await runCli(['--help']);
+    const unknown = await runCli(['frobnicate']);
+
+    assert.equal(help.code, 0);
+    assert.match(help.stdout, /Usage: auto-llm-selector/);
+    assert.equal(unknown.code, 2);
+    assert.match(unknown.stderr, /Unknown command: frobnicate/);
+  });
+});
+
+describe('CLI recommend', () => {
+  it('recommends a model with the given properties', async () => {
+    const { code, stdout } = await runCli([
+      'recommend',
+      'Write a Python function',
+      '--config',
+      configPath,
+      '--reasoning',
+      '--accuracy',
+      '0.9',
+      '--json',
+    ]);
+
+    assert.equal(code, 0);
+    const selection = JSON.parse(stdout);
+    assert.ok(
+      catalog.data.some(model => model.id === selection.model),
+      `unexpected model ${selection.model}`
+    );
+    assert.equal(selection.reasonCode, 'local_scored');
+  });
+
+  it('explains the decision as text', async () => {
+    const { code, stdout } = await runCli([
+      'recommend',
+      'Hello there',
+      '--config',
+      configPath,
+      '--reasoning',
+    ]);
+
+    assert.equal(code, 0);
+    assert.match(stdout, /Model:/);
+  });
+
+  it('rejects invalid flag values', async () => {
+    const notANumber = await runCli(['recommend', 'Hi', '--accuracy', 'high']);
+    const outOfRange = await runCli(['recommend', 'Hi', '--accuracy', '2']);
+    const strategy = await runCli(['recommend', 'Hi', '--strategy', 'random']);
+
+    assert.equal(notANumber.code, 2);
+    assert.match(notANumber.stderr, /--accuracy must be a number/);
+    assert.equal(outOfRange.code, 1);
+    assert.match(outOfRange.stderr, /\[INVALID_INPUT\]/);
+    assert.equal(strategy.code, 2);
+    assert.match(strategy.stderr, /--strategy must be one of/);
+  });
+});
+
+describe('CLI classify', () => {
+  it('shows the combined, semantic and keyword results', async () => {
+    const { code, stdout } = await runCli([
+      'classify',
+      'Debug this Python function',
+      '--json',
+    ]);
+
+    assert.equal(code, 0);
+    const explanation = JSON.parse(stdout);
+    assert.ok(explanation.result.type);
+    assert.equal(explanation.keyword.category.type, 'coding');
+    assert.ok(explanation.semantic || explanation.semanticError);
+  });
+});
+
+describe('CLI models and catalog', () => {
+  it('lists models for a category from a snapshot', async () => {
+    const snapshot = join(dir, 'snapshot.json');
+    await writeFile(snapshot, JSON.stringify(catalog));
+
+    const { code, stdout } = await runCli([
+      'models',
+      'list',
+      '--catalog',
+      snapshot,
+      '--category',
+      'coding',
+      '--limit',
+      '2',
+      '--json',
+    ]);
+
+    assert.equal(code, 0);
+    assert.equal(JSON.parse(stdout).length, 2);
+  });
+
+  it('summarizes the live catalog', async () => {
+    const { code, stdout } = await runCli([
+      'catalog',
+      'refresh',
+      '--config',
+      configPath,
+      '--json',
+    ]);
+
+    assert.equal(code, 0);
+    const summary = JSON.parse(stdout);
+    assert.equal(summary.models, 3);
+    assert.equal(summary.providers, 3);
+  });
+
+  it('exports a snapshot that evaluate can read', async () => {
+    const output = join(dir, 'export.json');
+
+    const { code } = await runCli([
+      'catalog',
+      'export',
+      '--config',
+      configPath,
+      '--output',
+      output,
+    ]);
+
+    assert.equal(code, 0);
+    const exported = JSON.parse(await readFile(output, 'utf8'));
+    assert.deepEqual(
+      exported.data.map((model: { id: string }) => model.id),
+      catalog.data.map(model => model.id)
+    );
+  });
+
+  it('rejects unknown subcommands', async () => {
+    const models = await runCli(['models', 'show']);
+    const catalogCommand = await runCli(['catalog', 'delete']);
+
+    assert.equal(models.code, 2);
+    assert.match(models.stderr, /Expected "models list"/);
+    assert.equal(catalogCommand.code, 2);
+  });
+});
+
+describe('CLI evaluate', () => {
+  const writeInputs = async () => {
+    const dataset = join(dir, 'cases.jsonl');
+    const catalogPath = join(dir, 'catalog.json');
+    await writeFile(
+      dataset,
+      '{"prompt": "Write a Python function", "expectedCategory": "coding", "acceptableModels": ["*"]}\n'
+    );
+    await writeFile(catalogPath, JSON.stringify(catalog));
+    return { dataset, catalog: catalogPath };
+  };
+
+  it('prints a JSON report', async () => {
+    const { dataset, catalog } = await writeInputs();
+
+    const { code, stdout } = await runCli([
+      'evaluate',
+      dataset,
+      '--catalog',
+      catalog,
+      '--properties',
+      '{"reasoning": true}',
+      '--json',
+    ]);
+
+    assert.equal(code, 0);
+    const report = JSON.parse(stdout);
+    assert.equal(report.cases, 1);
+    assert.equal(report.selection.agreed, 1);
+  });
+
+  it('prints a text summary with the baseline comparison', async () => {
+    const { dataset, catalog } = await writeInputs();
+
+    const { code, stdout } = await runCli([
+      'evaluate',
+      dataset,
+      '--catalog',
+      catalog,
+      '--baseline',
+      'openai/gpt-4o',
+    ]);
+
+    assert.equal(code, 0);
+    assert.match(stdout, /Classification accuracy/);
+    assert.match(stdout, /on openai\/gpt-4o/);
+  });
+
+  it('rejects missing options with usage', async () => {
+    const { dataset } = await writeInputs();
+
+    const { code, stderr } = await runCli(['evaluate', dataset]);
+
+    assert.equal(code, 2);
+    assert.match(stderr, /requires --catalog/);
+  });
+
+  it('reports router errors with their code', async () => {
+    const { dataset } = await writeInputs();
+
+    const { code, stderr } = await runCli([
+      'evaluate',
+      dataset,
+      '--catalog',
+      join(dir, 'missing.json'),
+    ]);
+
+    assert.equal(code, 1);
+    assert.match(stderr, /\[INVALID_INPUT\]/);
+  });
+});
@@ -0,0 +1,237 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import {
+  ConfigLoader,
+  createRouterFromConfig,
+} from '../../src/config/loader.js';
+import { RouterError } from '../../src/errors.js';
+import type { PromptProperties, RoutingRule } from '../../src/types.js';
+import { createCatalog } from '../helpers/fixtures.js';
+
+let dir: string;
+
+const writeConfig = async (name: string, content: string) => {
+  const path = join(dir, name);
+  await writeFile(path, content);
+  return path;
+};
+
+before(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'router-config-'));
+});
+
+after(() => rm(dir, { recursive: true, force: true }));
+
+describe('ConfigLoader.load', () => {
+  const isConfigError = (pattern: RegExp) => (error: unknown) =>
+    error instanceof RouterError &&
+    error.code === 'INVALID_CONFIG' &&
+    pattern.test(error.message);
+
+  it('reads JSON and YAML files', async () => {
+    const json = await writeConfig(
+      'router.json',
+      JSON.stringify({ OPEN_ROUTER_API_KEY: 'file-key', maxScores: 3 })
+    );
+    const yaml = await writeConfig(
+      'router.yaml',
+      'OPEN_ROUTER_API_KEY: file-key\nselectionStrategy: local\nconstraints:\n  blockedProviders: [meta-llama]\n'
+    );
+
+    const fromJson = await ConfigLoader.load(json, { env: {} });
+    const fromYaml = await ConfigLoader.load(yaml, { env: {} });
+
+    assert.equal(fromJson.path, json);
+    assert.equal(fromJson.config.maxScores, 3);
+    assert.equal(fromYaml.config.selectionStrategy, 'local');
+    assert.deepEqual(fromYaml.config.constraints, {
+      blockedProviders: ['meta-llama'],
+    });
+  });
+
+  it('layers environment variables and overrides over the file', async () => {
+    const path = await writeConfig(
+      'layers.json',
+      JSON.stringify({
+        OPEN_ROUTER_API_KEY: 'file-key',
+        selectionStrategy: 'llm',
+        selectorModel: 'file/model',
+        transport: {
+          baseUrl: 'https://file.example/v1',
+          headers: { 'X-Team': 'search' },
+        },
+      })
+    );
+
+    const { config } = await ConfigLoader.load(path, {
+      env: {
+        OPEN_ROUTER_API_KEY: 'env-key',
+        ROUTER_SELECTION_STRATEGY: 'hybrid',
+        ROUTER_BASE_URL: 'http://localhost:8080/v1',
+        MODEL_SELECTOR_MODEL: '',
+      },
+      overrides: { selectionStrategy: 'local' },
+    });
+
+    assert.equal(config.OPEN_ROUTER_API_KEY, 'env-key');
+    assert.equal(config.selectionStrategy, 'local');
+    // Empty variables count as unset
+    assert.equal(config.selectorModel, 'file/model');
+    // Nested objects are merged, not replaced
+    assert.deepEqual(config.transport, {
+      baseUrl: 'http://localhost:8080/v1',
+      headers: { 'X-Team': 'search' },
+    });
+  });
+
+  it('finds the file through ROUTER_CONFIG_PATH', async () => {
+    const path = await writeConfig(
+      'from-env.json',
+      JSON.stringify({ OPEN_ROUTER_API_KEY: 'file-key' })
+    );
+
+    const result = await ConfigLoader.load(undefined, {
+      env: { ROUTER_CONFIG_PATH: path },
+    });
+
+    assert.equal(result.path, path);
+  });
+
+  it('applies the analytics endpoint only when analytics is configured', async () => {
+    const env = {
+      OPEN_ROUTER_API_KEY: 'env-key',
+      SUPABASE_ANALYTICS_ENDPOINT: 'https://analytics.example/ingest',
+    };
+    const analytics = {
+      enabled: true,
+      collectPromptMetrics: true,
+      collectModelPerformance: true,
+      collectSemanticFeatures: false,
+      collectSystemInfo: false,
+    };
+
+    const without = await ConfigLoader.load(undefined, { env });
+    const withAnalytics = await ConfigLoader.load(undefined, {
+      env,
+      overrides: { analytics },
+    });
+
+    assert.equal(without.config.analytics, undefined);
+    assert.equal(
+      withAnalytics.config.analytics?.endpoint,
+      'https://analytics.example/ingest'
+    );
+  });
+
+  it('rejects invalid environment variables', async () => {
+    await assert.rejects(
+      ConfigLoader.load(undefined, {
+        env: { OPEN_ROUTER_API_KEY: 'k', ROUTER_SELECTION_STRATEGY: 'random' },
+      }),
+      isConfigError(/Invalid environment variables/)
+    );
+  });
+
+  it('reports every invalid field with its path', async () => {
+    const path = await writeConfig(
+      'invalid.json',
+      JSON.stringify({
+        transport: { baseUrl: 'not a url' },
+        hybridMargin: 2,
+        unknownOption: true,
+      })
+    );
+
+    await assert.rejects(
+      ConfigLoader.load(path, { env: {} }),
+      (error: unknown) =>
+        isConfigError(/OPEN_ROUTER_API_KEY is required/)(error) &&
+        /transport\.baseUrl/.test((error as Error).message) &&
+        /hybridMargin/.test((error as Error).message) &&
+        /unknownOption/.test((error as Error).message)
+    );
+  });
+
+  it('rejects missing, unparsable and unsupported files', async () => {
+    const broken = await writeConfig(
+      'broken.json',
+      '{ "OPEN_ROUTER_API_KEY": '
+    );
+    const list = await writeConfig('list.yaml', '- a\n- b\n');
+    const toml = await writeConfig('router.toml', 'key = "value"');
+
+    await assert.rejects(
+      ConfigLoader.load(join(dir, 'missing.json'), { env: {} }),
+      isConfigError(/Config file not found/)
+    );
+    await assert.rejects(
+      ConfigLoader.load(broken, { env: {} }),
+      isConfigError(/Failed to parse config file/)
+    );
+    await assert.rejects(
+      ConfigLoader.load(list, { env: {} }),
+      isConfigError(/must contain an object/)
+    );
+    await assert.rejects(
+      ConfigLoader.load(toml, { env: {} }),
+      isConfigError(/unsupported extension/)
+    );
+  });
+});
+
+describe('createRouterFromConfig', () => {
+  const properties: PromptProperties = {
+    accuracy: 0.7,
+    cost: 0.5,
+    speed: 0.5,
+    tokenLimit: 1000,
+    reasoning: true,
+  };
+  const catalog = createCatalog(['openai/gpt-4o', 'anthropic/claude-3-haiku']);
+  const fakeFetch = (async () => Response.json(catalog)) as typeof fetch;
+
+  const pinTo = (model: string): string =>
+    JSON.stringify({
+      OPEN_ROUTER_API_KEY: 'file-key',
+      selectionStrategy: 'local',
+      rules: [
+        { id: `pin-${model}`, then: { action: 'pin', model } },
+      ] satisfies RoutingRule[],
+    });
+
+  it('applies valid edits to the running router and ignores invalid ones', async () => {
+    const path = await writeConfig('watched.json', pinTo('openai/gpt-4o'));
+    const router = await createRouterFromConfig(path, {
+      env: {},
+      overrides: { transport: { fetch: fakeFetch } },
+      watch: true,
+    });
+    await router.initialize();
+
+    const recommend = async () =>
+      (await router.getModelRecommendation('Hello', properties)).model;
+    const waitFor = async (model: string) => {
+      for (let i = 0; i < 40 && (await recommend()) !== model; i++) {
+        await new Promise(resolve => setTimeout(resolve, 50));
+      }
+      return recommend();
+    };
+
+    assert.equal(await recommend(), 'openai/gpt-4o');
+
+    await writeFile(path, pinTo('anthropic/claude-3-haiku'));
+    assert.equal(
+      await waitFor('anthropic/claude-3-haiku'),
+      'anthropic/claude-3-haiku'
+    );
+
+    await writeFile(path, '{ "selectionStrategy": "random" }');
+    await new Promise(resolve => setTimeout(resolve, 300));
+    assert.equal(await recommend(), 'anthropic/claude-3-haiku');
+
+    await router.shutdown();
+  });
+});
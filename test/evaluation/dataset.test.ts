@@ -0,0 +1,113 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { EvaluationDataset } from '../../src/evaluation/dataset.js';
+import { RouterError } from '../../src/errors.js';
+import { PromptType } from '../../src/types.js';
+
+const isInputError = (pattern: RegExp) => (error: unknown) =>
+  error instanceof RouterError &&
+  error.code === 'INVALID_INPUT' &&
+  pattern.test(error.message);
+
+describe('EvaluationDataset.parse', () => {
+  it('reads one case per line, skipping blanks and comments', () => {
+    const cases = EvaluationDataset.parse(
+      [
+        '# coding prompts',
+        '{"prompt": "Fix this bug", "expectedCategory": "coding"}',
+        '',
+        '{"id": "chat", "prompt": [{"role": "user", "content": "Hi"}], "properties": {"speed": 0.9}}',
+      ].join('\n')
+    );
+
+    assert.deepEqual(cases, [
+      { id: '2', prompt: 'Fix this bug', expectedCategory: PromptType.Coding },
+      {
+        id: 'chat',
+        prompt: [{ role: 'user', content: 'Hi' }],
+        properties: { speed: 0.9 },
+      },
+    ]);
+  });
+
+  it('reports the line of invalid JSON and invalid cases', () => {
+    assert.throws(
+      () => EvaluationDataset.parse('{"prompt": "a"}\n{"prompt": '),
+      isInputError(/line 2/)
+    );
+    assert.throws(
+      () =>
+        EvaluationDataset.parse(
+          '{"prompt": "a", "expectedCategory": "poetry"}',
+          'cases.jsonl'
+        ),
+      isInputError(/cases\.jsonl line 1.*expectedCategory/)
+    );
+  });
+});
+
+describe('EvaluationDataset.validate', () => {
+  it('fills in missing IDs with the index', () => {
+    const cases = EvaluationDataset.validate([
+      { prompt: 'a' },
+      { id: 'b', prompt: 'b' },
+    ]);
+
+    assert.deepEqual(
+      cases.map(evaluationCase => evaluationCase.id),
+      ['0', 'b']
+    );
+  });
+
+  it('rejects unknown fields and out-of-range properties', () => {
+    assert.throws(
+      () => EvaluationDataset.validate([{ prompt: 'a', model: 'x' }]),
+      isInputError(/dataset\[0\]/)
+    );
+    assert.throws(
+      () =>
+        EvaluationDataset.validateProperties({ accuracy: 2 }, '--properties'),
+      isInputError(/--properties.*accuracy/)
+    );
+  });
+});
+
+describe('EvaluationDataset files', () => {
+  let dir: string;
+
+  before(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'router-evaluation-'));
+  });
+
+  after(() => rm(dir, { recursive: true, force: true }));
+
+  it('loads catalog snapshots as arrays or /models responses', async () => {
+    const array = join(dir, 'array.json');
+    const response = join(dir, 'response.json');
+    await writeFile(array, JSON.stringify([{ id: 'openai/gpt-4o' }]));
+    await writeFile(response, JSON.stringify({ data: [{ id: 'x/y' }] }));
+
+    assert.equal(
+      (await EvaluationDataset.loadCatalog(array))[0]?.id,
+      'openai/gpt-4o'
+    );
+    assert.equal((await EvaluationDataset.loadCatalog(response))[0]?.id, 'x/y');
+  });
+
+  it('rejects unreadable and malformed files', async () => {
+    const malformed = join(dir, 'malformed.json');
+    await writeFile(malformed, JSON.stringify({ models: [] }));
+
+    await assert.rejects(
+      EvaluationDataset.load(join(dir, 'missing.jsonl')),
+      isInputError(/Cannot read/)
+    );
+    await assert.rejects(
+      EvaluationDataset.loadCatalog(malformed),
+      isInputError(/Invalid catalog snapshot/)
+    );
+  });
+});
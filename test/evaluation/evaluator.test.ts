@@ -0,0 +1,94 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { RoutingEvaluator } from '../../src/evaluation/evaluator.js';
+import { RouterError } from '../../src/errors.js';
+import { PromptType, type EvaluationCase } from '../../src/types.js';
+import { createCatalog } from '../helpers/fixtures.js';
+
+const catalog = createCatalog([
+  'openai/gpt-4o',
+  'anthropic/claude-3-haiku',
+  'google/gemini-flash',
+]).data;
+catalog[0]!.pricing = { prompt: '0.00001', completion: '0.00003' };
+
+const dataset: EvaluationCase[] = [
+  {
+    id: 'code',
+    prompt: 'Write a Python function that sorts a list',
+    expectedCategory: PromptType.Coding,
+    acceptableModels: ['anthropic/*', 'google/*'],
+  },
+  {
+    id: 'chat',
+    prompt: [{ role: 'user', content: 'Hi, how are you today?' }],
+    expectedCategory: PromptType.Conversational,
+  },
+  // No model can produce this much output
+  {
+    id: 'too-long',
+    prompt: 'Write a book',
+    properties: { tokenLimit: 50_000 },
+  },
+];
+
+describe('RoutingEvaluator.evaluate', () => {
+  it('replays every case and reports classification, selection and cost', async () => {
+    const report = await RoutingEvaluator.evaluate(dataset, {
+      catalog,
+      baselineModel: 'openai/gpt-4o',
+      properties: { reasoning: true, cost: 0 },
+    });
+
+    assert.equal(report.cases, 3);
+    assert.equal(report.errors, 1);
+    assert.match(
+      report.results.find(result => result.id === 'too-long')?.error ?? '',
+      /No models can fit/
+    );
+
+    const { classification } = report;
+    assert.equal(classification.labeled, 2);
+    const matrixTotal = Object.values(classification.confusionMatrix)
+      .flatMap(row => Object.values(row))
+      .reduce((sum, count) => sum + count, 0);
+    assert.equal(matrixTotal, 2);
+    assert.equal(classification.accuracy, classification.correct / 2);
+
+    assert.equal(report.selection.labeled, 1);
+    const code = report.results.find(result => result.id === 'code');
+    assert.equal(
+      code?.agreed,
+      !code?.model?.startsWith('openai/'),
+      'agreement follows acceptableModels'
+    );
+
+    // Cheaper models were picked over the expensive baseline
+    assert.ok((report.cost.baselineUsd ?? 0) > report.cost.estimatedUsd);
+    assert.ok((report.cost.savings ?? 0) > 0);
+  });
+
+  it('rejects a baseline missing from the catalog', async () => {
+    await assert.rejects(
+      RoutingEvaluator.evaluate(dataset, {
+        catalog,
+        baselineModel: 'x/unknown',
+      }),
+      (error: unknown) =>
+        error instanceof RouterError && error.code === 'INVALID_INPUT'
+    );
+  });
+
+  it('applies the given constraints', async () => {
+    const report = await RoutingEvaluator.evaluate(dataset.slice(0, 2), {
+      catalog,
+      properties: { reasoning: true },
+      constraints: { allowedProviders: ['google'] },
+    });
+
+    assert.deepEqual(
+      report.results.map(result => result.model),
+      ['google/gemini-flash', 'google/gemini-flash']
+    );
+  });
+});
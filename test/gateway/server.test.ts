@@ -0,0 +1,416 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { RoutingGateway } from '../../src/gateway/server.js';
+import { AutoPromptRouter } from '../../src/router.js';
+import type { GatewayConfig } from '../../src/types.js';
+import {
+  createCatalog,
+  createStreamResponse,
+  toEvents,
+} from '../helpers/fixtures.js';
+
+type Reply = (model: string) => Response;
+
+const ok: Reply = model =>
+  Response.json({
+    id: 'c1',
+    model,
+    choices: [{ index: 0, message: { role: 'assistant', content: 'hi' } }],
+  });
+
+const streamOk: Reply = model =>
+  createStreamResponse([
+    toEvents([
+      { id: 's1', model, choices: [{ delta: { content: 'Hel' } }] },
+      {
+        id: 's1',
+        model,
+        choices: [{ delta: { content: 'lo' }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 3, completion_tokens: 2, total_tokens: 5 },
+      },
+    ]),
+  ]);
+
+/**
+ * Gateway on a free port in front of a router whose fake server answers
+ * chat calls with `reply`, recording the upstream request bodies
+ */
+const createGateway = async (reply: Reply = ok, config: GatewayConfig = {}) => {
+  const upstream: Record<string, unknown>[] = [];
+  const fakeFetch = async (url: string, init: RequestInit) => {
+    if (url.endsWith('/models')) {
+      return Response.json(
+        createCatalog([
+          'openai/gpt-4o',
+          'anthropic/claude-3-haiku',
+          'google/gemini-flash',
+        ])
+      );
+    }
+    const body = JSON.parse(String(init.body)) as Record<string, unknown>;
+    upstream.push(body);
+    return reply(String(body.model));
+  };
+
+  const router = new AutoPromptRouter({
+    OPEN_ROUTER_API_KEY: 'test-key',
+    selectionStrategy: 'local',
+    transport: { fetch: fakeFetch as typeof fetch, retry: { maxRetries: 0 } },
+  });
+  await router.initialize();
+  const gateway = new RoutingGateway(router, {
+    port: 0,
+    properties: { reasoning: true },
+    ...config,
+  });
+  const { port } = await gateway.listen();
+
+  const close = async () => {
+    await gateway.close();
+    await router.shutdown();
+  };
+  return { baseUrl: `http://127.0.0.1:${port}/v1`, upstream, close };
+};
+
+const post = (url: string, body: unknown) =>
+  fetch(url, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  });
+
+describe('RoutingGateway', () => {
+  it('lists the auto models followed by the catalog', async () => {
+    const { baseUrl, close } = await createGateway();
+
+    const response = await fetch(`${baseUrl}/models`);
+    const { data } = (await response.json()) as { data: { id: string }[] };
+    const ids = data.map(model => model.id);
+
+    assert.equal(ids[0], 'auto');
+    assert.ok(ids.includes('auto:coding'));
+    assert.ok(ids.includes('auto:cheap'));
+    assert.deepEqual(ids.slice(-3).sort(), [
+      'anthropic/claude-3-haiku',
+      'google/gemini-flash',
+      'openai/gpt-4o',
+    ]);
+    await close();
+  });
+
+  it('routes auto requests and reports the decision in headers', async () => {
+    const { baseUrl, upstream, close } = await createGateway();
+
+    const response = await post(`${baseUrl}/chat/completions`, {
+      model: 'auto',
+      messages: [{ role: 'user', content: 'Say hi' }],
+      temperature: 0.2,
+    });
+    const body = (await response.json()) as { model: string };
+
+    assert.equal(response.status, 200);
+    assert.equal(body.model, upstream[0]?.model);
+    assert.equal(response.headers.get('x-router-model'), body.model);
+    assert.equal(response.headers.get('x-router-reason-code'), 'local_scored');
+    assert.equal(response.headers.get('x-router-attempts'), '1');
+    assert.ok(response.headers.get('x-router-selection-id'));
+    assert.equal(upstream[0]?.temperature, 0.2);
+    await close();
+  });
+
+  it('calls a concrete catalog model directly', async () => {
+    const { baseUrl, upstream, close } = await createGateway();
+
+    const response = await post(`${baseUrl}/chat/completions`, {
+      model: 'google/gemini-flash',
+      messages: [{ role: 'user', content: 'Say hi' }],
+    });
+
+    assert.equal(response.status, 200);
+    assert.equal(upstream[0]?.model, 'google/gemini-flash');
+    assert.equal(response.headers.get('x-router-reason-code'), 'requested');
+    await close();
+  });
+
+  it('relays streams as server-sent events', async () => {
+    const { baseUrl, upstream, close } = await createGateway(streamOk);
+
+    const response = await post(`${baseUrl}/chat/completions`, {
+      model: 'auto',
+      messages: [{ role: 'user', content: 'Say hi' }],
+      stream: true,
+    });
+    const text = await response.text();
+    const events = text
+      .split('\n\n')
+      .filter(Boolean)
+      .map(event => event.replace(/^data: /, ''));
+
+    assert.equal(response.headers.get('content-type'), 'text/event-stream');
+    assert.equal(response.headers.get('x-router-model'), upstream[0]?.model);
+    assert.equal(events.at(-1), '[DONE]');
+    const chunks = events.slice(0, -1).map(
+      event =>
+        JSON.parse(event) as {
+          choices: { delta: { content?: string }; finish_reason?: string }[];
+          usage?: { total_tokens: number };
+        }
+    );
+    assert.equal(
+      chunks.map(chunk => chunk.choices[0]?.delta.content ?? '').join(''),
+      'Hello'
+    );
+    assert.equal(chunks.at(-1)?.choices[0]?.finish_reason, 'stop');
+    assert.equal(chunks.at(-1)?.usage?.total_tokens, 5);
+    await close();
+  });
+
+  it('relays streamed tool calls end to end', async () => {
+    const toolCall = (args: string, first = false) => ({
+      index: 0,
+      ...(first && { id: 'call_1', type: 'function' }),
+      function: { ...(first && { name: 'get_weather' }), arguments: args },
+    });
+    const { baseUrl, close } = await createGateway(model =>
+      createStreamResponse([
+        toEvents([
+          { id: 's1', model, choices: [{ delta: { role: 'assistant' } }] },
+          {
+            id: 's1',
+            model,
+            choices: [{ delta: { tool_calls: [toolCall('{"ci', true)] } }],
+          },
+          {
+            id: 's1',
+            model,
+            choices: [{ delta: { tool_calls: [toolCall('ty":"Oslo"}')] } }],
+          },
+          {
+            id: 's1',
+            model,
+            choices: [{ delta: {}, finish_reason: 'tool_calls' }],
+          },
+          {
+            id: 's1',
+            model,
+            choices: [],
+            usage: { prompt_tokens: 9, completion_tokens: 5, total_tokens: 14 },
+          },
+        ]),
+      ])
+    );
+
+    const response = await post(`${baseUrl}/chat/completions`, {
+      model: 'auto',
+      messages: [{ role: 'user', content: 'Weather in Oslo?' }],
+      tools: [{ type: 'function', function: { name: 'get_weather' } }],
+      stream: true,
+    });
+    const chunks = (await response.text())
+      .split('\n\n')
+      .filter(event => event && event !== 'data: [DONE]')
+      .map(
+        event =>
+          JSON.parse(event.replace(/^data: /, '')) as {
+            choices: {
+              delta: {
+                role?: string;
+                tool_calls?: { function: { arguments: string } }[];
+              };
+              finish_reason?: string;
+            }[];
+            usage?: { total_tokens: number };
+          }
+      );
+
+    assert.equal(chunks[0]?.choices[0]?.delta.role, 'assistant');
+    assert.equal(
+      chunks
+        .flatMap(chunk => chunk.choices[0]?.delta.tool_calls ?? [])
+        .map(call => call.function.arguments)
+        .join(''),
+      '{"city":"Oslo"}'
+    );
+    assert.equal(chunks[3]?.choices[0]?.finish_reason, 'tool_calls');
+    assert.deepEqual(chunks[4]?.choices, []);
+    assert.equal(chunks[4]?.usage?.total_tokens, 14);
+    assert.equal(chunks.length, 5);
+    await close();
+  });
+
+  it('drops chunks of a model that failed before its first token', async () => {
+    let calls = 0;
+    const { baseUrl, upstream, close } = await createGateway(model =>
+      calls++ === 0
+        ? createStreamResponse([
+            toEvents([
+              { model, choices: [{ delta: { role: 'assistant' } }] },
+              { error: { message: 'overloaded', code: 503 } },
+            ]),
+          ])
+        : streamOk(model)
+    );
+
+    const response = await post(`${baseUrl}/chat/completions`, {
+      model: 'auto',
+      messages: [{ role: 'user', content: 'Say hi' }],
+      stream: true,
+    });
+    const text = await response.text();
+
+    assert.equal(response.headers.get('x-router-model'), upstream[1]?.model);
+    assert.ok(!text.includes(String(upstream[0]?.model)));
+    assert.match(text, /Hel/);
+    await close();
+  });
+
+  it('rejects requests without a valid API key', async () => {
+    const { baseUrl, close } = await createGateway(ok, {
+      apiKeys: ['secret'],
+    });
+
+    const denied = await fetch(`${baseUrl}/models`, {
+      headers: { authorization: 'Bearer wrong' },
+    });
+    const prefix = await fetch(`${baseUrl}/models`, {
+      headers: { authorization: 'Bearer secre' },
+    });
+    const allowed = await fetch(`${baseUrl}/models`, {
+      headers: { authorization: 'Bearer secret' },
+    });
+
+    assert.equal(denied.status, 401);
+    assert.equal(prefix.status, 401);
+    assert.equal(
+      ((await denied.json()) as { error: { code: string } }).error.code,
+      'invalid_api_key'
+    );
+    assert.equal(allowed.status, 200);
+    await close();
+  });
+
+  it('answers bad requests with OpenAI-style errors', async () => {
+    const { baseUrl, upstream, close } = await createGateway(ok, {
+      maxBodyBytes: 200,
+    });
+    const codeOf = async (response: Response) =>
+      [
+        response.status,
+        ((await response.json()) as { error: { code: string } }).error.code,
+      ] as const;
+
+    assert.deepEqual(
+      await codeOf(await post(`${baseUrl}/chat/completions`, '{not json')),
+      [400, 'invalid_json']
+    );
+    assert.deepEqual(
+      await codeOf(
+        await post(`${baseUrl}/chat/completions`, { model: 'auto' })
+      ),
+      [400, 'invalid_request']
+    );
+    assert.deepEqual(
+      await codeOf(
+        await post(`${baseUrl}/chat/completions`, {
+          model: 'auto:unknown',
+          messages: [{ role: 'user', content: 'hi' }],
+        })
+      ),
+      [404, 'model_not_found']
+    );
+    assert.deepEqual(
+      await codeOf(
+        await post(`${baseUrl}/chat/completions`, {
+          model: 'auto',
+          messages: [{ role: 'user', content: 'x'.repeat(300) }],
+        })
+      ),
+      [413, 'request_too_large']
+    );
+    assert.deepEqual(await codeOf(await fetch(`${baseUrl}/unknown`)), [
+      404,
+      'not_found',
+    ]);
+    assert.deepEqual(await codeOf(await fetch(`${baseUrl}/chat/completions`)), [
+      405,
+      'method_not_allowed',
+    ]);
+    assert.equal(upstream.length, 0);
+    await close();
+  });
+
+  it('rejects unknown message roles and content part types', async () => {
+    const { baseUrl, upstream, close } = await createGateway();
+    const send = (message: Record<string, unknown>) =>
+      post(`${baseUrl}/chat/completions`, {
+        model: 'auto',
+        messages: [message],
+      });
+
+    const badRole = await send({ role: 'developer', content: 'hi' });
+    const badPart = await send({
+      role: 'user',
+      content: [{ type: 'video_url', video_url: { url: 'https://x' } }],
+    });
+    const image = await send({
+      role: 'user',
+      content: [
+        { type: 'text', text: 'What is this?' },
+        { type: 'image_url', image_url: { url: 'https://x/cat.png' } },
+      ],
+    });
+
+    assert.equal(badRole.status, 400);
+    assert.equal(badPart.status, 400);
+    assert.match(
+      ((await badPart.json()) as { error: { message: string } }).error.message,
+      /image_url/
+    );
+    assert.equal(image.status, 200);
+    assert.equal(upstream.length, 1);
+    await close();
+  });
+
+  it('passes upstream client errors through', async () => {
+    const { baseUrl, close } = await createGateway(
+      () => new Response('bad request', { status: 400 })
+    );
+
+    const response = await post(`${baseUrl}/chat/completions`, {
+      model: 'auto',
+      messages: [{ role: 'user', content: 'Say hi' }],
+    });
+
+    assert.equal(response.status, 400);
+    await close();
+  });
+
+  it('drops open connections when closed', async () => {
+    // Upstream stream that sends one chunk and never ends
+    const { baseUrl, close } = await createGateway(
+      model =>
+        new Response(
+          new ReadableStream<Uint8Array>({
+            start(controller) {
+              controller.enqueue(
+                new TextEncoder().encode(
+                  `data: ${JSON.stringify({ model, choices: [{ delta: { content: 'Hi' } }] })}\n\n`
+                )
+              );
+            },
+          }),
+          { headers: { 'Content-Type': 'text/event-stream' } }
+        )
+    );
+    const response = await post(`${baseUrl}/chat/completions`, {
+      model: 'auto',
+      messages: [{ role: 'user', content: 'Say hi' }],
+      stream: true,
+    });
+    assert.equal(response.status, 200);
+
+    await close();
+
+    await assert.rejects(response.text());
+  });
+});
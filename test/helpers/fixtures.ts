@@ -0,0 +1,114 @@
+import type { ModelInfo, ModelProfile, ModelScore } from '../../src/types.js';
+
+type ProfileOverrides = Partial<Omit<ModelProfile, 'characteristics'>> & {
+  characteristics?: Partial<ModelProfile['characteristics']>;
+};
+
+/**
+ * Minimal model profile; the provider is taken from the model ID prefix
+ */
+export const createProfile = (
+  id: string,
+  overrides: ProfileOverrides = {}
+): ModelProfile => {
+  const { characteristics, ...rest } = overrides;
+  return {
+    id,
+    name: id,
+    capabilities: {
+      coding: 0.7,
+      creative: 0.7,
+      analytical: 0.7,
+      reasoning: 0.7,
+      conversational: 0.7,
+      general: 0.7,
+    },
+    characteristics: {
+      speedTier: 'fast',
+      costTier: 'cheap',
+      accuracyTier: 'good',
+      contextTier: 'large',
+      provider: id.split('/')[0] ?? 'unknown',
+      modelFamily: id,
+      isReasoning: false,
+      isMultimodal: false,
+      inputModalities: ['text'],
+      ...characteristics,
+    },
+    contextLength: 128_000,
+    promptCostPerToken: 0.000001,
+    completionCostPerToken: 0.000002,
+    isModerated: false,
+    profileConfidence: 1,
+    ...rest,
+  };
+};
+
+/**
+ * Model score with every breakdown dimension set to `score`
+ */
+export const createScore = (id: string, score: number): ModelScore => {
+  const breakdown = {
+    accuracy: score,
+    cost: score,
+    speed: score,
+    tokenLimit: score,
+    reasoning: score,
+  };
+  return {
+    model: createProfile(id),
+    score,
+    breakdown,
+    weights: {
+      accuracy: 0.2,
+      cost: 0.2,
+      speed: 0.2,
+      tokenLimit: 0.2,
+      reasoning: 0.2,
+    },
+    adjustments: [],
+    reasoning: 'fixture',
+  };
+};
+
+/**
+ * Catalog entries in the OpenRouter `/models` format
+ */
+export const createCatalog = (ids: string[]): { data: ModelInfo[] } => ({
+  data: ids.map(id => ({
+    id,
+    name: id,
+    context_length: 128_000,
+    pricing: { prompt: '0.000001', completion: '0.000002' },
+    top_provider: { max_completion_tokens: 4096, is_moderated: false },
+  })),
+});
+
+/**
+ * Streaming response body made of the given pieces, one read each
+ */
+export const createStreamResponse = (
+  pieces: (string | Uint8Array)[]
+): Response => {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const piece of pieces) {
+        controller.enqueue(
+          typeof piece === 'string' ? encoder.encode(piece) : piece
+        );
+      }
+      controller.close();
+    },
+  });
+  return new Response(body, {
+    headers: { 'Content-Type': 'text/event-stream' },
+  });
+};
+
+/**
+ * Server-sent events for the given chunks, terminated by [DONE]
+ */
+export const toEvents = (chunks: unknown[]): string =>
+  chunks.map(chunk => `data: ${JSON.stringify(chunk)}\n\n`).join('') +
+  'data: [DONE]\n\n';
@@ -0,0 +1,144 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { BanditSelector } from '../../src/lib/bandit-selector.js';
+import { PromptType, type BanditConfig } from '../../src/types.js';
+import { createScore } from '../helpers/fixtures.js';
+
+// Sorted best first, as the router passes them
+const scores = [
+  createScore('openai/gpt-4o', 0.8),
+  createScore('anthropic/claude-3-haiku', 0.78),
+  createScore('google/gemini-flash', 0.75),
+  createScore('meta-llama/llama-3.1-8b', 0.5),
+];
+
+/**
+ * Models chosen for `count` selections, rewarding every call as successful
+ */
+const run = (bandit: BanditSelector, count: number): string[] => {
+  const chosen: string[] = [];
+  for (let i = 0; i < count; i++) {
+    const choice = bandit.choose(`s${i}`, scores, PromptType.Coding);
+    assert.ok(choice);
+    chosen.push(choice.score.model.id);
+    bandit.recordOutcome(`s${i}`, choice.score.model.id, {
+      success: true,
+      latencyMs: 1000,
+    });
+  }
+  return chosen;
+};
+
+describe('BanditSelector', () => {
+  const config: BanditConfig = { seed: 42, explorationBudget: 0.3 };
+
+  it('reproduces the same selections from the same seed', () => {
+    const first = run(new BanditSelector(config), 100);
+    const second = run(new BanditSelector(config), 100);
+
+    assert.deepEqual(first, second);
+    assert.ok(new Set(first).size > 1, 'never explored');
+  });
+
+  it('restarts the sequence when configured with a new seed', () => {
+    const bandit = new BanditSelector(config);
+    bandit.configure({ ...config, seed: 7 });
+
+    assert.deepEqual(
+      run(bandit, 50),
+      run(new BanditSelector({ ...config, seed: 7 }), 50)
+    );
+  });
+
+  it('stays within the exploration budget', () => {
+    const bandit = new BanditSelector({ seed: 1, explorationBudget: 0.1 });
+    run(bandit, 200);
+
+    const stats = bandit.getStats();
+    assert.equal(stats.selections, 200);
+    assert.ok(stats.explorations > 0);
+    assert.ok(stats.explorations <= 0.1 * stats.selections);
+  });
+
+  it('always exploits with a zero budget', () => {
+    const bandit = new BanditSelector({ seed: 3, explorationBudget: 0 });
+
+    assert.deepEqual(new Set(run(bandit, 50)), new Set([scores[0]?.model.id]));
+  });
+
+  it('only explores candidates close to the top score', () => {
+    const bandit = new BanditSelector({
+      seed: 5,
+      explorationBudget: 1,
+      maxScoreGap: 0.1,
+      maxCandidates: 2,
+    });
+
+    assert.deepEqual([...new Set(run(bandit, 100))].sort(), [
+      'anthropic/claude-3-haiku',
+      'openai/gpt-4o',
+    ]);
+  });
+
+  it('learns away from a model whose calls fail', () => {
+    const bandit = new BanditSelector({ seed: 11, explorationBudget: 1 });
+    const chosen: string[] = [];
+    for (let i = 0; i < 200; i++) {
+      const choice = bandit.choose(`s${i}`, scores, PromptType.Coding);
+      assert.ok(choice);
+      const model = choice.score.model.id;
+      chosen.push(model);
+      bandit.recordOutcome(`s${i}`, model, {
+        success: model !== 'openai/gpt-4o',
+        ...(model === 'openai/gpt-4o' && { statusCode: 503 }),
+      });
+    }
+
+    const late = chosen.slice(100);
+    assert.ok(
+      late.filter(model => model === 'openai/gpt-4o').length < 10,
+      'kept choosing the failing model'
+    );
+  });
+
+  it('counts only the first outcome and ignores client errors', () => {
+    const bandit = new BanditSelector({ seed: 1 });
+    const choice = bandit.choose('a', scores, PromptType.Coding);
+    assert.ok(choice);
+    const model = choice.score.model.id;
+
+    bandit.recordOutcome('a', model, { success: true });
+    bandit.recordOutcome('a', model, { success: false, statusCode: 500 });
+    bandit.choose('b', scores, PromptType.Coding);
+    bandit.recordOutcome('b', model, { success: false, statusCode: 400 });
+
+    assert.deepEqual(
+      bandit.getStats().arms.map(arm => [arm.model, arm.pulls]),
+      [[model, 1]]
+    );
+  });
+
+  it('rewards feedback separately from the outcome', () => {
+    const bandit = new BanditSelector({ seed: 1 });
+    const choice = bandit.choose('a', scores, PromptType.Coding);
+    assert.ok(choice);
+    const model = choice.score.model.id;
+
+    bandit.recordOutcome('a', model, { success: true });
+    bandit.recordFeedback('a', { rating: 0 });
+    bandit.recordFeedback('a', { rating: 1 });
+
+    const [arm] = bandit.getStats().arms;
+    assert.equal(arm?.pulls, 2);
+    assert.ok((arm?.meanReward ?? 1) < 0.7);
+  });
+
+  it('chooses deterministically with UCB', () => {
+    const ucb = { algorithm: 'ucb', explorationBudget: 0.3 } as const;
+
+    assert.deepEqual(
+      run(new BanditSelector(ucb), 50),
+      run(new BanditSelector(ucb), 50)
+    );
+  });
+});
@@ -0,0 +1,144 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { ConstraintFilter } from '../../src/lib/constraints.js';
+import { createProfile } from '../helpers/fixtures.js';
+
+const profiles = [
+  createProfile('openai/gpt-4o', { isModerated: true }),
+  createProfile('anthropic/claude-3-haiku'),
+  createProfile('anthropic/claude-3.5-sonnet'),
+  createProfile('meta-llama/llama-3-8b:free'),
+];
+
+const ids = (filtered: { id: string }[]) => filtered.map(({ id }) => id);
+
+describe('ConstraintFilter.apply', () => {
+  it('keeps everything without constraints', () => {
+    assert.equal(ConstraintFilter.apply(profiles, [undefined]), profiles);
+  });
+
+  it('filters by allowed and blocked providers, case-insensitively', () => {
+    assert.deepEqual(
+      ids(
+        ConstraintFilter.apply(profiles, [
+          { allowedProviders: ['OpenAI', 'anthropic'] },
+        ])
+      ),
+      [
+        'openai/gpt-4o',
+        'anthropic/claude-3-haiku',
+        'anthropic/claude-3.5-sonnet',
+      ]
+    );
+    assert.deepEqual(
+      ids(
+        ConstraintFilter.apply(profiles, [{ blockedProviders: ['anthropic'] }])
+      ),
+      ['openai/gpt-4o', 'meta-llama/llama-3-8b:free']
+    );
+  });
+
+  it('filters by model globs', () => {
+    assert.deepEqual(
+      ids(
+        ConstraintFilter.apply(profiles, [
+          { allowedModels: ['anthropic/claude-3*'], blockedModels: ['*haiku'] },
+        ])
+      ),
+      ['anthropic/claude-3.5-sonnet']
+    );
+    assert.deepEqual(
+      ids(ConstraintFilter.apply(profiles, [{ blockedModels: ['*:free'] }])),
+      [
+        'openai/gpt-4o',
+        'anthropic/claude-3-haiku',
+        'anthropic/claude-3.5-sonnet',
+      ]
+    );
+  });
+
+  it('keeps only moderated models when asked', () => {
+    assert.deepEqual(
+      ids(ConstraintFilter.apply(profiles, [{ moderatedOnly: true }])),
+      ['openai/gpt-4o']
+    );
+  });
+
+  it('requires every constraint set to pass', () => {
+    assert.deepEqual(
+      ids(
+        ConstraintFilter.apply(profiles, [
+          { allowedProviders: ['anthropic'] },
+          { blockedModels: ['*sonnet'] },
+        ])
+      ),
+      ['anthropic/claude-3-haiku']
+    );
+  });
+});
+
+describe('ConstraintFilter.matchesGlob', () => {
+  it('matches `*` and `?` and escapes everything else', () => {
+    assert.equal(
+      ConstraintFilter.matchesGlob('openai/gpt-4o', 'openai/*'),
+      true
+    );
+    assert.equal(
+      ConstraintFilter.matchesGlob('openai/gpt-4o', 'openai/gpt-4?'),
+      true
+    );
+    assert.equal(
+      ConstraintFilter.matchesGlob('openai/gpt-4o', 'gpt-4o'),
+      false
+    );
+    assert.equal(
+      ConstraintFilter.matchesGlob(
+        'anthropic/claude-3x5',
+        'anthropic/claude-3.5'
+      ),
+      false
+    );
+  });
+});
+
+describe('ConstraintFilter.getAdjustments', () => {
+  const [gpt, haiku] = profiles;
+
+  it('boosts preferred providers by the configured amount', () => {
+    assert.deepEqual(
+      ConstraintFilter.getAdjustments(
+        haiku!,
+        { preferredProviders: ['anthropic'], preferredProviderBoost: 0.2 },
+        undefined
+      ),
+      [{ source: 'preferred_provider', value: 0.2 }]
+    );
+    assert.deepEqual(
+      ConstraintFilter.getAdjustments(
+        gpt!,
+        { preferredProviders: ['anthropic'] },
+        undefined
+      ),
+      []
+    );
+  });
+
+  it('defaults the boost and lets request preferences replace router ones', () => {
+    assert.deepEqual(
+      ConstraintFilter.getAdjustments(
+        gpt!,
+        { preferredProviders: ['anthropic'] },
+        { preferredProviders: ['openai'] }
+      ),
+      [{ source: 'preferred_provider', value: 0.1 }]
+    );
+    assert.deepEqual(
+      ConstraintFilter.getAdjustments(
+        haiku!,
+        { preferredProviders: ['anthropic'] },
+        { preferredProviders: ['openai'] }
+      ),
+      []
+    );
+  });
+});
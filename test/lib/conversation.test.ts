@@ -0,0 +1,75 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { ConversationAnalyzer } from '../../src/lib/conversation.js';
+import { RouterError } from '../../src/errors.js';
+
+describe('ConversationAnalyzer.analyze', () => {
+  it('treats a string as a single user turn', () => {
+    const conversation = ConversationAnalyzer.analyze('Fix this bug');
+
+    assert.deepEqual(conversation.messages, [
+      { role: 'user', content: 'Fix this bug' },
+    ]);
+    assert.equal(conversation.latestUserPrompt, 'Fix this bug');
+    assert.equal(conversation.systemPrompt, '');
+    assert.equal(conversation.history, '');
+  });
+
+  it('splits system prompt, history and the latest user turn', () => {
+    const conversation = ConversationAnalyzer.analyze([
+      { role: 'system', content: 'You are a code reviewer' },
+      { role: 'user', content: 'Review this function' },
+      { role: 'assistant', content: 'Looks fine' },
+      { role: 'user', content: 'What about the tests?' },
+    ]);
+
+    assert.equal(conversation.latestUserPrompt, 'What about the tests?');
+    assert.equal(conversation.systemPrompt, 'You are a code reviewer');
+    assert.equal(conversation.history, 'Review this function\nLooks fine');
+  });
+
+  it('falls back to all text without a user turn', () => {
+    const conversation = ConversationAnalyzer.analyze([
+      { role: 'system', content: 'Be brief' },
+      { role: 'assistant', content: 'Hello' },
+    ]);
+
+    assert.equal(conversation.latestUserPrompt, 'Be brief\nHello');
+  });
+
+  it('counts tokens across every message', () => {
+    const single = ConversationAnalyzer.analyze('a'.repeat(400));
+    const multi = ConversationAnalyzer.analyze([
+      { role: 'user', content: 'a'.repeat(400) },
+      { role: 'assistant', content: 'a'.repeat(400) },
+    ]);
+
+    assert.equal(multi.totalChars, 800);
+    assert.ok(multi.estimatedTokens > 2 * (single.estimatedTokens - 4));
+  });
+
+  it('collects non-text inputs from content parts', () => {
+    const conversation = ConversationAnalyzer.analyze([
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: 'What is in this picture?' },
+          { type: 'image_url', image_url: { url: 'https://x/cat.png' } },
+          { type: 'file', file: { filename: 'notes.pdf' } },
+        ],
+      },
+    ]);
+
+    assert.equal(conversation.latestUserPrompt, 'What is in this picture?');
+    assert.deepEqual(conversation.inputModalities, ['image', 'file']);
+    assert.equal(conversation.totalChars, 24);
+  });
+
+  it('rejects empty conversations', () => {
+    assert.throws(
+      () => ConversationAnalyzer.analyze([]),
+      (error: unknown) =>
+        error instanceof RouterError && error.code === 'INVALID_INPUT'
+    );
+  });
+});
@@ -0,0 +1,210 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { FeedbackLearner } from '../../src/lib/feedback-learner.js';
+import { RouterError } from '../../src/errors.js';
+import { PromptType } from '../../src/types.js';
+import { createProfile } from '../helpers/fixtures.js';
+
+const gpt = createProfile('openai/gpt-4o');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Learner with `count` tracked selections of gpt-4o for coding, IDs s0..sN
+ */
+const createLearner = (
+  count: number,
+  config: ConstructorParameters<typeof FeedbackLearner>[0] = {}
+) => {
+  const learner = new FeedbackLearner(config);
+  for (let i = 0; i < count; i++) {
+    learner.trackSelection(`s${i}`, gpt.id, PromptType.Coding);
+  }
+  return learner;
+};
+
+describe('FeedbackLearner.submit', () => {
+  it('accepts one rating per tracked selection', () => {
+    const learner = createLearner(1);
+
+    assert.equal(learner.submit('s0', { rating: 1 }), true);
+    assert.equal(learner.submit('s0', { rating: 1 }), false);
+    assert.equal(learner.submit('unknown', { rating: 1 }), false);
+    assert.equal(learner.getStats().length, 1);
+  });
+
+  it('rejects ratings outside 0-1', () => {
+    const learner = createLearner(1);
+
+    for (const rating of [-0.1, 1.5, Number.NaN]) {
+      assert.throws(
+        () => learner.submit('s0', { rating }),
+        (error: unknown) =>
+          error instanceof RouterError && error.code === 'INVALID_INPUT'
+      );
+    }
+    // The selection can still be rated
+    assert.equal(learner.submit('s0', { rating: 0.5 }), true);
+  });
+
+  it('rejects feedback that could not be loaded again', () => {
+    const learner = createLearner(1);
+
+    for (const feedback of [
+      { rating: 0.5, categoryOverride: 'poetry' as PromptType },
+      { rating: 0.5, model: '' },
+    ]) {
+      assert.throws(
+        () => learner.submit('s0', feedback),
+        (error: unknown) =>
+          error instanceof RouterError && error.code === 'INVALID_INPUT'
+      );
+    }
+    assert.equal(learner.submit('s0', { rating: 0.5 }), true);
+  });
+
+  it('credits the category override and the rated model', () => {
+    const learner = createLearner(1);
+
+    learner.submit('s0', {
+      rating: 0.2,
+      categoryOverride: PromptType.Creative,
+      model: 'anthropic/claude-3-haiku',
+    });
+
+    const [stats] = learner.getStats();
+    assert.equal(stats?.model, 'anthropic/claude-3-haiku');
+    assert.equal(stats?.category, PromptType.Creative);
+  });
+
+  it('decays older ratings', t => {
+    t.mock.timers.enable({ apis: ['Date'], now: 0 });
+    const learner = createLearner(2, { halfLifeDays: 1 });
+
+    learner.submit('s0', { rating: 0 });
+    t.mock.timers.tick(DAY_MS);
+    learner.submit('s1', { rating: 1 });
+
+    const [stats] = learner.getStats();
+    assert.equal(stats?.weight, 1.5);
+    assert.ok(Math.abs((stats?.quality ?? 0) - 2 / 3) < 1e-9);
+  });
+});
+
+describe('FeedbackLearner.apply', () => {
+  it('blends learned quality in as ratings accumulate', () => {
+    const learner = createLearner(5, { priorStrength: 5 });
+    const base = gpt.capabilities.coding;
+
+    learner.submit('s0', { rating: 0 });
+    const afterOne = learner.apply([gpt])[0]?.capabilities.coding ?? 0;
+    for (let i = 1; i < 5; i++) learner.submit(`s${i}`, { rating: 0 });
+    const afterFive = learner.apply([gpt])[0]?.capabilities.coding ?? 0;
+
+    assert.ok(Math.abs(afterOne - (base * 5) / 6) < 1e-9);
+    assert.ok(Math.abs(afterFive - base / 2) < 1e-9);
+    // Other categories and models are untouched
+    assert.equal(learner.apply([gpt])[0]?.capabilities.creative, 0.7);
+    const haiku = createProfile('anthropic/claude-3-haiku');
+    assert.equal(learner.apply([haiku])[0], haiku);
+  });
+
+  it('leaves profiles alone when disabled', () => {
+    const learner = createLearner(1, { enabled: false });
+    learner.submit('s0', { rating: 0 });
+
+    assert.equal(learner.apply([gpt])[0], gpt);
+  });
+});
+
+describe('FeedbackLearner persistence', () => {
+  let dir: string;
+
+  before(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'router-feedback-'));
+  });
+
+  after(() => rm(dir, { recursive: true, force: true }));
+
+  it('saves on flush and restores on load', async t => {
+    t.mock.timers.enable({ apis: ['Date'], now: 0 });
+    const persistPath = join(dir, 'feedback.json');
+    const learner = createLearner(1, { persistPath });
+    learner.submit('s0', { rating: 0.8 });
+
+    await learner.flush();
+    const restored = new FeedbackLearner({ persistPath });
+    await restored.load();
+
+    assert.deepEqual(restored.getStats(), learner.getStats());
+    const saved = JSON.parse(await readFile(persistPath, 'utf8'));
+    assert.equal(saved.version, 1);
+  });
+
+  it('keeps ratings submitted after the file was written', async t => {
+    t.mock.timers.enable({ apis: ['Date'], now: 0 });
+    const persistPath = join(dir, 'merge.json');
+    const writer = createLearner(1, { persistPath });
+    writer.trackSelection('h', 'anthropic/claude-3-haiku', PromptType.Coding);
+    writer.submit('s0', { rating: 0 });
+    writer.submit('h', { rating: 0 });
+    await writer.flush();
+
+    t.mock.timers.tick(DAY_MS);
+    const learner = createLearner(1, { persistPath });
+    learner.submit('s0', { rating: 1 });
+    await learner.load();
+
+    const stats = learner.getStats();
+    assert.equal(stats.length, 2);
+    assert.equal(stats.find(entry => entry.model === gpt.id)?.quality, 1);
+    assert.equal(
+      stats.find(entry => entry.model === 'anthropic/claude-3-haiku')?.quality,
+      0
+    );
+    await learner.flush();
+  });
+
+  it('starts empty without a file', async () => {
+    const learner = new FeedbackLearner({
+      persistPath: join(dir, 'missing.json'),
+    });
+
+    await learner.load();
+
+    assert.deepEqual(learner.getStats(), []);
+  });
+
+  it('rejects invalid files', async () => {
+    const broken = join(dir, 'broken.json');
+    const invalid = join(dir, 'invalid.json');
+    await writeFile(broken, '{ "version": ');
+    await writeFile(invalid, JSON.stringify({ version: 2, entries: [] }));
+
+    for (const persistPath of [broken, invalid]) {
+      await assert.rejects(
+        new FeedbackLearner({ persistPath }).load(),
+        (error: unknown) =>
+          error instanceof RouterError && error.code === 'INVALID_CONFIG'
+      );
+    }
+  });
+
+  it('forgets one model or all', () => {
+    const learner = createLearner(1);
+    learner.submit('s0', { rating: 1 });
+    learner.trackSelection('h', 'anthropic/claude-3-haiku', PromptType.Coding);
+    learner.submit('h', { rating: 1 });
+
+    learner.reset(gpt.id);
+    assert.deepEqual(
+      learner.getStats().map(stats => stats.model),
+      ['anthropic/claude-3-haiku']
+    );
+
+    learner.reset();
+    assert.deepEqual(learner.getStats(), []);
+  });
+});
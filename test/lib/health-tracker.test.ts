@@ -0,0 +1,144 @@
+import assert from 'node:assert/strict';
+import { beforeEach, describe, it, type TestContext } from 'node:test';
+import { HealthTracker } from '../../src/lib/health-tracker.js';
+import { createProfile } from '../helpers/fixtures.js';
+
+const gpt = createProfile('openai/gpt-4o');
+const gptMini = createProfile('openai/gpt-4o-mini');
+const haiku = createProfile('anthropic/claude-3-haiku');
+
+const failure = { success: false, statusCode: 503 };
+
+describe('HealthTracker circuit breaker', () => {
+  let tracker: HealthTracker;
+
+  beforeEach(() => {
+    tracker = new HealthTracker({
+      failureThreshold: 2,
+      providerFailureThreshold: 3,
+      cooldownMs: 1000,
+      maxCooldownMs: 3000,
+    });
+  });
+
+  const fail = (model: string, times: number) => {
+    for (let i = 0; i < times; i++) tracker.record(model, failure);
+  };
+
+  // Freeze Date.now at 0 and open the gpt-4o circuit
+  const openGpt = (t: TestContext) => {
+    t.mock.timers.enable({ apis: ['Date'], now: 0 });
+    fail(gpt.id, 2);
+    assert.equal(tracker.getHealth().models[gpt.id]?.state, 'open');
+  };
+
+  it('opens after consecutive failures and excludes the model', () => {
+    fail(gpt.id, 1);
+    tracker.record(gpt.id, { success: true });
+    fail(gpt.id, 1);
+    assert.equal(tracker.isAvailable(gpt), true);
+
+    fail(gpt.id, 1);
+
+    assert.equal(tracker.isAvailable(gpt), false);
+    assert.deepEqual(tracker.filter([gpt, haiku]), [haiku]);
+  });
+
+  it('ignores client errors', () => {
+    for (let i = 0; i < 5; i++) {
+      tracker.record(gpt.id, { success: false, statusCode: 400 });
+    }
+
+    assert.equal(tracker.isAvailable(gpt), true);
+    assert.equal(tracker.getHealth().models[gpt.id]?.totalFailures, 0);
+  });
+
+  it('opens the provider circuit across its models', () => {
+    fail(gpt.id, 1);
+    fail(gptMini.id, 1);
+    tracker.record(gpt.id, { success: true });
+    fail(gpt.id, 1);
+    fail(gptMini.id, 1);
+    fail(gpt.id, 1);
+
+    assert.equal(tracker.getHealth().providers.openai?.state, 'open');
+    assert.equal(tracker.isAvailable(gptMini), false);
+    assert.equal(tracker.isAvailable(haiku), true);
+  });
+
+  it('half-opens after the cooldown and lets a single probe through', t => {
+    openGpt(t);
+    t.mock.timers.tick(999);
+    assert.equal(tracker.isAvailable(gpt), false);
+
+    t.mock.timers.tick(1);
+
+    assert.equal(tracker.getHealth().models[gpt.id]?.state, 'half_open');
+    assert.equal(tracker.isAvailable(gpt), true);
+
+    tracker.trackSelection('probe', gpt.id);
+
+    assert.equal(tracker.isAvailable(gpt), false);
+    assert.equal(tracker.resolveSelection('probe'), gpt.id);
+    assert.equal(tracker.resolveSelection('probe'), undefined);
+  });
+
+  it('frees the probe slot when its outcome never arrives', t => {
+    openGpt(t);
+    t.mock.timers.tick(1000);
+    tracker.trackSelection('probe', gpt.id);
+
+    t.mock.timers.tick(60_000);
+
+    assert.equal(tracker.isAvailable(gpt), true);
+  });
+
+  it('closes after a successful probe', t => {
+    openGpt(t);
+    t.mock.timers.tick(1000);
+    tracker.trackSelection('probe', gpt.id);
+
+    tracker.record(gpt.id, { success: true });
+
+    const health = tracker.getHealth().models[gpt.id];
+    assert.equal(health?.state, 'closed');
+    assert.equal(health?.consecutiveFailures, 0);
+    assert.equal(tracker.isAvailable(gpt), true);
+  });
+
+  it('reopens with a doubled, capped cooldown after a failed probe', t => {
+    openGpt(t);
+
+    for (const cooldownMs of [1000, 2000, 3000, 3000]) {
+      t.mock.timers.tick(cooldownMs);
+      assert.equal(tracker.getHealth().models[gpt.id]?.state, 'half_open');
+      tracker.record(gpt.id, failure);
+
+      const health = tracker.getHealth().models[gpt.id];
+      assert.equal(health?.state, 'open');
+      assert.equal(
+        (health?.retryAt ?? 0) - (health?.openedAt ?? 0),
+        Math.min(cooldownMs * 2, 3000)
+      );
+    }
+  });
+
+  it('keeps internal fields out of the snapshot', t => {
+    openGpt(t);
+    t.mock.timers.tick(1000);
+    tracker.trackSelection('probe', gpt.id);
+
+    const health = tracker.getHealth().models[gpt.id];
+
+    assert.ok(health);
+    assert.equal('cooldownMs' in health, false);
+    assert.equal('probeStartedAt' in health, false);
+  });
+
+  it('admits everything when disabled', () => {
+    tracker.configure({ enabled: false, failureThreshold: 1 });
+    fail(gpt.id, 1);
+
+    assert.deepEqual(tracker.filter([gpt, haiku]), [gpt, haiku]);
+  });
+});
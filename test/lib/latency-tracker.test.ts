@@ -0,0 +1,125 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { LatencyTracker } from '../../src/lib/latency-tracker.js';
+import { createProfile } from '../helpers/fixtures.js';
+
+const gpt = createProfile('openai/gpt-4o');
+
+const recordMany = (
+  tracker: LatencyTracker,
+  latencies: number[],
+  extra: { timeToFirstTokenMs?: number; completionTokens?: number } = {}
+) => {
+  for (const latencyMs of latencies) {
+    tracker.record(gpt.id, { success: true, latencyMs, ...extra });
+  }
+};
+
+describe('LatencyTracker', () => {
+  it('waits for minSamples before reporting statistics', () => {
+    const tracker = new LatencyTracker({ minSamples: 3 });
+
+    recordMany(tracker, [100, 200]);
+    assert.equal(tracker.getStats(gpt.id), undefined);
+
+    recordMany(tracker, [300]);
+    assert.deepEqual(tracker.getStats(gpt.id), {
+      samples: 3,
+      p50LatencyMs: 200,
+      p95LatencyMs: 300,
+    });
+  });
+
+  it('ignores failures and outcomes without timings', () => {
+    const tracker = new LatencyTracker({ minSamples: 1 });
+
+    tracker.record(gpt.id, { success: false, latencyMs: 10 });
+    tracker.record(gpt.id, { success: true });
+
+    assert.deepEqual(tracker.getAllStats(), {});
+  });
+
+  it('keeps only the most recent window of samples', () => {
+    const tracker = new LatencyTracker({ minSamples: 1, windowSize: 2 });
+
+    recordMany(tracker, [5000, 100, 200]);
+
+    assert.equal(tracker.getStats(gpt.id)?.samples, 2);
+    assert.equal(tracker.getStats(gpt.id)?.p95LatencyMs, 200);
+  });
+
+  it('measures time to first token and generation throughput', () => {
+    const tracker = new LatencyTracker({ minSamples: 1 });
+
+    recordMany(tracker, [1500], {
+      timeToFirstTokenMs: 500,
+      completionTokens: 100,
+    });
+
+    const stats = tracker.getStats(gpt.id);
+    assert.equal(stats?.p50TimeToFirstTokenMs, 500);
+    assert.equal(stats?.tokensPerSecond, 100);
+  });
+
+  it('weights observed speed by the number of samples', () => {
+    const tracker = new LatencyTracker({ minSamples: 1 });
+
+    recordMany(tracker, [2000], {
+      timeToFirstTokenMs: 1000,
+      completionTokens: 50,
+    });
+    const few = tracker.getObservedSpeed(gpt);
+    recordMany(tracker, Array(19).fill(2000), {
+      timeToFirstTokenMs: 1000,
+      completionTokens: 50,
+    });
+    const many = tracker.getObservedSpeed(gpt);
+
+    assert.equal(few?.score, 0.5);
+    assert.ok(Math.abs((few?.weight ?? 0) - 0.04) < 1e-9);
+    assert.equal(many?.weight, 0.8);
+  });
+
+  it('checks the p95 against an SLA, by time to first token when streaming', () => {
+    const tracker = new LatencyTracker({ minSamples: 1 });
+    const haiku = createProfile('anthropic/claude-3-haiku');
+
+    recordMany(tracker, [3000]);
+    tracker.record(haiku.id, {
+      success: true,
+      latencyMs: 3000,
+      timeToFirstTokenMs: 400,
+    });
+
+    assert.equal(tracker.isWithinLatency(gpt, 1000, true), false);
+    assert.equal(tracker.isWithinLatency(haiku, 1000, true), true);
+    // Non-streaming callers wait for the whole answer
+    assert.equal(tracker.isWithinLatency(haiku, 1000, false), false);
+    // No samples yet
+    assert.equal(
+      tracker.isWithinLatency(createProfile('x/unknown'), 1000, false),
+      true
+    );
+  });
+
+  it('does nothing when disabled', () => {
+    const tracker = new LatencyTracker({ minSamples: 1, enabled: false });
+
+    recordMany(tracker, [3000], { timeToFirstTokenMs: 3000 });
+
+    assert.equal(tracker.isWithinLatency(gpt, 1000, false), true);
+    assert.equal(tracker.getObservedSpeed(gpt), undefined);
+  });
+
+  it('resets one model or all', () => {
+    const tracker = new LatencyTracker({ minSamples: 1 });
+    recordMany(tracker, [100]);
+    tracker.record('x/other', { success: true, latencyMs: 100 });
+
+    tracker.reset(gpt.id);
+    assert.deepEqual(Object.keys(tracker.getAllStats()), ['x/other']);
+
+    tracker.reset();
+    assert.deepEqual(tracker.getAllStats(), {});
+  });
+});
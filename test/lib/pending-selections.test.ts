@@ -0,0 +1,23 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { PendingSelections } from '../../src/lib/pending-selections.js';
+
+describe('PendingSelections', () => {
+  it('resolves each selection once', () => {
+    const pending = new PendingSelections<string>();
+    pending.set('s1', 'openai/gpt-4o');
+
+    assert.equal(pending.get('s1'), 'openai/gpt-4o');
+    assert.equal(pending.take('s1'), 'openai/gpt-4o');
+    assert.equal(pending.take('s1'), undefined);
+  });
+
+  it('forgets the oldest selections beyond 1000', () => {
+    const pending = new PendingSelections<number>();
+    for (let i = 0; i <= 1000; i++) pending.set(`s${i}`, i);
+
+    assert.equal(pending.get('s0'), undefined);
+    assert.equal(pending.get('s1'), 1);
+    assert.equal(pending.get('s1000'), 1000);
+  });
+});
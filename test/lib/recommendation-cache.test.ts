@@ -0,0 +1,220 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { semanticEmbedder } from '../../src/lib/semantic-embedder.js';
+import { RecommendationCache } from '../../src/lib/recommendation-cache.js';
+import { RequestAbortedError } from '../../src/errors.js';
+import { ConversationAnalyzer } from '../../src/lib/conversation.js';
+import { embeddingCache } from '../../src/cache.js';
+import { PromptType } from '../../src/types.js';
+import type {
+  ModelSelection,
+  PromptProperties,
+  RecommendationOptions,
+} from '../../src/types.js';
+
+const properties: PromptProperties = {
+  accuracy: 0.7,
+  cost: 0.5,
+  speed: 0.5,
+  tokenLimit: 1000,
+  reasoning: false,
+};
+
+// Prompts with pre-computed embeddings, so no embedding model is loaded
+embeddingCache.setEmbedding('Write a sorting function', [1, 0, 0]);
+embeddingCache.setEmbedding('Write a sort function', [0.99, 0.1, 0]);
+embeddingCache.setEmbedding('Tell me a story', [0, 1, 0]);
+
+const createSelection = (id: string, model: string): ModelSelection => ({
+  id,
+  model,
+  reason: 'fixture',
+  reasonCode: 'local_scored',
+  confidence: 0.8,
+  category: { type: PromptType.Coding, confidence: 0.9 },
+  alternatives: [{ model: 'anthropic/claude-3-haiku', score: 0.5, reason: '' }],
+  scores: [],
+  appliedRules: [],
+});
+
+const createKey = async (
+  cache: RecommendationCache,
+  prompt: string,
+  overrides: Partial<PromptProperties> = {},
+  options: RecommendationOptions = {}
+) => {
+  const key = await cache.createKey(
+    ConversationAnalyzer.analyze(prompt),
+    { ...properties, ...overrides },
+    options
+  );
+  assert.ok(key);
+  return key;
+};
+
+describe('RecommendationCache', () => {
+  it('returns the selection of a near-duplicate prompt', async () => {
+    const cache = new RecommendationCache({ enabled: true });
+    cache.set(
+      await createKey(cache, 'Write a sorting function'),
+      createSelection('s1', 'openai/gpt-4o'),
+      'v1'
+    );
+
+    const hit = cache.get(
+      await createKey(cache, 'Write a sort function'),
+      'v1'
+    );
+    const miss = cache.get(await createKey(cache, 'Tell me a story'), 'v1');
+
+    assert.equal(hit?.selection.id, 's1');
+    assert.ok((hit?.similarity ?? 0) >= 0.95);
+    assert.equal(miss, undefined);
+    assert.deepEqual(cache.getStats(), {
+      entries: 1,
+      hits: 1,
+      misses: 1,
+      hitRate: 0.5,
+    });
+  });
+
+  it('matches properties after rounding and options exactly', async () => {
+    const cache = new RecommendationCache({ enabled: true });
+    cache.set(
+      await createKey(cache, 'Write a sorting function'),
+      createSelection('s1', 'openai/gpt-4o'),
+      'v1'
+    );
+    const lookup = async (
+      overrides: Partial<PromptProperties>,
+      options: RecommendationOptions = {}
+    ) =>
+      cache.get(
+        await createKey(cache, 'Write a sorting function', overrides, options),
+        'v1'
+      );
+
+    assert.ok(await lookup({ accuracy: 0.72 }));
+    assert.ok(await lookup({ tokenLimit: 900 }));
+    assert.equal(await lookup({ accuracy: 0.9 }), undefined);
+    assert.equal(await lookup({ tokenLimit: 4000 }), undefined);
+    assert.equal(await lookup({ reasoning: true }), undefined);
+    assert.equal(
+      await lookup({}, { category: PromptType.Creative }),
+      undefined
+    );
+  });
+
+  it('drops entries made against another catalog or past the TTL', async t => {
+    t.mock.timers.enable({ apis: ['Date'], now: 0 });
+    const cache = new RecommendationCache({ enabled: true, ttlMs: 1000 });
+    const key = await createKey(cache, 'Write a sorting function');
+
+    cache.set(key, createSelection('s1', 'openai/gpt-4o'), 'v1');
+    assert.equal(cache.get(key, 'v2'), undefined);
+    assert.equal(cache.getStats().entries, 0);
+
+    cache.set(key, createSelection('s2', 'openai/gpt-4o'), 'v1');
+    t.mock.timers.tick(1001);
+    assert.equal(cache.get(key, 'v1'), undefined);
+    assert.equal(cache.getStats().entries, 0);
+  });
+
+  it('evicts the oldest entries beyond maxEntries', async () => {
+    const cache = new RecommendationCache({ enabled: true, maxEntries: 1 });
+    const key = await createKey(cache, 'Write a sorting function');
+
+    cache.set(key, createSelection('s1', 'openai/gpt-4o'), 'v1');
+    cache.set(key, createSelection('s2', 'google/gemini-flash'), 'v1');
+
+    assert.equal(cache.getStats().entries, 1);
+    assert.equal(cache.get(key, 'v1')?.selection.id, 's2');
+  });
+
+  it('hands out copies of the cached selections', async () => {
+    const cache = new RecommendationCache({ enabled: true });
+    const key = await createKey(cache, 'Write a sorting function');
+    cache.set(key, createSelection('s1', 'openai/gpt-4o'), 'v1');
+
+    const first = cache.get(key, 'v1');
+    first?.selection.alternatives.splice(0);
+
+    assert.equal(cache.get(key, 'v1')?.selection.alternatives.length, 1);
+  });
+
+  it('is cleared when reconfigured', async () => {
+    const cache = new RecommendationCache({ enabled: true });
+    cache.set(
+      await createKey(cache, 'Write a sorting function'),
+      createSelection('s1', 'openai/gpt-4o'),
+      'v1'
+    );
+
+    cache.configure({ enabled: false });
+
+    assert.equal(cache.isEnabled(), false);
+    assert.equal(cache.getStats().entries, 0);
+  });
+
+  it('skips entries rejected by isUsable', async () => {
+    const cache = new RecommendationCache({ enabled: true });
+    const key = await createKey(cache, 'Write a sorting function');
+    cache.set(key, createSelection('s1', 'openai/gpt-4o'), 'v1');
+    cache.set(key, createSelection('s2', 'google/gemini-flash'), 'v1');
+
+    const hit = cache.get(
+      key,
+      'v1',
+      selection => selection.model !== 'openai/gpt-4o'
+    );
+
+    assert.equal(hit?.selection.id, 's2');
+    assert.equal(
+      cache.get(key, 'v1', () => false),
+      undefined
+    );
+  });
+
+  it('skips lookups for a while after the embedding times out', async t => {
+    t.mock.timers.enable({ apis: ['setTimeout', 'Date'], now: 0 });
+    const getEmbedding = t.mock.method(
+      semanticEmbedder,
+      'getEmbedding',
+      () => new Promise<number[]>(() => {})
+    );
+    const cache = new RecommendationCache({ enabled: true });
+    const conversation = ConversationAnalyzer.analyze(
+      'Write a sorting function'
+    );
+
+    const pending = cache.createKey(conversation, properties, {});
+    t.mock.timers.tick(5000);
+    assert.equal(await pending, undefined);
+
+    // Within the retry window the embedder is not asked again
+    assert.equal(
+      await cache.createKey(conversation, properties, {}),
+      undefined
+    );
+    assert.equal(getEmbedding.mock.callCount(), 1);
+
+    t.mock.timers.tick(60_000);
+    getEmbedding.mock.mockImplementation(async () => [1, 0, 0]);
+    assert.ok(await cache.createKey(conversation, properties, {}));
+  });
+
+  it('rejects with RequestAbortedError when the request is aborted', async () => {
+    const cache = new RecommendationCache({ enabled: true });
+    const controller = new AbortController();
+    controller.abort();
+
+    await assert.rejects(
+      cache.createKey(
+        ConversationAnalyzer.analyze('Write a sorting function'),
+        properties,
+        { signal: controller.signal }
+      ),
+      RequestAbortedError
+    );
+  });
+});
@@ -0,0 +1,234 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { RoutingRulesEngine } from '../../src/lib/rules-engine.js';
+import { RouterError } from '../../src/errors.js';
+import { PromptType, type PromptProperties } from '../../src/types.js';
+import { createProfile } from '../helpers/fixtures.js';
+
+const properties: PromptProperties = {
+  accuracy: 0.8,
+  cost: 0.5,
+  speed: 0.5,
+  tokenLimit: 1000,
+};
+
+const context = (
+  prompt: string,
+  category = PromptType.General,
+  overrides: Partial<PromptProperties> = {}
+) => ({
+  prompt,
+  category: { type: category, confidence: 1 },
+  properties: { ...properties, ...overrides },
+});
+
+describe('RoutingRulesEngine.validate', () => {
+  it('rejects invalid rules with every issue', () => {
+    assert.throws(
+      () =>
+        new RoutingRulesEngine([
+          { id: 'a', then: { action: 'pin' } },
+          {
+            id: 'b',
+            when: { promptMatches: '(' },
+            then: { action: 'exclude' },
+          },
+        ]),
+      (error: unknown) =>
+        error instanceof RouterError &&
+        error.code === 'INVALID_CONFIG' &&
+        /model/.test(error.message) &&
+        /valid regular expression/.test(error.message)
+    );
+  });
+
+  it('rejects duplicate rule IDs', () => {
+    assert.throws(
+      () =>
+        RoutingRulesEngine.validate([
+          { id: 'a', then: { action: 'exclude' } },
+          { id: 'a', then: { action: 'exclude' } },
+        ]),
+      /rule ids must be unique/
+    );
+  });
+});
+
+describe('RoutingRulesEngine.evaluate', () => {
+  it('matches category, prompt pattern and property conditions', () => {
+    const engine = new RoutingRulesEngine([
+      {
+        id: 'sql',
+        when: {
+          category: [PromptType.Coding, PromptType.Analytical],
+          promptMatches: '\\bsql\\b',
+          promptMatchFlags: 'i',
+          accuracy: { gte: 0.7 },
+        },
+        then: { action: 'pin', model: 'openai/gpt-4o' },
+      },
+    ]);
+
+    assert.deepEqual(
+      engine.evaluate(context('Write a SQL query', PromptType.Coding))
+        .pinnedModel,
+      { model: 'openai/gpt-4o', ruleId: 'sql' }
+    );
+    assert.deepEqual(
+      engine.evaluate(context('Write a SQL query', PromptType.Creative))
+        .appliedRules,
+      []
+    );
+    assert.deepEqual(
+      engine.evaluate(
+        context('Write a SQL query', PromptType.Coding, { accuracy: 0.5 })
+      ).appliedRules,
+      []
+    );
+  });
+
+  it('re-tests global patterns from the start every time', () => {
+    const engine = new RoutingRulesEngine([
+      {
+        id: 'sql',
+        when: { promptMatches: 'sql', promptMatchFlags: 'g' },
+        then: { action: 'exclude', providers: ['meta-llama'] },
+      },
+    ]);
+
+    assert.deepEqual(engine.evaluate(context('sql')).appliedRules, ['sql']);
+    assert.deepEqual(engine.evaluate(context('sql')).appliedRules, ['sql']);
+  });
+
+  it('treats omitted reasoning as not required', () => {
+    const engine = new RoutingRulesEngine([
+      {
+        id: 'no-reasoning',
+        when: { reasoning: false },
+        then: { action: 'exclude', models: ['*-thinking'] },
+      },
+    ]);
+
+    assert.deepEqual(engine.evaluate(context('hi')).appliedRules, [
+      'no-reasoning',
+    ]);
+    assert.deepEqual(
+      engine.evaluate(context('hi', PromptType.General, { reasoning: true }))
+        .appliedRules,
+      []
+    );
+  });
+
+  it('keeps the first pin and collects the other actions in order', () => {
+    const engine = new RoutingRulesEngine([
+      { id: 'pin-a', then: { action: 'pin', model: 'a/model' } },
+      { id: 'pin-b', then: { action: 'pin', model: 'b/model' } },
+      {
+        id: 'boost',
+        then: { action: 'boost', value: 0.2, providers: ['openai'] },
+      },
+      {
+        id: 'constrain',
+        then: { action: 'constrain', constraints: { moderatedOnly: true } },
+      },
+    ]);
+
+    const evaluation = engine.evaluate(context('hi'));
+
+    assert.deepEqual(evaluation.pinnedModel, {
+      model: 'a/model',
+      ruleId: 'pin-a',
+    });
+    assert.deepEqual(evaluation.appliedRules, ['pin-a', 'boost', 'constrain']);
+    assert.deepEqual(evaluation.constraints, [{ moderatedOnly: true }]);
+    assert.equal(evaluation.boosts[0]?.value, 0.2);
+  });
+});
+
+describe('RoutingRulesEngine model matching', () => {
+  const gpt = createProfile('openai/gpt-4o', {
+    characteristics: { costTier: 'expensive' },
+  });
+  const llama = createProfile('meta-llama/llama-3.1-8b', {
+    characteristics: { costTier: 'free' },
+  });
+
+  it('filters out excluded and disallowed models', () => {
+    const engine = new RoutingRulesEngine([
+      { id: 'no-free', then: { action: 'exclude', costTiers: ['free'] } },
+    ]);
+
+    assert.deepEqual(
+      RoutingRulesEngine.filter([gpt, llama], engine.evaluate(context('hi'))),
+      [gpt]
+    );
+  });
+
+  it('requires every field of a matcher to match', () => {
+    assert.equal(
+      RoutingRulesEngine.matchesModel(gpt, {
+        models: ['openai/gpt-4*'],
+        providers: ['OpenAI'],
+      }),
+      true
+    );
+    assert.equal(
+      RoutingRulesEngine.matchesModel(gpt, {
+        models: ['openai/*'],
+        costTiers: ['cheap'],
+      }),
+      false
+    );
+    assert.equal(RoutingRulesEngine.matchesModel(llama, {}), true);
+  });
+
+  it('turns matching boosts into score adjustments', () => {
+    const engine = new RoutingRulesEngine([
+      {
+        id: 'prefer-openai',
+        then: { action: 'boost', value: 0.1, providers: ['openai'] },
+      },
+    ]);
+    const evaluation = engine.evaluate(context('hi'));
+
+    assert.deepEqual(RoutingRulesEngine.getAdjustments(gpt, evaluation), [
+      { source: 'rule:prefer-openai', value: 0.1 },
+    ]);
+    assert.deepEqual(RoutingRulesEngine.getAdjustments(llama, evaluation), []);
+  });
+
+  it('boosts the preferred providers of constrain rules', () => {
+    const engine = new RoutingRulesEngine([
+      {
+        id: 'prefer-openai',
+        then: {
+          action: 'constrain',
+          constraints: { preferredProviders: ['OpenAI'] },
+        },
+      },
+      {
+        id: 'prefer-meta',
+        then: {
+          action: 'constrain',
+          constraints: {
+            preferredProviders: ['meta-llama'],
+            preferredProviderBoost: 0.3,
+          },
+        },
+      },
+    ]);
+    const evaluation = engine.evaluate(context('hi'));
+
+    // Preferences don't filter
+    assert.deepEqual(RoutingRulesEngine.filter([gpt, llama], evaluation), [
+      gpt,
+      llama,
+    ]);
+    assert.deepEqual(RoutingRulesEngine.getAdjustments(gpt, evaluation), [
+      { source: 'rule:prefer-openai', value: 0.1 },
+    ]);
+    assert.deepEqual(RoutingRulesEngine.getAdjustments(llama, evaluation), [
+      { source: 'rule:prefer-meta', value: 0.3 },
+    ]);
+  });
+});
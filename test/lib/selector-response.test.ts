@@ -0,0 +1,99 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { SelectorResponseParser } from '../../src/lib/selector-response.js';
+
+const candidates = ['openai/gpt-4o', 'anthropic/claude-3-haiku'];
+
+describe('SelectorResponseParser.parse', () => {
+  it('accepts a plain JSON object', () => {
+    const result = SelectorResponseParser.parse(
+      '{"model": "openai/gpt-4o", "reason": "best at code", "confidence": 0.9}',
+      candidates
+    );
+
+    assert.deepEqual(result, {
+      success: true,
+      data: {
+        model: 'openai/gpt-4o',
+        reason: 'best at code',
+        confidence: 0.9,
+      },
+    });
+  });
+
+  it('extracts JSON from code fences and surrounding prose', () => {
+    const result = SelectorResponseParser.parse(
+      'Here is my pick:\n```json\n{"model": "anthropic/claude-3-haiku", "reason": "cheap", "confidence": 0.7}\n```\nHope that helps!',
+      candidates
+    );
+
+    assert.equal(result.success, true);
+    assert.equal(
+      result.success && result.data.model,
+      'anthropic/claude-3-haiku'
+    );
+  });
+
+  it('keeps braces inside strings', () => {
+    const result = SelectorResponseParser.parse(
+      'Answer: {"model": "openai/gpt-4o", "reason": "handles {nested} \\"quotes\\"", "confidence": 1} trailing }',
+      candidates
+    );
+
+    assert.equal(
+      result.success && result.data.reason,
+      'handles {nested} "quotes"'
+    );
+  });
+
+  it('maps a differently cased model ID to the candidate', () => {
+    const result = SelectorResponseParser.parse(
+      '{"model": "OpenAI/GPT-4o", "reason": "r", "confidence": 0.5}',
+      candidates
+    );
+
+    assert.equal(result.success && result.data.model, 'openai/gpt-4o');
+  });
+
+  it('rejects models that were not offered', () => {
+    const result = SelectorResponseParser.parse(
+      '{"model": "mistral/mistral-large", "reason": "r", "confidence": 0.5}',
+      candidates
+    );
+
+    assert.equal(result.success, false);
+    assert.match(
+      !result.success ? result.error : '',
+      /not one of the available/
+    );
+  });
+
+  it('reports schema violations', () => {
+    const result = SelectorResponseParser.parse(
+      '{"model": "openai/gpt-4o", "reason": "", "confidence": 1.5}',
+      candidates
+    );
+
+    assert.equal(result.success, false);
+    const error = !result.success ? result.error : '';
+    assert.match(error, /reason must be a non-empty string/);
+    assert.match(error, /confidence must be between 0 and 1/);
+  });
+
+  it('reports responses without a JSON object', () => {
+    assert.deepEqual(SelectorResponseParser.parse('no idea', candidates), {
+      success: false,
+      error: 'response did not contain a JSON object',
+    });
+  });
+
+  it('reports invalid JSON', () => {
+    const result = SelectorResponseParser.parse(
+      "{'model': 'openai/gpt-4o'}",
+      candidates
+    );
+
+    assert.equal(result.success, false);
+    assert.match(!result.success ? result.error : '', /^invalid JSON/);
+  });
+});
@@ -0,0 +1,65 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { TokenEstimator } from '../../src/lib/token-estimator.js';
+import type { ModelProfile } from '../../src/types.js';
+
+const model = (
+  id: string,
+  contextLength: number,
+  maxCompletionTokens?: number
+) =>
+  ({
+    id,
+    contextLength,
+    ...(maxCompletionTokens !== undefined && { maxCompletionTokens }),
+  }) as ModelProfile;
+
+describe('TokenEstimator', () => {
+  it('measures ASCII and wide characters per message', () => {
+    const stats = TokenEstimator.measure(['hello', '你好']);
+
+    assert.deepEqual(stats, { asciiChars: 5, wideChars: 2, messageCount: 2 });
+  });
+
+  it('uses the model family ratio when a model is given', () => {
+    const stats = TokenEstimator.measure('a'.repeat(350));
+
+    assert.equal(TokenEstimator.estimate(stats), 88);
+    assert.equal(
+      TokenEstimator.estimate(stats, 'anthropic/claude-3-haiku'),
+      100
+    );
+    assert.equal(TokenEstimator.getCharsPerToken('openai/gpt-4o'), 4.2);
+    assert.equal(TokenEstimator.getCharsPerToken('unknown/model'), 4);
+  });
+
+  it('counts wide characters as a token each', () => {
+    const stats = TokenEstimator.measure('日本語のテキスト');
+
+    assert.equal(TokenEstimator.estimate(stats), 8);
+  });
+
+  it('requires room for the prompt plus the completion', () => {
+    const stats = TokenEstimator.measure('a'.repeat(4000)); // ~1000 tokens
+
+    assert.equal(TokenEstimator.fits(model('x/y', 4000), stats, 2000), true);
+    assert.equal(TokenEstimator.fits(model('x/y', 4000), stats, 3000), false);
+    // Safety margin on the prompt estimate
+    assert.equal(TokenEstimator.fits(model('x/y', 1050), stats, 0), false);
+  });
+
+  it('rejects completions above the model output cap', () => {
+    const stats = TokenEstimator.measure('hi');
+
+    assert.equal(
+      TokenEstimator.fits(model('x/y', 128_000, 4096), stats, 8000),
+      false
+    );
+  });
+
+  it('treats unknown context lengths as fitting', () => {
+    const stats = TokenEstimator.measure('a'.repeat(100_000));
+
+    assert.equal(TokenEstimator.fits(model('x/y', 0), stats, 1000), true);
+  });
+});
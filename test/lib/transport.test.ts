@@ -0,0 +1,316 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  OpenAICompatibleTransport,
+  RequestTimeoutError,
+  TransportError,
+} from '../../src/lib/transport.js';
+import { RequestAbortedError } from '../../src/errors.js';
+import { createStreamResponse, toEvents } from '../helpers/fixtures.js';
+
+type FakeFetch = (input: string, init: RequestInit) => Promise<Response>;
+
+const request = { model: 'openai/gpt-4o', messages: [] };
+
+type Reply = () => Response | Promise<Response>;
+
+/**
+ * Transport whose fetch answers with `replies` in order (the last one
+ * repeats), recording every call
+ */
+const createTransport = (
+  replies: Reply[],
+  retry = { maxRetries: 2, baseDelayMs: 1, maxDelayMs: 1000 },
+  timeoutMs = 1000
+) => {
+  const calls: { url: string; init: RequestInit }[] = [];
+  const fetchImpl: FakeFetch = async (url, init) => {
+    const reply = replies[Math.min(calls.length, replies.length - 1)];
+    calls.push({ url, init });
+    if (!reply) throw new Error('No reply configured');
+    return reply();
+  };
+  const transport = new OpenAICompatibleTransport('test-key', {
+    baseUrl: 'http://localhost:8080/v1/',
+    headers: { 'X-Team': 'search' },
+    fetch: fetchImpl as typeof fetch,
+    timeoutMs,
+    retry,
+  });
+  return { transport, calls };
+};
+
+const completion = (content: string) => () =>
+  Response.json({
+    id: 'c1',
+    model: 'openai/gpt-4o',
+    choices: [{ index: 0, message: { role: 'assistant', content } }],
+  });
+
+const collect = async <T>(iterable: AsyncIterable<T>): Promise<T[]> => {
+  const items: T[] = [];
+  for await (const item of iterable) items.push(item);
+  return items;
+};
+
+const failure =
+  (status: number, headers: Record<string, string> = {}) =>
+  () =>
+    new Response('failed', { status, headers });
+
+describe('OpenAICompatibleTransport requests', () => {
+  it('sends to the configured base URL with the API key', async () => {
+    const { transport, calls } = createTransport([completion('hi')]);
+
+    const response = await transport.createChatCompletion(request);
+
+    assert.equal(response.choices[0]?.message?.content, 'hi');
+    assert.equal(calls[0]?.url, 'http://localhost:8080/v1/chat/completions');
+    const headers = calls[0]?.init.headers as Record<string, string>;
+    assert.equal(headers.Authorization, 'Bearer test-key');
+    assert.equal(headers['X-Team'], 'search');
+    assert.equal(JSON.parse(String(calls[0]?.init.body)).stream, false);
+  });
+
+  it('lists the catalog', async () => {
+    const { transport, calls } = createTransport([
+      () => Response.json({ data: [{ id: 'openai/gpt-4o' }] }),
+    ]);
+
+    const models = await transport.listModels();
+
+    assert.deepEqual(
+      models.map(model => model.id),
+      ['openai/gpt-4o']
+    );
+    assert.equal(calls[0]?.url, 'http://localhost:8080/v1/models');
+  });
+
+  it('rejects a catalog without a data array', async () => {
+    const { transport } = createTransport([
+      () => Response.json({ models: [] }),
+    ]);
+
+    await assert.rejects(transport.listModels(), TransportError);
+  });
+
+  it('reports the HTTP status of failed requests', async () => {
+    const { transport } = createTransport([failure(401)]);
+
+    await assert.rejects(
+      transport.createChatCompletion(request),
+      (error: unknown) =>
+        error instanceof TransportError && error.status === 401
+    );
+  });
+
+  it('wraps network errors', async () => {
+    const { transport } = createTransport([
+      () => {
+        throw new TypeError('fetch failed');
+      },
+    ]);
+
+    await assert.rejects(
+      transport.createChatCompletion(request),
+      (error: unknown) =>
+        error instanceof TransportError &&
+        error.status === undefined &&
+        /fetch failed/.test(error.message)
+    );
+  });
+});
+
+describe('OpenAICompatibleTransport retries', () => {
+  it('retries 5xx responses and network errors', async () => {
+    const { transport, calls } = createTransport([
+      failure(503),
+      () => {
+        throw new TypeError('fetch failed');
+      },
+      completion('recovered'),
+    ]);
+
+    const response = await transport.createChatCompletion(request);
+
+    assert.equal(response.choices[0]?.message?.content, 'recovered');
+    assert.equal(calls.length, 3);
+  });
+
+  it('gives up after maxRetries with the last status', async () => {
+    const { transport, calls } = createTransport([failure(502)]);
+
+    await assert.rejects(
+      transport.createChatCompletion(request),
+      (error: unknown) =>
+        error instanceof TransportError && error.status === 502
+    );
+    assert.equal(calls.length, 3);
+  });
+
+  it('does not retry client errors', async () => {
+    const { transport, calls } = createTransport([failure(400)]);
+
+    await assert.rejects(
+      transport.createChatCompletion(request),
+      (error: unknown) =>
+        error instanceof TransportError && error.status === 400
+    );
+    assert.equal(calls.length, 1);
+  });
+
+  it('calls onAttempt before every attempt', async () => {
+    const { transport } = createTransport([failure(500), completion('ok')]);
+    let attempts = 0;
+
+    await transport.createChatCompletion(request, {
+      onAttempt: () => attempts++,
+    });
+
+    assert.equal(attempts, 2);
+  });
+
+  it('waits for the Retry-After delay', async () => {
+    const { transport, calls } = createTransport([
+      failure(429, { 'Retry-After': '0.1' }),
+      completion('ok'),
+    ]);
+
+    const start = Date.now();
+    await transport.createChatCompletion(request);
+
+    assert.equal(calls.length, 2);
+    assert.ok(Date.now() - start >= 90, 'retried before Retry-After');
+  });
+
+  it('does not retry when Retry-After exceeds the max delay', async () => {
+    const { transport, calls } = createTransport([
+      failure(429, { 'Retry-After': '120' }),
+      completion('ok'),
+    ]);
+
+    await assert.rejects(
+      transport.createChatCompletion(request),
+      (error: unknown) =>
+        error instanceof TransportError && error.status === 429
+    );
+    assert.equal(calls.length, 1);
+  });
+
+  it('times out attempts that get no response', async () => {
+    const { transport, calls } = createTransport(
+      [
+        // Never answers; rejects like fetch once the attempt is aborted
+        () =>
+          new Promise<Response>((_resolve, reject) => {
+            calls
+              .at(-1)
+              ?.init.signal?.addEventListener('abort', () =>
+                reject(new Error('aborted'))
+              );
+          }),
+      ],
+      { maxRetries: 0, baseDelayMs: 1, maxDelayMs: 1000 },
+      50
+    );
+
+    await assert.rejects(
+      transport.createChatCompletion(request),
+      (error: unknown) =>
+        error instanceof RequestTimeoutError && error.timeoutMs === 50
+    );
+  });
+
+  it('stops retrying once the caller aborts', async () => {
+    const controller = new AbortController();
+    const { transport, calls } = createTransport([
+      async () => {
+        controller.abort();
+        return failure(503)();
+      },
+    ]);
+
+    await assert.rejects(
+      transport.createChatCompletion(request, { signal: controller.signal }),
+      RequestAbortedError
+    );
+    assert.equal(calls.length, 1);
+  });
+});
+
+describe('OpenAICompatibleTransport streaming', () => {
+  it('parses events split across reads and stops at [DONE]', async () => {
+    const events = toEvents([
+      { choices: [{ delta: { content: 'Hé' } }] },
+      { choices: [{ delta: { content: 'llo' }, finish_reason: 'stop' }] },
+    ]);
+    const bytes = new TextEncoder().encode(`${events}data: {"ignored":1}\n\n`);
+    // Split inside the multi-byte "é" and in the middle of a line
+    const split = bytes.indexOf(0xc3) + 1;
+    const { transport } = createTransport([
+      () =>
+        createStreamResponse([
+          bytes.slice(0, split),
+          bytes.slice(split, split + 30),
+          bytes.slice(split + 30),
+        ]),
+    ]);
+
+    const chunks = await collect(transport.streamChatCompletion(request));
+
+    assert.deepEqual(
+      chunks.map(chunk => chunk.choices?.[0]?.delta?.content),
+      ['Hé', 'llo']
+    );
+  });
+
+  it('ignores comments, joins multi-line data and accepts CRLF', async () => {
+    const { transport } = createTransport([
+      () =>
+        createStreamResponse([
+          ': keep-alive\r\n\r\n',
+          'event: message\r\ndata: {"choices":\r\ndata: [{"delta":{"content":"a"}}]}\r\n\r\n',
+          // Final event without a trailing blank line
+          'data: {"choices":[{"delta":{"content":"b"}}]}',
+        ]),
+    ]);
+
+    const chunks = await collect(transport.streamChatCompletion(request));
+
+    assert.deepEqual(
+      chunks.map(chunk => chunk.choices?.[0]?.delta?.content),
+      ['a', 'b']
+    );
+  });
+
+  it('raises mid-stream error payloads with their status', async () => {
+    const { transport } = createTransport([
+      () =>
+        createStreamResponse([
+          toEvents([
+            { choices: [{ delta: { content: 'a' } }] },
+            { error: { message: 'overloaded', code: 529 } },
+          ]),
+        ]),
+    ]);
+
+    await assert.rejects(
+      collect(transport.streamChatCompletion(request)),
+      (error: unknown) =>
+        error instanceof TransportError &&
+        error.status === 529 &&
+        error.message.includes('overloaded')
+    );
+  });
+
+  it('rejects malformed chunks', async () => {
+    const { transport } = createTransport([
+      () => createStreamResponse(['data: {not json\n\n']),
+    ]);
+
+    await assert.rejects(
+      collect(transport.streamChatCompletion(request)),
+      /Invalid stream chunk/
+    );
+  });
+});
@@ -0,0 +1,189 @@
+import assert from 'node:assert/strict';
+import { PassThrough } from 'node:stream';
+import { after, before, describe, it } from 'node:test';
+import { RoutingMcpServer } from '../../src/mcp/server.js';
+import { AutoPromptRouter } from '../../src/router.js';
+import { createCatalog } from '../helpers/fixtures.js';
+
+interface ToolResult {
+  content: { type: string; text: string }[];
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+}
+
+let router: AutoPromptRouter;
+let server: RoutingMcpServer;
+
+before(async () => {
+  const fakeFetch = async () =>
+    Response.json(
+      createCatalog([
+        'openai/gpt-4o',
+        'anthropic/claude-3-haiku',
+        'google/gemini-flash',
+      ])
+    );
+  router = new AutoPromptRouter({
+    OPEN_ROUTER_API_KEY: 'test-key',
+    selectionStrategy: 'local',
+    transport: { fetch: fakeFetch as typeof fetch, retry: { maxRetries: 0 } },
+  });
+  await router.initialize();
+  server = new RoutingMcpServer(router);
+});
+
+after(async () => {
+  await router.shutdown();
+});
+
+const callTool = async (
+  name: string,
+  args: Record<string, unknown>
+): Promise<ToolResult> => {
+  const response = await server.handleMessage({
+    jsonrpc: '2.0',
+    id: 1,
+    method: 'tools/call',
+    params: { name, arguments: args },
+  });
+  return response?.result as ToolResult;
+};
+
+describe('RoutingMcpServer protocol', () => {
+  it('negotiates the protocol version', async () => {
+    const known = await server.handleMessage({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: { protocolVersion: '2024-11-05' },
+    });
+    const unknown = await server.handleMessage({
+      jsonrpc: '2.0',
+      id: 2,
+      method: 'initialize',
+      params: { protocolVersion: '1999-01-01' },
+    });
+
+    assert.equal(
+      (known?.result as { protocolVersion: string }).protocolVersion,
+      '2024-11-05'
+    );
+    assert.equal(
+      (unknown?.result as { protocolVersion: string }).protocolVersion,
+      '2025-06-18'
+    );
+  });
+
+  it('lists the tools with JSON schemas', async () => {
+    const response = await server.handleMessage({
+      jsonrpc: '2.0',
+      id: 'list',
+      method: 'tools/list',
+    });
+    const { tools } = response?.result as {
+      tools: { name: string; inputSchema: { required?: string[] } }[];
+    };
+
+    assert.equal(response?.id, 'list');
+    assert.deepEqual(
+      tools.map(tool => tool.name),
+      ['recommend_model', 'classify_prompt', 'list_models']
+    );
+    assert.deepEqual(tools[0]?.inputSchema.required, ['prompt']);
+  });
+
+  it('answers protocol errors with JSON-RPC error codes', async () => {
+    const invalid = await server.handleMessage({ id: 3, method: 'ping' });
+    const unknownMethod = await server.handleMessage({
+      jsonrpc: '2.0',
+      id: 4,
+      method: 'resources/list',
+    });
+    const unknownTool = await server.handleMessage({
+      jsonrpc: '2.0',
+      id: 5,
+      method: 'tools/call',
+      params: { name: 'missing' },
+    });
+
+    assert.deepEqual([invalid?.id, invalid?.error?.code], [3, -32600]);
+    assert.equal(unknownMethod?.error?.code, -32601);
+    assert.equal(unknownTool?.error?.code, -32602);
+  });
+
+  it('does not answer notifications', async () => {
+    const response = await server.handleMessage({
+      jsonrpc: '2.0',
+      method: 'notifications/initialized',
+    });
+
+    assert.equal(response, undefined);
+  });
+
+  it('serves newline-delimited messages until the input closes', async () => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const lines: string[] = [];
+    output.on('data', (chunk: Buffer) => lines.push(chunk.toString()));
+
+    const serving = server.serve(input, output);
+    input.write('{"jsonrpc":"2.0","id":1,"method":"ping"}\n\n');
+    input.write('{not json\n');
+    input.end('{"jsonrpc":"2.0","method":"notifications/initialized"}\n');
+    await serving;
+
+    const responses = lines
+      .join('')
+      .trim()
+      .split('\n')
+      .map(line => JSON.parse(line) as { id: unknown; error?: unknown });
+    assert.equal(responses.length, 2);
+    assert.ok(responses.some(response => response.id === 1 && !response.error));
+    assert.ok(
+      responses.some(
+        response =>
+          response.id === null &&
+          (response.error as { code: number }).code === -32700
+      )
+    );
+  });
+});
+
+describe('RoutingMcpServer tools', () => {
+  it('recommends a model for a prompt', async () => {
+    const result = await callTool('recommend_model', {
+      prompt: 'Write a function that reverses a string',
+      reasoning: true,
+      category: 'coding',
+    });
+
+    assert.equal(result.isError, undefined);
+    assert.equal(result.structuredContent?.category, 'coding');
+    assert.equal(result.structuredContent?.reasonCode, 'local_scored');
+    assert.ok(typeof result.structuredContent?.selectionId === 'string');
+    assert.deepEqual(
+      JSON.parse(result.content[0]?.text ?? ''),
+      result.structuredContent
+    );
+  });
+
+  it('lists models filtered by price', async () => {
+    const all = await callTool('list_models', { category: 'coding' });
+    const none = await callTool('list_models', { maxCostPerMillion: 0.5 });
+
+    assert.equal((all.structuredContent?.models as unknown[]).length, 3);
+    assert.deepEqual(none.structuredContent?.models, []);
+  });
+
+  it('reports invalid arguments as tool errors', async () => {
+    const result = await callTool('recommend_model', {
+      prompt: 'hi',
+      accuracy: 2,
+    });
+    const extra = await callTool('list_models', { unknown: true });
+
+    assert.equal(result.isError, true);
+    assert.match(result.content[0]?.text ?? '', /Invalid arguments/);
+    assert.equal(extra.isError, true);
+  });
+});
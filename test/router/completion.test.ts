@@ -0,0 +1,521 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { AutoPromptRouter } from '../../src/router.js';
+import { RequestAbortedError, RouterError } from '../../src/errors.js';
+import { TransportError } from '../../src/lib/transport.js';
+import type {
+  ChatMessage,
+  PromptProperties,
+  RouterConfig,
+  RouterStreamEvent,
+} from '../../src/types.js';
+import {
+  createCatalog,
+  createStreamResponse,
+  toEvents,
+} from '../helpers/fixtures.js';
+
+const properties: PromptProperties = {
+  accuracy: 0.7,
+  cost: 0.5,
+  speed: 0.5,
+  tokenLimit: 1000,
+  reasoning: true,
+};
+const messages: ChatMessage[] = [{ role: 'user', content: 'Say hi' }];
+
+type Reply = (model: string) => Response | Promise<Response>;
+
+const ok: Reply = model =>
+  Response.json({
+    id: 'c1',
+    model,
+    choices: [{ index: 0, message: { role: 'assistant', content: model } }],
+    usage: { prompt_tokens: 3, completion_tokens: 1, total_tokens: 4 },
+  });
+
+const streamOk: Reply = () =>
+  createStreamResponse([
+    toEvents([
+      { choices: [{ delta: { content: 'Hel' } }] },
+      {
+        choices: [{ delta: { content: 'lo' }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 3, completion_tokens: 2, total_tokens: 5 },
+      },
+    ]),
+  ]);
+
+const failing =
+  (status: number): Reply =>
+  () =>
+    new Response('failed', { status });
+
+/**
+ * Initialized router whose fake server answers chat calls with `replies`
+ * in order (the last one repeats)
+ */
+const createRouter = async (
+  replies: Reply[],
+  config: Partial<RouterConfig> = {}
+) => {
+  const models: string[] = [];
+  const fakeFetch = async (url: string, init: RequestInit) => {
+    if (url.endsWith('/models')) {
+      return Response.json(
+        createCatalog([
+          'openai/gpt-4o',
+          'anthropic/claude-3-haiku',
+          'google/gemini-flash',
+        ])
+      );
+    }
+
+    const { model } = JSON.parse(String(init.body)) as { model: string };
+    const reply = replies[Math.min(models.length, replies.length - 1)];
+    models.push(model);
+    if (!reply) throw new Error('No reply configured');
+    return reply(model);
+  };
+
+  const router = new AutoPromptRouter({
+    OPEN_ROUTER_API_KEY: 'test-key',
+    selectionStrategy: 'local',
+    ...config,
+    transport: {
+      fetch: fakeFetch as typeof fetch,
+      retry: { maxRetries: 0 },
+      ...config.transport,
+    },
+  });
+  await router.initialize();
+  return { router, models };
+};
+
+const collect = async (
+  events: AsyncIterable<RouterStreamEvent>
+): Promise<RouterStreamEvent[]> => {
+  const collected: RouterStreamEvent[] = [];
+  for await (const event of events) collected.push(event);
+  return collected;
+};
+
+describe('AutoPromptRouter.complete', () => {
+  it('serves the selected model', async () => {
+    const { router, models } = await createRouter([ok]);
+
+    const result = await router.complete(messages, properties);
+
+    assert.equal(result.model, result.selection.model);
+    assert.equal(result.content, result.model);
+    assert.deepEqual(models, [result.model]);
+    assert.equal(result.usage?.total_tokens, 4);
+    await router.shutdown();
+  });
+
+  it('falls back down the alternatives on retryable failures', async () => {
+    const { router, models } = await createRouter([
+      failing(503),
+      failing(429),
+      ok,
+    ]);
+
+    const result = await router.complete(messages, properties);
+
+    assert.deepEqual(models, [
+      result.selection.model,
+      ...result.selection.alternatives.slice(0, 2).map(alt => alt.model),
+    ]);
+    assert.equal(result.model, models[2]);
+    assert.deepEqual(
+      result.attempts.map(attempt => [attempt.success, attempt.statusCode]),
+      [
+        [false, 503],
+        [false, 429],
+        [true, undefined],
+      ]
+    );
+    await router.shutdown();
+  });
+
+  it('stops at non-retryable failures', async () => {
+    const { router, models } = await createRouter([failing(400), ok]);
+
+    await assert.rejects(
+      router.complete(messages, properties),
+      (error: unknown) =>
+        error instanceof TransportError &&
+        error.code === 'TRANSPORT_ERROR' &&
+        error.status === 400
+    );
+    assert.equal(models.length, 1);
+    await router.shutdown();
+  });
+
+  it('honours maxFallbacks and reports every failed model', async () => {
+    const { router, models } = await createRouter([failing(500)]);
+
+    await assert.rejects(
+      router.complete(messages, properties, { maxFallbacks: 1 }),
+      (error: unknown) =>
+        error instanceof RouterError &&
+        error.code === 'ALL_CANDIDATES_FAILED' &&
+        /All 2 candidate models failed/.test(error.message)
+    );
+    assert.equal(models.length, 2);
+    await router.shutdown();
+  });
+
+  it('rejects a negative or fractional maxFallbacks before routing', async () => {
+    const { router, models } = await createRouter([ok]);
+
+    for (const maxFallbacks of [-1, 0.5]) {
+      await assert.rejects(
+        router.complete(messages, properties, { maxFallbacks }),
+        (error: unknown) =>
+          error instanceof RouterError && error.code === 'INVALID_INPUT'
+      );
+      await assert.rejects(
+        collect(router.stream(messages, properties, { maxFallbacks })),
+        (error: unknown) =>
+          error instanceof RouterError && error.code === 'INVALID_INPUT'
+      );
+    }
+    assert.equal(models.length, 0);
+    await router.shutdown();
+  });
+
+  it('stops falling back once the caller aborts', async () => {
+    const controller = new AbortController();
+    const { router, models } = await createRouter([
+      () => {
+        controller.abort();
+        return failing(503)('');
+      },
+      ok,
+    ]);
+
+    await assert.rejects(
+      router.complete(messages, properties, { signal: controller.signal }),
+      RequestAbortedError
+    );
+    assert.equal(models.length, 1);
+    await router.shutdown();
+  });
+});
+
+describe('AutoPromptRouter health', () => {
+  it('skips models whose circuit opened after failed calls', async () => {
+    const { router, models } = await createRouter([failing(503), ok], {
+      health: { failureThreshold: 1 },
+    });
+
+    const first = await router.complete(messages, properties);
+    const failedModel = models[0]!;
+    const second = await router.complete(messages, properties);
+
+    assert.notEqual(first.model, failedModel);
+    assert.equal(router.getHealth().models[failedModel]?.state, 'open');
+    assert.notEqual(second.selection.model, failedModel);
+    assert.ok(
+      second.selection.alternatives.every(alt => alt.model !== failedModel)
+    );
+
+    router.resetHealth();
+    assert.deepEqual(router.getHealth(), { models: {}, providers: {} });
+    await router.shutdown();
+  });
+
+  it('records reported outcomes against the selection', async () => {
+    const { router } = await createRouter([ok], {
+      health: { failureThreshold: 1 },
+    });
+
+    const selection = await router.getModelRecommendation(messages, properties);
+    router.reportOutcome(selection.id, { success: false, statusCode: 500 });
+    // Reported twice: the second outcome is ignored
+    router.reportOutcome(selection.id, { success: true });
+
+    const health = router.getHealth().models[selection.model];
+    assert.equal(health?.state, 'open');
+    assert.equal(health?.totalSuccesses, 0);
+    await router.shutdown();
+  });
+});
+
+describe('AutoPromptRouter latency', () => {
+  it('learns latency from calls and enforces maxLatencyMs', async () => {
+    const slow: Reply = async model => {
+      await new Promise(resolve => setTimeout(resolve, 50));
+      return ok(model);
+    };
+    const { router } = await createRouter([slow, ok], {
+      latency: { minSamples: 1 },
+    });
+
+    const first = await router.complete(messages, properties);
+    const stats = router.getLatencyStats()[first.model];
+    assert.equal(stats?.samples, 1);
+    assert.ok((stats?.p95LatencyMs ?? 0) >= 45);
+
+    const second = await router.complete(messages, {
+      ...properties,
+      maxLatencyMs: 40,
+    });
+    assert.notEqual(second.model, first.model);
+    assert.ok(
+      second.selection.alternatives.every(alt => alt.model !== first.model)
+    );
+    await router.shutdown();
+  });
+
+  it('leaves the retry backoff out of the learned latency', async () => {
+    const { router } = await createRouter([failing(503), ok], {
+      latency: { minSamples: 1 },
+      transport: { retry: { maxRetries: 1, baseDelayMs: 100 } },
+    });
+
+    const result = await router.complete(messages, properties);
+
+    assert.equal(result.attempts.length, 1);
+    assert.ok((result.attempts[0]?.latencyMs ?? 0) >= 45);
+    assert.ok(
+      (router.getLatencyStats()[result.model]?.p95LatencyMs ?? Infinity) < 45
+    );
+    await router.shutdown();
+  });
+});
+
+describe('AutoPromptRouter bandit strategy', () => {
+  it('selects with the bandit and learns from call outcomes', async () => {
+    const { router, models } = await createRouter([ok], {
+      selectionStrategy: 'bandit',
+      bandit: { seed: 42 },
+    });
+
+    const result = await router.complete(messages, properties);
+
+    assert.match(result.selection.reasonCode, /^bandit_(explore|exploit)$/);
+    assert.deepEqual(models, [result.selection.model]);
+    const stats = router.getBanditStats();
+    assert.equal(stats.selections, 1);
+    assert.equal(stats.arms[0]?.model, result.model);
+    assert.equal(stats.arms[0]?.pulls, 1);
+
+    assert.throws(
+      () => router.submitFeedback(result.selection.id, { rating: 2 }),
+      (error: unknown) =>
+        error instanceof RouterError && error.code === 'INVALID_INPUT'
+    );
+    assert.equal(router.getBanditStats().arms[0]?.pulls, 1);
+
+    router.resetBandit();
+    assert.deepEqual(router.getBanditStats().arms, []);
+    await router.shutdown();
+  });
+});
+
+describe('AutoPromptRouter.stream', () => {
+  it('emits the selection, the deltas and a summary', async () => {
+    const { router } = await createRouter([streamOk]);
+
+    const events = await collect(router.stream(messages, properties));
+
+    assert.deepEqual(
+      events.map(event => event.type),
+      ['selection', 'delta', 'delta', 'done']
+    );
+    const done = events.at(-1);
+    assert.equal(done?.type === 'done' && done.content, 'Hello');
+    assert.equal(done?.type === 'done' && done.finishReason, 'stop');
+    assert.equal(done?.type === 'done' && done.usage?.completion_tokens, 2);
+    await router.shutdown();
+  });
+
+  it('accepts usage-only chunks without choices', async () => {
+    const { router } = await createRouter([
+      () =>
+        createStreamResponse([
+          toEvents([
+            { choices: [{ delta: { content: 'Hi' }, finish_reason: 'stop' }] },
+            {
+              choices: [],
+              usage: {
+                prompt_tokens: 3,
+                completion_tokens: 1,
+                total_tokens: 4,
+              },
+            },
+            {
+              usage: {
+                prompt_tokens: 3,
+                completion_tokens: 1,
+                total_tokens: 4,
+              },
+            },
+          ]),
+        ]),
+    ]);
+
+    const events = await collect(router.stream(messages, properties));
+
+    const done = events.at(-1);
+    assert.equal(done?.type === 'done' && done.content, 'Hi');
+    assert.equal(done?.type === 'done' && done.usage?.total_tokens, 4);
+    await router.shutdown();
+  });
+
+  it('relays tool-call deltas and counts them as the first token', async () => {
+    const toolCall = {
+      index: 0,
+      id: 'call_1',
+      type: 'function',
+      function: { name: 'get_weather', arguments: '' },
+    };
+    const { router, models } = await createRouter([
+      () =>
+        createStreamResponse([
+          toEvents([
+            { choices: [{ delta: { role: 'assistant' } }] },
+            { choices: [{ delta: { tool_calls: [toolCall] } }] },
+            { error: { message: 'overloaded', code: 503 } },
+          ]),
+        ]),
+      streamOk,
+    ]);
+
+    const events: RouterStreamEvent[] = [];
+    await assert.rejects(async () => {
+      for await (const event of router.stream(messages, properties)) {
+        events.push(event);
+      }
+    }, /overloaded/);
+
+    assert.deepEqual(
+      events.map(event => event.type),
+      ['selection', 'delta', 'delta']
+    );
+    const [, role, call] = events;
+    assert.equal(role?.type === 'delta' && role.content, '');
+    assert.equal(
+      role?.type === 'delta' && role.chunk.choices?.[0]?.delta?.role,
+      'assistant'
+    );
+    assert.deepEqual(
+      call?.type === 'delta' && call.chunk.choices?.[0]?.delta?.tool_calls,
+      [toolCall]
+    );
+    // No fallback once a tool call reached the caller
+    assert.equal(models.length, 1);
+    await router.shutdown();
+  });
+
+  it('ends a tool-call stream with its finish reason', async () => {
+    const { router } = await createRouter([
+      () =>
+        createStreamResponse([
+          toEvents([
+            {
+              choices: [
+                {
+                  delta: {
+                    tool_calls: [
+                      {
+                        index: 0,
+                        id: 'call_1',
+                        function: { name: 'get_weather', arguments: '{"ci' },
+                      },
+                    ],
+                  },
+                },
+              ],
+            },
+            {
+              choices: [
+                {
+                  delta: {
+                    tool_calls: [
+                      { index: 0, function: { arguments: 'ty":1}' } },
+                    ],
+                  },
+                },
+              ],
+            },
+            { choices: [{ delta: {}, finish_reason: 'tool_calls' }] },
+          ]),
+        ]),
+    ]);
+
+    const events = await collect(router.stream(messages, properties));
+
+    assert.deepEqual(
+      events.map(event => event.type),
+      ['selection', 'delta', 'delta', 'delta', 'done']
+    );
+    const done = events.at(-1);
+    assert.equal(done?.type === 'done' && done.content, '');
+    assert.equal(done?.type === 'done' && done.finishReason, 'tool_calls');
+    await router.shutdown();
+  });
+
+  it('times the first token from the attempt that answered', async () => {
+    const { router } = await createRouter([failing(503), streamOk], {
+      transport: { retry: { maxRetries: 1, baseDelayMs: 100 } },
+    });
+
+    const events = await collect(router.stream(messages, properties));
+
+    const done = events.at(-1);
+    assert.ok(done?.type === 'done');
+    assert.equal(done.attempts.length, 1);
+    assert.ok((done.attempts[0]?.latencyMs ?? 0) >= 45);
+    assert.ok(done.timeToFirstTokenMs < 45);
+    await router.shutdown();
+  });
+
+  it('switches models when one fails before its first token', async () => {
+    const { router, models } = await createRouter([failing(502), streamOk]);
+
+    const events = await collect(router.stream(messages, properties));
+
+    const fallback = events.find(event => event.type === 'fallback');
+    assert.equal(
+      fallback?.type === 'fallback' && fallback.failedModel,
+      models[0]
+    );
+    assert.equal(
+      fallback?.type === 'fallback' && fallback.nextModel,
+      models[1]
+    );
+    assert.equal(fallback?.type === 'fallback' && fallback.statusCode, 502);
+    const done = events.at(-1);
+    assert.equal(done?.type === 'done' && done.model, models[1]);
+    assert.equal(done?.type === 'done' && done.attempts.length, 2);
+    await router.shutdown();
+  });
+
+  it('does not switch models once tokens were streamed', async () => {
+    const { router, models } = await createRouter([
+      () =>
+        createStreamResponse([
+          toEvents([
+            { choices: [{ delta: { content: 'Hel' } }] },
+            { error: { message: 'overloaded', code: 503 } },
+          ]),
+        ]),
+      streamOk,
+    ]);
+
+    const events: RouterStreamEvent[] = [];
+    await assert.rejects(async () => {
+      for await (const event of router.stream(messages, properties)) {
+        events.push(event);
+      }
+    }, /overloaded/);
+    assert.deepEqual(
+      events.map(event => event.type),
+      ['selection', 'delta']
+    );
+    assert.equal(models.length, 1);
+    await router.shutdown();
+  });
+});
@@ -0,0 +1,494 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { AutoPromptRouter } from '../../src/router.js';
+import {
+  NoCandidateModelsError,
+  RouterError,
+  type CandidateFilterStage,
+} from '../../src/errors.js';
+import { embeddingCache } from '../../src/cache.js';
+import type { PromptProperties, RouterConfig } from '../../src/types.js';
+import { createCatalog } from '../helpers/fixtures.js';
+
+const properties: PromptProperties = {
+  accuracy: 0.7,
+  cost: 0.5,
+  speed: 0.5,
+  tokenLimit: 1000,
+  reasoning: true,
+};
+
+/**
+ * Initialized router serving `catalog` from its fake `/models` endpoint
+ */
+const createRouter = async (
+  catalog: ReturnType<typeof createCatalog>,
+  config: Partial<RouterConfig> = {}
+) => {
+  const fakeFetch = async () => Response.json(catalog);
+  const router = new AutoPromptRouter({
+    OPEN_ROUTER_API_KEY: 'test-key',
+    selectionStrategy: 'local',
+    transport: { fetch: fakeFetch as typeof fetch },
+    ...config,
+  });
+  await router.initialize();
+  return router;
+};
+
+const noCandidates = (stage: CandidateFilterStage) => (error: unknown) =>
+  error instanceof NoCandidateModelsError &&
+  error.code === 'NO_CANDIDATE_MODELS' &&
+  error.stage === stage;
+
+const hasCode = (code: RouterError['code']) => (error: unknown) =>
+  error instanceof RouterError && error.code === code;
+
+describe('AutoPromptRouter.getModelRecommendation', () => {
+  it('accepts a prompt string or a chat conversation', async () => {
+    const router = await createRouter(
+      createCatalog(['openai/gpt-4o', 'anthropic/claude-3-haiku'])
+    );
+
+    const fromString = await router.getModelRecommendation(
+      'Write a haiku',
+      properties
+    );
+    const fromMessages = await router.getModelRecommendation(
+      [
+        { role: 'system', content: 'You are a poet' },
+        { role: 'user', content: 'Write a haiku' },
+      ],
+      properties
+    );
+
+    assert.ok(fromString.model);
+    assert.ok(fromMessages.model);
+    await router.shutdown();
+  });
+
+  it('skips models whose context window cannot hold the conversation', async () => {
+    const catalog = createCatalog([
+      'openai/gpt-4o',
+      'anthropic/claude-3-haiku',
+    ]);
+    catalog.data[0]!.context_length = 1000;
+    const router = await createRouter(catalog);
+
+    const selection = await router.getModelRecommendation(
+      [
+        { role: 'user', content: 'Summarize this document' },
+        { role: 'user', content: 'lorem ipsum '.repeat(1000) },
+      ],
+      properties
+    );
+
+    assert.equal(selection.model, 'anthropic/claude-3-haiku');
+    assert.ok(
+      selection.alternatives.every(alt => alt.model !== 'openai/gpt-4o')
+    );
+    await router.shutdown();
+  });
+
+  it('reserves tokenLimit for the completion', async () => {
+    const catalog = createCatalog([
+      'openai/gpt-4o',
+      'anthropic/claude-3-haiku',
+    ]);
+    catalog.data[1]!.context_length = 3500;
+    const router = await createRouter(catalog);
+
+    const selection = await router.getModelRecommendation('Write a story', {
+      ...properties,
+      tokenLimit: 3000,
+    });
+    assert.ok(selection.alternatives.length > 0);
+
+    const long = await router.getModelRecommendation('Write a long story', {
+      ...properties,
+      tokenLimit: 4000,
+    });
+    assert.equal(long.model, 'openai/gpt-4o');
+    assert.equal(long.alternatives.length, 0);
+    await router.shutdown();
+  });
+
+  it('fails when no model can fit the completion', async () => {
+    const router = await createRouter(createCatalog(['openai/gpt-4o']));
+
+    await assert.rejects(
+      router.getModelRecommendation('Write a novel', {
+        ...properties,
+        tokenLimit: 10_000,
+      }),
+      noCandidates('context_window')
+    );
+    await router.shutdown();
+  });
+
+  it('keeps models that accept the attached input types', async () => {
+    const catalog = createCatalog([
+      'openai/gpt-4o',
+      'anthropic/claude-3-haiku',
+    ]);
+    catalog.data[0]!.architecture = { input_modalities: ['text'] };
+    catalog.data[1]!.architecture = { input_modalities: ['text', 'image'] };
+    const router = await createRouter(catalog);
+
+    const fromParts = await router.getModelRecommendation(
+      [
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'Describe this' },
+            { type: 'image_url', image_url: { url: 'https://x/cat.png' } },
+          ],
+        },
+      ],
+      properties
+    );
+    const fromOptions = await router.getModelRecommendation(
+      'Describe this',
+      properties,
+      { attachments: [{ type: 'image', mimeType: 'image/png' }] }
+    );
+
+    assert.equal(fromParts.model, 'anthropic/claude-3-haiku');
+    assert.equal(fromOptions.model, 'anthropic/claude-3-haiku');
+    await assert.rejects(
+      router.getModelRecommendation('Transcribe this', properties, {
+        attachments: [{ type: 'audio' }],
+      }),
+      noCandidates('modality')
+    );
+    await router.shutdown();
+  });
+
+  it('keeps models that support the required parameters', async () => {
+    const catalog = createCatalog([
+      'openai/gpt-4o',
+      'anthropic/claude-3-haiku',
+    ]);
+    catalog.data[0]!.supported_parameters = ['temperature'];
+    catalog.data[1]!.supported_parameters = ['tools', 'structured_outputs'];
+    const router = await createRouter(catalog);
+
+    const selection = await router.getModelRecommendation('Call a tool', {
+      ...properties,
+      requiresTools: true,
+      requiresJsonSchema: true,
+    });
+
+    assert.equal(selection.model, 'anthropic/claude-3-haiku');
+    await assert.rejects(
+      router.getModelRecommendation('Sample', {
+        ...properties,
+        requiredParameters: ['logprobs'],
+      }),
+      noCandidates('features')
+    );
+    await router.shutdown();
+  });
+
+  it('skips parameter checks when the catalog does not report them', async () => {
+    const router = await createRouter(createCatalog(['openai/gpt-4o']));
+
+    const selection = await router.getModelRecommendation('Call a tool', {
+      ...properties,
+      requiresTools: true,
+    });
+
+    assert.equal(selection.model, 'openai/gpt-4o');
+    await router.shutdown();
+  });
+
+  it('applies router and request routing constraints', async () => {
+    const catalog = createCatalog([
+      'openai/gpt-4o',
+      'anthropic/claude-3-haiku',
+      'google/gemini-flash',
+    ]);
+    const router = await createRouter(catalog, {
+      constraints: { blockedProviders: ['google'] },
+    });
+
+    const selection = await router.getModelRecommendation('Hello', properties, {
+      constraints: { allowedModels: ['anthropic/*'] },
+    });
+
+    assert.equal(selection.model, 'anthropic/claude-3-haiku');
+    assert.deepEqual(selection.alternatives, []);
+    await assert.rejects(
+      router.getModelRecommendation('Hello', properties, {
+        constraints: { allowedProviders: ['google'] },
+      }),
+      noCandidates('constraints')
+    );
+    await router.shutdown();
+  });
+
+  it('boosts preferred providers in the ranking', async () => {
+    const router = await createRouter(
+      createCatalog(['openai/gpt-4o', 'anthropic/claude-3-haiku'])
+    );
+
+    const baseline = await router.getModelRecommendation('Hello', properties);
+    const other = [
+      baseline.model,
+      ...baseline.alternatives.map(a => a.model),
+    ].find(model => model !== baseline.model)!;
+    const preferred = await router.getModelRecommendation('Hello', properties, {
+      constraints: {
+        preferredProviders: [other.split('/')[0]!],
+        preferredProviderBoost: 1,
+      },
+    });
+
+    assert.equal(preferred.model, other);
+    await router.shutdown();
+  });
+
+  it('applies routing rules to the candidates', async () => {
+    const router = await createRouter(
+      createCatalog([
+        'openai/gpt-4o',
+        'anthropic/claude-3-haiku',
+        'google/gemini-flash',
+      ]),
+      {
+        rules: [
+          {
+            id: 'sql-to-gpt',
+            when: { promptMatches: '\\bsql\\b', promptMatchFlags: 'i' },
+            then: { action: 'pin', model: 'openai/gpt-4o' },
+          },
+          {
+            id: 'no-google',
+            then: { action: 'exclude', providers: ['google'] },
+          },
+        ],
+      }
+    );
+
+    const pinned = await router.getModelRecommendation(
+      'Write a SQL query',
+      properties
+    );
+    const unpinned = await router.getModelRecommendation('Hello', properties);
+
+    assert.equal(pinned.model, 'openai/gpt-4o');
+    assert.equal(pinned.reasonCode, 'rule_pinned');
+    assert.deepEqual(pinned.appliedRules, ['sql-to-gpt', 'no-google']);
+    assert.deepEqual(unpinned.appliedRules, ['no-google']);
+    assert.ok(
+      [unpinned.model, ...unpinned.alternatives.map(alt => alt.model)].every(
+        model => !model.startsWith('google/')
+      )
+    );
+    await router.shutdown();
+  });
+
+  it('rejects invalid rules when the router is created', () => {
+    assert.throws(
+      () =>
+        new AutoPromptRouter({
+          OPEN_ROUTER_API_KEY: 'test-key',
+          rules: [{ id: 'pin', then: { action: 'pin' } } as never],
+        }),
+      (error: unknown) =>
+        hasCode('INVALID_CONFIG')(error) &&
+        /Invalid routing rules/.test((error as Error).message)
+    );
+  });
+
+  it('rejects empty conversations', async () => {
+    const router = await createRouter(createCatalog(['openai/gpt-4o']));
+
+    await assert.rejects(
+      router.getModelRecommendation([], properties),
+      hasCode('INVALID_INPUT')
+    );
+    await router.shutdown();
+  });
+
+  it('learns from feedback on its selections', async () => {
+    const router = await createRouter(
+      createCatalog(['openai/gpt-4o', 'anthropic/claude-3-haiku']),
+      { feedback: { priorStrength: 1 } }
+    );
+
+    const selection = await router.getModelRecommendation('Hello', properties);
+    router.submitFeedback(selection.id, { rating: 0 });
+    // Already rated: ignored
+    router.submitFeedback(selection.id, { rating: 1 });
+
+    const [stats] = router.getFeedbackStats();
+    assert.equal(stats?.model, selection.model);
+    assert.equal(stats?.category, selection.category.type);
+    assert.equal(stats?.quality, 0);
+
+    router.resetFeedback();
+    assert.deepEqual(router.getFeedbackStats(), []);
+    await router.shutdown();
+  });
+
+  it('requires initialize() first', async () => {
+    const router = new AutoPromptRouter({ OPEN_ROUTER_API_KEY: 'test-key' });
+
+    await assert.rejects(
+      router.getModelRecommendation('Hello', properties),
+      hasCode('ROUTER_NOT_INITIALIZED')
+    );
+  });
+
+  it('reports catalog failures with the status', async () => {
+    const router = new AutoPromptRouter({
+      OPEN_ROUTER_API_KEY: 'test-key',
+      transport: {
+        fetch: (async () =>
+          new Response('unauthorized', { status: 401 })) as typeof fetch,
+      },
+    });
+
+    await assert.rejects(
+      router.initialize(),
+      (error: unknown) =>
+        hasCode('CATALOG_FETCH_FAILED')(error) &&
+        (error as RouterError).context.status === 401
+    );
+  });
+
+  it('serves a requested model without calling the selector', async () => {
+    const calls: string[] = [];
+    const catalog = createCatalog([
+      'openai/gpt-4o',
+      'anthropic/claude-3-haiku',
+    ]);
+    const fakeFetch = async (url: string) => {
+      calls.push(url);
+      return url.endsWith('/models')
+        ? Response.json(catalog)
+        : new Response('selector down', { status: 500 });
+    };
+    const router = new AutoPromptRouter({
+      OPEN_ROUTER_API_KEY: 'test-key',
+      selectionStrategy: 'llm',
+      selectorFallback: false,
+      transport: { fetch: fakeFetch as typeof fetch },
+    });
+    await router.initialize();
+
+    const selection = await router.getModelRecommendation('Hello', properties, {
+      model: 'anthropic/claude-3-haiku',
+    });
+
+    assert.equal(selection.model, 'anthropic/claude-3-haiku');
+    assert.equal(selection.reasonCode, 'requested');
+    assert.ok(calls.every(url => url.endsWith('/models')));
+    await assert.rejects(
+      router.getModelRecommendation('Hello', properties, {
+        model: 'openai/unknown',
+      }),
+      noCandidates('constraints')
+    );
+    await router.shutdown();
+  });
+
+  it('throws SelectorResponseError when selector fallback is off', async () => {
+    const catalog = createCatalog([
+      'openai/gpt-4o',
+      'anthropic/claude-3-haiku',
+    ]);
+    const fakeFetch = async (url: string) =>
+      url.endsWith('/models')
+        ? Response.json(catalog)
+        : new Response('selector down', { status: 400 });
+    const create = async (selectorFallback: boolean) => {
+      const router = new AutoPromptRouter({
+        OPEN_ROUTER_API_KEY: 'test-key',
+        selectionStrategy: 'llm',
+        selectorFallback,
+        transport: { fetch: fakeFetch as typeof fetch },
+      });
+      await router.initialize();
+      return router;
+    };
+
+    const strict = await create(false);
+    await assert.rejects(
+      strict.getModelRecommendation('Hello', properties),
+      hasCode('SELECTOR_RESPONSE_INVALID')
+    );
+    await strict.shutdown();
+
+    const lenient = await create(true);
+    const selection = await lenient.getModelRecommendation('Hello', properties);
+    assert.ok(selection.model);
+    await lenient.shutdown();
+  });
+});
+
+describe('AutoPromptRouter recommendation cache', () => {
+  it('reuses selections for near-duplicate prompts', async () => {
+    // Pre-computed embeddings, so no embedding model is loaded
+    embeddingCache.setEmbedding('Refactor this class', [1, 0, 0]);
+    embeddingCache.setEmbedding('Refactor this module', [0.99, 0.1, 0]);
+    const router = await createRouter(
+      createCatalog(['openai/gpt-4o', 'anthropic/claude-3-haiku']),
+      { recommendationCache: { enabled: true } }
+    );
+
+    const first = await router.getModelRecommendation(
+      'Refactor this class',
+      properties
+    );
+    const second = await router.getModelRecommendation(
+      'Refactor this module',
+      properties
+    );
+
+    assert.equal(first.cached, undefined);
+    assert.equal(second.model, first.model);
+    assert.notEqual(second.id, first.id);
+    assert.equal(second.cached?.selectionId, first.id);
+    assert.deepEqual(router.getRecommendationCacheStats(), {
+      entries: 1,
+      hits: 1,
+      misses: 1,
+      hitRate: 0.5,
+    });
+
+    router.clearRecommendationCache();
+    assert.equal(router.getRecommendationCacheStats().entries, 0);
+    await router.shutdown();
+  });
+
+  it('does not reuse selections when the new prompt fires other rules', async () => {
+    embeddingCache.setEmbedding('Rename this variable', [0, 0, 1]);
+    embeddingCache.setEmbedding('Rename this SQL variable', [0.1, 0, 0.99]);
+    const router = await createRouter(
+      createCatalog(['openai/gpt-4o', 'anthropic/claude-3-haiku']),
+      {
+        recommendationCache: { enabled: true },
+        rules: [
+          {
+            id: 'sql-to-claude',
+            when: { promptMatches: '\\bsql\\b', promptMatchFlags: 'i' },
+            then: { action: 'pin', model: 'anthropic/claude-3-haiku' },
+          },
+        ],
+      }
+    );
+
+    await router.getModelRecommendation('Rename this variable', properties);
+    const selection = await router.getModelRecommendation(
+      'Rename this SQL variable',
+      properties
+    );
+
+    assert.equal(selection.cached, undefined);
+    assert.equal(selection.model, 'anthropic/claude-3-haiku');
+    assert.deepEqual(selection.appliedRules, ['sql-to-claude']);
+    await router.shutdown();
+  });
+});